@@ -2,32 +2,39 @@
  * POST /api/analyze
  *
  * AI Caregiver Co-Pilot backend route.
- * Pipeline: Clean → Structure → Risk Analysis
+ * Pipeline: Clean → Structure → Risk Analysis → Medication Reconciliation
+ * (reconciliation runs when the request includes the patient's medication list)
+ * See /api/analyze/stream for the Server-Sent Events variant.
+ * Step outputs are cached by content; `cache` in the response reports
+ * hit/miss per step.
  *
  * Server-only. Safe for production demos.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { analyzeCaregiverTranscript, PipelineError } from "@/lib/ai/pipeline";
-import { isOpenAIConfigured } from "@/lib/ai/openai";
-
-interface AnalyzeRequestBody {
-  transcript: string;
-}
+import { isMockMode } from "@/lib/ai/mock";
+import {
+  canRunAnalysis,
+  createAnalyzeClient,
+  isLLMConfigError,
+  LLM_NOT_CONFIGURED_MESSAGE,
+  parseAnalyzeRequest,
+} from "@/lib/ai/analyze-request";
 
 export async function POST(request: NextRequest) {
   const start = Date.now();
   console.log("[api/analyze] Request received");
 
   try {
-    // Ensure API key exists
-    if (!isOpenAIConfigured()) {
-      console.warn("[api/analyze] OpenAI not configured");
+    // Ensure the LLM provider is configured (mock mode needs nothing)
+    if (!canRunAnalysis()) {
+      console.warn("[api/analyze] LLM provider not configured");
 
       return NextResponse.json(
         {
           error: "Service unavailable",
-          message: "Add OPENAI_API_KEY to .env or .env.local, then restart the dev server.",
+          message: LLM_NOT_CONFIGURED_MESSAGE,
         },
         { status: 503 }
       );
@@ -48,48 +55,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!body || typeof body !== "object") {
-      return NextResponse.json(
-        {
-          error: "Invalid request",
-          message: "Request body must be a JSON object.",
-        },
-        { status: 400 }
-      );
-    }
-
-    const { transcript } = body as AnalyzeRequestBody;
-
-    // Validate transcript
-    if (typeof transcript !== "string") {
-      return NextResponse.json(
-        {
-          error: "Invalid request",
-          message: "Expected { transcript: string }.",
-        },
-        { status: 400 }
-      );
-    }
-
-    const trimmed = transcript.trim();
+    const parsed = parseAnalyzeRequest(body);
 
-    if (!trimmed) {
+    if (!parsed.ok) {
       return NextResponse.json(
         {
           error: "Invalid request",
-          message: "'transcript' cannot be empty.",
+          message: parsed.message,
         },
         { status: 400 }
       );
     }
 
-    console.log("[api/analyze] Running AI pipeline...");
+    console.log(
+      `[api/analyze] Running AI pipeline${isMockMode() ? " (mock mode)" : ""}...`
+    );
 
     // Run AI pipeline
-    const result = await analyzeCaregiverTranscript(trimmed);
+    const result = await analyzeCaregiverTranscript(
+      parsed.request.transcript,
+      createAnalyzeClient(),
+      parsed.request.options
+    );
 
     const duration = Date.now() - start;
-    console.log(`[api/analyze] Success in ${duration}ms`);
+    const cacheHits = Object.entries(result.cache ?? {})
+      .filter(([, status]) => status === "hit")
+      .map(([step]) => step);
+    console.log(
+      `[api/analyze] Success in ${duration}ms${
+        cacheHits.length > 0 ? ` (cached: ${cacheHits.join(", ")})` : ""
+      }`
+    );
 
     // Return full structured result
     return NextResponse.json(result);
@@ -108,14 +105,16 @@ export async function POST(request: NextRequest) {
           error: "Pipeline error",
           message: error.message,
           step: error.step,
+          // Send back as `resume` to retry without redoing completed steps
+          checkpoint: error.checkpoint,
         },
         { status: 500 }
       );
     }
 
     // Misconfigured env edge case
-    if (error instanceof Error && error.message.includes("OPENAI_API_KEY")) {
-      console.error("[api/analyze] Missing API key:", error.message);
+    if (isLLMConfigError(error)) {
+      console.error("[api/analyze] LLM misconfigured:", error.message);
 
       return NextResponse.json(
         {
@@ -0,0 +1,160 @@
+/**
+ * POST /api/analyze/stream
+ *
+ * Streaming variant of /api/analyze. Same request body; responds with
+ * Server-Sent Events so the client can show per-step progress:
+ *
+ *   event: step    data: { type: "step_started" | "step_finished" | "step_retry", step, ... }
+ *   event: token   data: { step, delta }
+ *   event: result  data: PipelineResult
+ *   event: error   data: { error, message, step?, checkpoint? }
+ *
+ * Request and configuration errors are returned as plain JSON (4xx/503)
+ * before the stream opens. Server-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  analyzeCaregiverTranscript,
+  PipelineError,
+  type PipelineEvent,
+} from "@/lib/ai/pipeline";
+import { isMockMode } from "@/lib/ai/mock";
+import {
+  canRunAnalysis,
+  createAnalyzeClient,
+  isLLMConfigError,
+  LLM_NOT_CONFIGURED_MESSAGE,
+  parseAnalyzeRequest,
+} from "@/lib/ai/analyze-request";
+
+export const dynamic = "force-dynamic";
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function POST(request: NextRequest) {
+  const start = Date.now();
+  console.log("[api/analyze/stream] Request received");
+
+  if (!canRunAnalysis()) {
+    console.warn("[api/analyze/stream] LLM provider not configured");
+
+    return NextResponse.json(
+      {
+        error: "Service unavailable",
+        message: LLM_NOT_CONFIGURED_MESSAGE,
+      },
+      { status: 503 }
+    );
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be valid JSON.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseAnalyzeRequest(body);
+
+  if (!parsed.ok) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: parsed.message,
+      },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        } catch {
+          open = false;
+        }
+      };
+
+      const onEvent = (event: PipelineEvent) => {
+        if (event.type === "token") {
+          send("token", { step: event.step, delta: event.delta });
+        } else {
+          send("step", event);
+        }
+      };
+
+      console.log(
+        `[api/analyze/stream] Running AI pipeline${isMockMode() ? " (mock mode)" : ""}...`
+      );
+
+      try {
+        const result = await analyzeCaregiverTranscript(
+          parsed.request.transcript,
+          createAnalyzeClient(),
+          { ...parsed.request.options, onEvent }
+        );
+
+        console.log(`[api/analyze/stream] Success in ${Date.now() - start}ms`);
+        send("result", result);
+      } catch (error) {
+        const duration = Date.now() - start;
+
+        if (error instanceof PipelineError) {
+          console.error(
+            `[api/analyze/stream] Pipeline error at step "${error.step}" (${duration}ms):`,
+            error
+          );
+          send("error", {
+            error: "Pipeline error",
+            message: error.message,
+            step: error.step,
+            checkpoint: error.checkpoint,
+          });
+        } else if (isLLMConfigError(error)) {
+          console.error("[api/analyze/stream] LLM misconfigured:", error.message);
+          send("error", { error: "Configuration error", message: error.message });
+        } else {
+          console.error(
+            `[api/analyze/stream] Unexpected error (${duration}ms):`,
+            error
+          );
+          send("error", {
+            error: "Internal server error",
+            message: "An unexpected error occurred.",
+          });
+        }
+      } finally {
+        if (open) controller.close();
+      }
+    },
+    cancel() {
+      // Client went away; the pipeline finishes but nothing more is sent
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable proxy buffering (nginx) so events arrive as they are sent
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * GET /api/escalation-rules — the agency's escalation rules config
+ *
+ * Serves ESCALATION_RULES_PATH when set (validated on every request), else
+ * the bundled defaults. An invalid config is reported, not silently
+ * replaced, so protocol mistakes surface in the UI. Server-side only.
+ */
+
+import { NextResponse } from "next/server";
+import { EscalationConfigError } from "@/lib/escalation-rules";
+import { loadEscalationConfig } from "@/lib/escalation-config";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const { config, source } = await loadEscalationConfig();
+    return NextResponse.json({ config, source: source === "default" ? "default" : "custom" });
+  } catch (error) {
+    if (error instanceof EscalationConfigError) {
+      console.error("[api/escalation-rules] Invalid config:", error.errors);
+
+      return NextResponse.json(
+        {
+          error: "Configuration error",
+          message: "The escalation rules config is invalid.",
+          errors: error.errors,
+        },
+        { status: 500 }
+      );
+    }
+
+    console.error("[api/escalation-rules] Failed to load config:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not load escalation rules.",
+      },
+      { status: 500 }
+    );
+  }
+}
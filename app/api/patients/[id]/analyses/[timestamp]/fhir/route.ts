@@ -0,0 +1,63 @@
+/**
+ * GET /api/patients/:id/analyses/:timestamp/fhir
+ *
+ * Exports one visit as a FHIR R4 collection Bundle
+ * (Patient, Encounter, Observation, Flag, RiskAssessment, CarePlan).
+ * Visits are addressed by their analysis timestamp.
+ *
+ * Server-side only.
+ */
+
+import { NextResponse } from "next/server";
+import { getPatientRepository } from "@/lib/db";
+import { buildFhirVisitBundle, getFhirBundleFilename } from "@/lib/fhir-export";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string; timestamp: string } }
+) {
+  const timestamp = Number(params.timestamp);
+
+  if (!Number.isFinite(timestamp)) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Visit timestamp must be a number.",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const patient = await getPatientRepository().getPatient(params.id);
+    const analysis = patient?.analyses.find((a) => a.timestamp === timestamp);
+
+    if (!patient || !analysis) {
+      return NextResponse.json(
+        { error: "Not found", message: "Visit not found." },
+        { status: 404 }
+      );
+    }
+
+    const bundle = buildFhirVisitBundle(patient, analysis);
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/fhir+json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${getFhirBundleFilename(patient, analysis)}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[api/fhir] Failed to export visit:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not export visit.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * GET  /api/patients/:id/analyses — visit analyses, newest first
+ * POST /api/patients/:id/analyses — append a visit analysis (replaces one
+ *                                    with the same timestamp, so retries are safe)
+ *
+ * Server-side only. Accepts the PipelineResult returned by /api/analyze,
+ * optionally with the original visit timestamp.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientRepository, RepositoryError } from "@/lib/db";
+import type { AnalysisResult } from "@/types/patient";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const patient = await getPatientRepository().getPatient(params.id);
+
+    if (!patient) {
+      return NextResponse.json(
+        { error: "Not found", message: `Patient ${params.id} not found.` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ analyses: patient.analyses });
+  } catch (error) {
+    console.error("[api/patients/:id/analyses] Failed to load analyses:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not load visit analyses.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be valid JSON.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!isAnalysisBody(body)) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message:
+          "Expected { cleanedTranscript: string, structuredData: object, risks: { risk_flags: [] }, timestamp?: number }.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const analysis: AnalysisResult = {
+    ...body,
+    timestamp:
+      typeof body.timestamp === "number" && Number.isFinite(body.timestamp)
+        ? body.timestamp
+        : Date.now(),
+  };
+
+  try {
+    const saved = await getPatientRepository().addAnalysis(params.id, analysis);
+    return NextResponse.json(saved, { status: 201 });
+  } catch (error) {
+    if (error instanceof RepositoryError && error.code === "not_found") {
+      return NextResponse.json(
+        { error: "Not found", message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("[api/patients/:id/analyses] Failed to save analysis:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not save visit analysis.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function isAnalysisBody(
+  v: unknown
+): v is Omit<AnalysisResult, "timestamp"> & { timestamp?: unknown } {
+  if (!v || typeof v !== "object") return false;
+  const obj = v as Record<string, unknown>;
+  const risks = obj.risks as Record<string, unknown> | null | undefined;
+  return (
+    typeof obj.cleanedTranscript === "string" &&
+    !!obj.structuredData &&
+    typeof obj.structuredData === "object" &&
+    !!risks &&
+    typeof risks === "object" &&
+    Array.isArray(risks.risk_flags)
+  );
+}
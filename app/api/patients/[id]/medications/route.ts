@@ -0,0 +1,97 @@
+/**
+ * GET /api/patients/:id/medications — the patient's managed medication list
+ * PUT /api/patients/:id/medications — replace the medication list
+ *
+ * Server-side only. The list is used to reconcile medication notes on each visit.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientRepository, RepositoryError } from "@/lib/db";
+import { parseMedications } from "@/lib/medications";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const patient = await getPatientRepository().getPatient(params.id);
+
+    if (!patient) {
+      return NextResponse.json(
+        { error: "Not found", message: `Patient ${params.id} not found.` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ medications: patient.medications ?? [] });
+  } catch (error) {
+    console.error("[api/patients/:id/medications] Failed to load medications:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not load medications.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be valid JSON.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const medications =
+    body && typeof body === "object"
+      ? parseMedications((body as Record<string, unknown>).medications)
+      : null;
+
+  if (!medications) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message:
+          "Expected { medications: { name: string, dose?: string, schedule?: string }[] }.",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const saved = await getPatientRepository().updateMedications(params.id, medications);
+    return NextResponse.json({ medications: saved });
+  } catch (error) {
+    if (error instanceof RepositoryError && error.code === "not_found") {
+      return NextResponse.json(
+        { error: "Not found", message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("[api/patients/:id/medications] Failed to save medications:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not save medications.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * GET   /api/patients/:id — a single patient with their visit analyses
+ * PATCH /api/patients/:id — update { payer?, acuity? }; null clears a field
+ *
+ * Server-side only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientRepository, RepositoryError, type PatientUpdate } from "@/lib/db";
+import type { PatientAcuity } from "@/types/patient";
+
+export const dynamic = "force-dynamic";
+
+const ACUITIES: PatientAcuity[] = ["low", "moderate", "high"];
+
+export async function GET(
+  _request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const patient = await getPatientRepository().getPatient(params.id);
+
+    if (!patient) {
+      return NextResponse.json(
+        { error: "Not found", message: `Patient ${params.id} not found.` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(patient);
+  } catch (error) {
+    console.error("[api/patients/:id] Failed to load patient:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not load patient.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be valid JSON.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be a JSON object.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const { payer, acuity } = body as PatientUpdate;
+
+  if (payer !== undefined && payer !== null && (typeof payer !== "string" || !payer.trim())) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "'payer' must be a non-empty string or null.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (acuity !== undefined && acuity !== null && !ACUITIES.includes(acuity)) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: `'acuity' must be one of: ${ACUITIES.join(", ")}, or null.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const update: PatientUpdate = {
+    ...(payer !== undefined ? { payer: payer?.trim() ?? null } : {}),
+    ...(acuity !== undefined ? { acuity } : {}),
+  };
+
+  try {
+    const patient = await getPatientRepository().updatePatient(params.id, update);
+    return NextResponse.json(patient);
+  } catch (error) {
+    if (error instanceof RepositoryError && error.code === "not_found") {
+      return NextResponse.json(
+        { error: "Not found", message: error.message },
+        { status: 404 }
+      );
+    }
+
+    console.error("[api/patients/:id] Failed to update patient:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not save patient.",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * GET  /api/patients — list all patients with their visit analyses
+ * POST /api/patients — create a patient { id?, name, age, payer?, acuity? }
+ *
+ * Server-side only. Backed by the durable patient repository.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getPatientRepository, RepositoryError } from "@/lib/db";
+import type { Patient, PatientAcuity } from "@/types/patient";
+
+export const dynamic = "force-dynamic";
+
+interface CreatePatientBody {
+  id?: string;
+  name: string;
+  age: number;
+  payer?: string;
+  acuity?: PatientAcuity;
+}
+
+const ACUITIES: PatientAcuity[] = ["low", "moderate", "high"];
+
+export async function GET() {
+  try {
+    const patients = await getPatientRepository().listPatients();
+    return NextResponse.json({ patients });
+  } catch (error) {
+    console.error("[api/patients] Failed to list patients:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not load patients.",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be valid JSON.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Request body must be a JSON object.",
+      },
+      { status: 400 }
+    );
+  }
+
+  const { id, name, age, payer, acuity } = body as CreatePatientBody;
+
+  if (
+    typeof name !== "string" ||
+    !name.trim() ||
+    typeof age !== "number" ||
+    !Number.isFinite(age) ||
+    age < 0
+  ) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "Expected { name: string, age: number }.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (id !== undefined && (typeof id !== "string" || !id.trim())) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "'id' must be a non-empty string when provided.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (payer !== undefined && (typeof payer !== "string" || !payer.trim())) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: "'payer' must be a non-empty string when provided.",
+      },
+      { status: 400 }
+    );
+  }
+
+  if (acuity !== undefined && !ACUITIES.includes(acuity)) {
+    return NextResponse.json(
+      {
+        error: "Invalid request",
+        message: `'acuity' must be one of: ${ACUITIES.join(", ")}.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const patient: Patient = {
+    id: id ?? `patient-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name: name.trim(),
+    age: Math.floor(age),
+    ...(payer !== undefined ? { payer: payer.trim() } : {}),
+    ...(acuity !== undefined ? { acuity } : {}),
+    analyses: [],
+  };
+
+  try {
+    const created = await getPatientRepository().createPatient(patient);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof RepositoryError && error.code === "conflict") {
+      return NextResponse.json(
+        { error: "Conflict", message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error("[api/patients] Failed to create patient:", error);
+
+    return NextResponse.json(
+      {
+        error: "Internal server error",
+        message: "Could not save patient.",
+      },
+      { status: 500 }
+    );
+  }
+}
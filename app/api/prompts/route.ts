@@ -0,0 +1,28 @@
+/**
+ * GET /api/prompts — registered pipeline prompt versions
+ *
+ * Lets reviewers see which versions exist (and their text) when auditing
+ * the `provenance` recorded on stored analyses. Server-side only.
+ */
+
+import { NextResponse } from "next/server";
+import {
+  CURRENT_PROMPT_VERSIONS,
+  PROMPT_NAMES,
+  PROMPT_REGISTRY,
+} from "@/lib/ai/prompts";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const prompts = PROMPT_NAMES.map((name) => ({
+    name,
+    current: CURRENT_PROMPT_VERSIONS[name],
+    versions: Object.entries(PROMPT_REGISTRY[name]).map(([version, text]) => ({
+      version,
+      text: text.trim(),
+    })),
+  }));
+
+  return NextResponse.json({ prompts });
+}
@@ -1,16 +1,41 @@
 /**
  * POST /api/transcribe
  *
- * Transcribes audio using OpenAI Whisper.
+ * Transcribes audio with the backend selected by TRANSCRIBE_PROVIDER (see
+ * lib/ai/transcription): OpenAI with speaker diarization by default, or a
+ * self-hosted Whisper server / whisper.cpp CLI so audio never leaves the
+ * agency's infrastructure.
  * Accepts multipart form data with an "audio" file.
+ * Returns { text, segments } when the backend diarizes: speaker turns with
+ * roles and timestamps, and the text as "Caregiver: ..." / "Patient: ..."
+ * lines when more than one person speaks. Other backends (and
+ * TRANSCRIBE_DIARIZATION=off) return { text } only.
+ * Recordings over the backend's per-request limit are cut on pauses,
+ * transcribed in parallel and stitched back together in order (needs ffmpeg
+ * for formats other than 16-bit WAV).
+ * With AI_MOCK_MODE=true, returns a canned fixture transcript instead.
  *
  * Server-side only.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getOpenAIClient, isOpenAIConfigured } from "@/lib/ai/openai";
+import { createMockTranscriptionProvider, isMockMode } from "@/lib/ai/mock";
+import {
+  getTranscriptionProvider,
+  isTranscriptionConfigured,
+  type TranscriptionResult,
+} from "@/lib/ai/transcription";
+import {
+  AudioDecodeError,
+  decodeAudio,
+  splitAudioOnSilence,
+  type AudioChunk,
+} from "@/lib/audio-chunking";
+import { formatSpeakerTranscript, stitchChunkSegments } from "@/lib/transcript-segments";
+import { mapWithConcurrency } from "@/lib/utils";
+import type { TranscriptSegment } from "@/types/patient";
 
-const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25 MB
+const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200 MB
 const ALLOWED_TYPES = [
   "audio/webm",
   "audio/mp4",
@@ -20,13 +45,24 @@ const ALLOWED_TYPES = [
   "audio/m4a",
 ];
 
+function diarizedResponse(segments: TranscriptSegment[]) {
+  return NextResponse.json({ text: formatSpeakerTranscript(segments), segments });
+}
+
+function chunkFile(chunk: AudioChunk, index: number): File {
+  return new File([chunk.wav], `chunk-${index + 1}.wav`, { type: "audio/wav" });
+}
+
 export async function POST(request: NextRequest) {
   try {
-    if (!isOpenAIConfigured()) {
+    const mockMode = isMockMode();
+
+    if (!mockMode && !isTranscriptionConfigured()) {
       return NextResponse.json(
         {
           error: "Service unavailable",
-          message: "Add OPENAI_API_KEY to .env or .env.local, then restart the dev server.",
+          message:
+            "Add OPENAI_API_KEY, configure a local TRANSCRIBE_PROVIDER (or set AI_MOCK_MODE=true) in .env or .env.local, then restart the dev server.",
         },
         { status: 503 }
       );
@@ -49,7 +85,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         {
           error: "Invalid request",
-          message: "Audio file must be under 25 MB.",
+          message: "Audio file must be under 200 MB.",
         },
         { status: 400 }
       );
@@ -69,20 +105,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const client = getOpenAIClient();
+    const provider = mockMode ? createMockTranscriptionProvider() : getTranscriptionProvider();
 
-    const transcription = await client.audio.transcriptions.create({
-      file,
-      model: "whisper-1",
-      response_format: "text",
-    });
+    let parts: { offset: number; result: TranscriptionResult }[];
+    if (file.size <= provider.maxFileSize) {
+      parts = [{ offset: 0, result: await provider.transcribe(file) }];
+    } else {
+      const chunks = splitAudioOnSilence(await decodeAudio(file));
+      parts = await mapWithConcurrency(chunks, provider.maxConcurrency, async (chunk, i) => ({
+        offset: chunk.start,
+        result: await provider.transcribe(chunkFile(chunk, i)),
+      }));
+    }
 
-    const text = typeof transcription === "string" ? transcription : "";
+    if (parts.every((p) => p.result.segments)) {
+      return diarizedResponse(
+        stitchChunkSegments(
+          parts.map((p) => ({ offset: p.offset, segments: p.result.segments ?? [] }))
+        )
+      );
+    }
 
-    return NextResponse.json({ text: text.trim() });
+    return NextResponse.json({
+      text: parts.map((p) => p.result.text).filter(Boolean).join(" "),
+    });
   } catch (error) {
     if (error instanceof Error) {
-      if (error.message.includes("OPENAI_API_KEY")) {
+      if (/OPENAI_API_KEY|TRANSCRIBE_|WHISPER_|FFMPEG_PATH/.test(error.message)) {
         return NextResponse.json(
           { error: "Configuration error", message: error.message },
           { status: 503 }
@@ -90,6 +139,18 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (error instanceof AudioDecodeError) {
+      console.error("[api/transcribe] Decode error:", error.message);
+
+      return NextResponse.json(
+        {
+          error: "Invalid request",
+          message: "Could not decode the recording. Try again or upload a WAV file.",
+        },
+        { status: 400 }
+      );
+    }
+
     console.error("[api/transcribe] Error:", error);
 
     return NextResponse.json(
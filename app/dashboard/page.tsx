@@ -3,7 +3,7 @@
 import { useMemo } from "react";
 import Link from "next/link";
 import { PageContainer, Card, Button } from "@/components";
-import { PatientSafetyBanner } from "@/components";
+import { EscalationActionList, PatientSafetyBanner, RiskTrendSeries } from "@/components";
 import { usePatientStore } from "@/lib/patient-store";
 import {
   deriveAISummaryShort,
@@ -15,6 +15,9 @@ import {
   deriveKeyTakeaway,
   countNewRisksSincePrior,
 } from "@/lib/insights-utils";
+import { computeRiskSeries, DEFAULT_TREND_WINDOW } from "@/lib/trend-engine";
+import { evaluateEscalation } from "@/lib/escalation-rules";
+import { useEscalationRules } from "@/lib/use-escalation-rules";
 
 function formatVisitDate(ts: number): string {
   const d = new Date(ts);
@@ -60,6 +63,23 @@ export default function DashboardPage() {
   const concerns = structuredData?.concerns ?? [];
   const followups = structuredData?.suggested_followups ?? [];
   const highestRisk = getHighestRiskSeverity(riskFlags);
+  const { config: escalationRules, error: escalationRulesError } = useEscalationRules();
+  const escalationActions = useMemo(
+    () =>
+      latestAnalysis
+        ? evaluateEscalation(escalationRules, {
+            analysis: latestAnalysis,
+            previous: previousAnalysis,
+            patient: activePatient,
+          })
+        : [],
+    [escalationRules, latestAnalysis, previousAnalysis, activePatient]
+  );
+
+  const riskSeries = useMemo(
+    () => computeRiskSeries(activePatient?.analyses ?? []),
+    [activePatient?.analyses]
+  );
 
   const { aiSnapshot, confidence, newFindings, trendChips, newRisksCount, keyTakeaway } =
     useMemo(() => {
@@ -130,7 +150,20 @@ export default function DashboardPage() {
 
         {/* Patient Safety Banner */}
         {latestAnalysis && (
-          <PatientSafetyBanner riskFlags={riskFlags} />
+          <PatientSafetyBanner
+            riskFlags={riskFlags}
+            partial={latestAnalysis.status === "partial"}
+          />
+        )}
+
+        {/* Escalation — from the agency's rules */}
+        {escalationActions.length > 0 && (
+          <Card>
+            <h2 className="text-xs uppercase tracking-wider text-muted font-medium mb-3">
+              Recommended Actions
+            </h2>
+            <EscalationActionList actions={escalationActions} rulesError={escalationRulesError} />
+          </Card>
         )}
 
         {/* AI Snapshot + Trend Chips */}
@@ -201,6 +234,16 @@ export default function DashboardPage() {
           </Card>
         )}
 
+        {/* Risk Patterns — longitudinal, across the trend window */}
+        {hasMultipleVisits && (
+          <Card>
+            <h2 className="text-xs uppercase tracking-wider text-muted font-medium mb-3">
+              Risk Patterns · Last {Math.min(analyses.length, DEFAULT_TREND_WINDOW)} Visits
+            </h2>
+            <RiskTrendSeries series={riskSeries} limit={4} />
+          </Card>
+        )}
+
         {/* Smart Metrics Row */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 min-h-0">
           <Card className="flex flex-col gap-2">
@@ -1,20 +1,43 @@
 "use client";
 
-import { Suspense, useState } from "react";
+import { Suspense, useRef, useState } from "react";
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
-import { PageContainer, Card, Button } from "@/components";
+import { PageContainer, Card, Button, EscalationActionList } from "@/components";
 import { usePatientStore } from "@/lib/patient-store";
-import type { AnalysisResult, RiskFlag } from "@/types/patient";
+import type {
+  AnalysisIssue,
+  AnalysisResult,
+  EvidenceSpan,
+  MedicationFinding,
+  RiskFlag,
+  StructuredEvidenceField,
+} from "@/types/patient";
 import {
   computeTrendAnalysis,
-  generateEscalation,
   getContributingSignals,
   computeAIConfidence,
   buildEMRExportText,
   sortRisksBySeverity,
-  RISK_KEYWORDS,
+  getRiskyPhraseRanges,
 } from "@/lib/insights-utils";
+import { buildHighlightSegments, validSpans } from "@/lib/evidence";
+import { assessVitals, formatVital, VITAL_KEYS, VITAL_LABELS } from "@/lib/vitals";
+import { evaluateEscalation } from "@/lib/escalation-rules";
+import { useEscalationRules } from "@/lib/use-escalation-rules";
+
+const MEDICATION_FINDING_LABELS: Record<MedicationFinding["type"], string> = {
+  missed_dose: "Missed dose",
+  unknown_medication: "Not on list",
+  discrepancy: "Discrepancy",
+};
+
+const PIPELINE_STEP_LABELS: Record<AnalysisIssue["step"], string> = {
+  clean: "transcript cleaning",
+  structure: "visit structuring",
+  analyze: "risk analysis",
+  reconcile: "medication reconciliation",
+};
 
 function formatVisitDate(ts: number): string {
   const d = new Date(ts);
@@ -87,24 +110,98 @@ function getSeverityStyles(severity: string) {
   return { bg: "bg-muted-bg text-muted border border-border", icon: "ℹ" };
 }
 
-function TranscriptWithHighlights({ text }: { text: string }) {
-  const regex = new RegExp(`(${RISK_KEYWORDS.join("|")})`, "gi");
-  const parts = text.split(regex);
+/** Highlight key for spans selected from a risk or structured item */
+const FOCUS_KEY = -1;
+/** Highlight key for legacy keyword matches (analyses without evidence) */
+const KEYWORD_KEY = -2;
+
+function severityRank(severity: string): number {
+  const s = severity?.toLowerCase() ?? "low";
+  if (s === "high") return 2;
+  if (s === "medium" || s === "moderate") return 1;
+  return 0;
+}
+
+function getHighlightClass(severity: string): string {
+  const rank = severityRank(severity);
+  if (rank === 2) return "bg-red-500/15 text-red-700 dark:text-red-300";
+  if (rank === 1) return "bg-amber-500/15 text-amber-700 dark:text-amber-300";
+  return "bg-muted-bg text-foreground";
+}
+
+/**
+ * Transcript with each risk flag's evidence highlighted. Clicking a highlight
+ * opens the risk it supports; spans picked from the risk breakdown or the
+ * evidence cards are outlined. Older analyses without evidence fall back to
+ * keyword highlighting.
+ */
+function TranscriptWithHighlights({
+  text,
+  riskFlags,
+  focused,
+  onSelectRisk,
+}: {
+  text: string;
+  riskFlags: RiskFlag[];
+  focused: EvidenceSpan[];
+  onSelectRisk: (index: number) => void;
+}) {
+  const riskSpans = riskFlags.flatMap((flag, i) =>
+    validSpans(text, flag.evidence).map((span) => ({ ...span, key: i }))
+  );
+  const spans = [
+    ...(riskSpans.length > 0
+      ? riskSpans
+      : getRiskyPhraseRanges(text).map((span) => ({ ...span, key: KEYWORD_KEY }))),
+    ...validSpans(text, focused).map((span) => ({ ...span, key: FOCUS_KEY })),
+  ];
+  let focusMarked = false;
+
   return (
     <span className="whitespace-pre-wrap">
-      {parts.map((part, i) =>
-        RISK_KEYWORDS.some((k) => k.toLowerCase() === part.toLowerCase()) ? (
-          <span
-            key={i}
-            className="text-red-600 dark:text-red-400 font-medium"
-            title="May inform risk assessment"
+      {buildHighlightSegments(text, spans).map((segment) => {
+        if (segment.keys.length === 0) return segment.text;
+
+        const isFocused = segment.keys.includes(FOCUS_KEY);
+        const isFirstFocused = isFocused && !focusMarked;
+        if (isFocused) focusMarked = true;
+        const risks = segment.keys
+          .filter((k) => k >= 0)
+          .sort((a, b) => severityRank(riskFlags[b].severity) - severityRank(riskFlags[a].severity));
+        const focusClass = isFocused ? "ring-2 ring-primary" : "";
+
+        if (risks.length === 0) {
+          return (
+            <span
+              key={segment.start}
+              data-evidence-focus={isFirstFocused || undefined}
+              className={
+                segment.keys.includes(KEYWORD_KEY)
+                  ? `text-red-600 dark:text-red-400 font-medium rounded-sm ${focusClass}`
+                  : `bg-primary/10 rounded-sm ${focusClass}`
+              }
+              title={segment.keys.includes(KEYWORD_KEY) ? "May inform risk assessment" : undefined}
+            >
+              {segment.text}
+            </span>
+          );
+        }
+
+        return (
+          <button
+            key={segment.start}
+            type="button"
+            data-evidence-focus={isFirstFocused || undefined}
+            onClick={() => onSelectRisk(risks[0])}
+            className={`inline rounded-sm px-0.5 -mx-0.5 text-left font-medium cursor-pointer hover:underline ${getHighlightClass(
+              riskFlags[risks[0]].severity
+            )} ${focusClass}`}
+            title={`Supports: ${risks.map((k) => riskFlags[k].risk).join(", ")}`}
           >
-            {part}
-          </span>
-        ) : (
-          part
-        )
-      )}
+            {segment.text}
+          </button>
+        );
+      })}
     </span>
   );
 }
@@ -187,7 +284,7 @@ function deriveTrendSummary(
   return parts.join(" ");
 }
 
-function deriveVerdictHeadline(riskFlags: RiskFlag[]): { headline: string; icon: string; styles: ReturnType<typeof getSeverityStyles> } {
+function deriveVerdictHeadline(riskFlags: RiskFlag[], partial: boolean): { headline: string; icon: string; styles: ReturnType<typeof getSeverityStyles> } {
   const high = riskFlags.find((r) => r.severity?.toLowerCase() === "high");
   const medium = riskFlags.find((r) => r.severity?.toLowerCase() === "medium" || r.severity?.toLowerCase() === "moderate");
   if (high) {
@@ -199,6 +296,9 @@ function deriveVerdictHeadline(riskFlags: RiskFlag[]): { headline: string; icon:
   if (riskFlags.length > 0) {
     return { headline: "Minor signals observed", icon: "ℹ", styles: getSeverityStyles("low") };
   }
+  if (partial) {
+    return { headline: "Analysis incomplete", icon: "⚠", styles: getSeverityStyles("medium") };
+  }
   return { headline: "Stable visit", icon: "✓", styles: { bg: "bg-success/20 text-success border border-success/40", icon: "✓" } };
 }
 
@@ -238,7 +338,7 @@ export default function InsightsPage() {
 }
 
 function InsightsContent() {
-  const { activePatient } = usePatientStore();
+  const { activePatient, pendingWrites } = usePatientStore();
   const searchParams = useSearchParams();
   const visitParam = searchParams.get("visit");
   const rawIndex = Number.parseInt(visitParam ?? "0", 10);
@@ -250,6 +350,27 @@ function InsightsContent() {
   const previousAnalysis = analyses[visitIndex + 1] ?? null;
   const [copied, setCopied] = useState(false);
   const [expandedRisks, setExpandedRisks] = useState<Set<number>>(new Set());
+  const [focusedEvidence, setFocusedEvidence] = useState<EvidenceSpan[]>([]);
+  const transcriptRef = useRef<HTMLDetailsElement>(null);
+  const { config: escalationRules, error: escalationRulesError } = useEscalationRules();
+
+  const showEvidence = (spans: EvidenceSpan[]) => {
+    setFocusedEvidence(spans);
+    if (transcriptRef.current) transcriptRef.current.open = true;
+    // Wait for the highlight to render before scrolling to it
+    requestAnimationFrame(() => {
+      document
+        .querySelector("[data-evidence-focus]")
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+  };
+
+  const selectRisk = (i: number) => {
+    setExpandedRisks((prev) => new Set(prev).add(i));
+    document
+      .getElementById(`risk-${i}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
 
   const toggleRisk = (i: number) => {
     setExpandedRisks((prev) => {
@@ -292,15 +413,46 @@ function InsightsContent() {
     );
   }
 
-  const { cleanedTranscript, structuredData, risks } = latestAnalysis;
+  const { cleanedTranscript, structuredData, risks, medicationReconciliation } =
+    latestAnalysis;
   const aiSummary = deriveAISummary(latestAnalysis);
   const riskFlags = sortRisksBySeverity(risks?.risk_flags ?? []);
   const trendAnalysis = computeTrendAnalysis(latestAnalysis, previousAnalysis);
-  const suggestedActions = generateEscalation(riskFlags);
+  const escalationActions = evaluateEscalation(escalationRules, {
+    analysis: latestAnalysis,
+    previous: previousAnalysis,
+    patient: activePatient,
+  });
+  const suggestedActions = escalationActions.map((a) => a.text);
+  // The FHIR export is built server-side from the stored visit
+  const visitSaved = !pendingWrites.some(
+    (w) =>
+      w.patientId === activePatient.id &&
+      (w.kind === "patient" || (w.kind === "analysis" && w.timestamp === latestAnalysis.timestamp))
+  );
   const confidence = computeAIConfidence(latestAnalysis);
+  const vitals = structuredData?.vitals ?? {};
+  const recordedVitals = VITAL_KEYS.filter((k) => vitals[k] !== undefined);
+  const vitalAlerts = assessVitals(vitals);
+
+  const renderEvidenceItem = (field: StructuredEvidenceField, i: number, text: string) => {
+    const spans = validSpans(cleanedTranscript, structuredData?.evidence?.[field]?.[i]);
+    if (spans.length === 0) return <span>{text}</span>;
+    return (
+      <button
+        type="button"
+        onClick={() => showEvidence(spans)}
+        className="text-left hover:text-primary hover:underline decoration-dotted underline-offset-2"
+        title="Show in transcript"
+      >
+        {text}
+      </button>
+    );
+  };
   const hasMultipleVisits = (activePatient.analyses?.length ?? 0) >= 2;
 
-  const verdict = deriveVerdictHeadline(riskFlags);
+  const isPartial = latestAnalysis.status === "partial";
+  const verdict = deriveVerdictHeadline(riskFlags, isPartial);
   const keyDrivers = deriveKeyDrivers(
     riskFlags,
     structuredData?.concerns ?? [],
@@ -415,6 +567,15 @@ function InsightsContent() {
                   {" · "}
                   <span className="text-muted">{confidence.reasoning}</span>
                 </p>
+                {isPartial && (
+                  <p className="mt-3 rounded-lg px-3 py-2 text-sm bg-amber-500/20 text-amber-700 dark:text-amber-300">
+                    Partial result: the AI output for{" "}
+                    {(latestAnalysis.issues ?? []).map((i) => PIPELINE_STEP_LABELS[i.step]).join(", ") ||
+                      "one step"}{" "}
+                    could not be validated, so some findings may be missing. Review the
+                    transcript before relying on this summary.
+                  </p>
+                )}
                 {keyDrivers.length > 0 && (
                   <ul className="mt-4 space-y-1.5">
                     <span className="text-sm font-medium text-muted uppercase tracking-wider">
@@ -440,14 +601,7 @@ function InsightsContent() {
               Recommended Next Steps
             </h2>
             <Card className="border-l-4 border-l-primary rounded-xl overflow-hidden transition-all duration-200 hover:shadow-lg">
-              <ul className="space-y-3">
-                {suggestedActions.map((action, i) => (
-                  <li key={i} className="flex gap-3 items-center">
-                    <span className="text-primary shrink-0 inline-flex items-center text-sm" aria-hidden>→</span>
-                    <span className="text-sm text-foreground leading-relaxed">{action}</span>
-                  </li>
-                ))}
-              </ul>
+              <EscalationActionList actions={escalationActions} rulesError={escalationRulesError} />
             </Card>
           </section>
         )}
@@ -619,9 +773,11 @@ function InsightsContent() {
                   structuredData?.key_observations ?? []
                 );
                 const isExpanded = expandedRisks.has(i);
+                const evidence = validSpans(cleanedTranscript, flag.evidence);
                 return (
                   <div
                     key={i}
+                    id={`risk-${i}`}
                     className="rounded-xl border border-border bg-card overflow-hidden transition-all duration-200 hover:shadow-md"
                   >
                     <button
@@ -661,7 +817,26 @@ function InsightsContent() {
                         <p className="text-sm text-muted leading-relaxed mt-3">
                           {flag.reason}
                         </p>
-                        {signals.length > 0 && (
+                        {evidence.length > 0 ? (
+                          <div className="mt-3">
+                            <p className="text-xs font-medium text-muted uppercase tracking-wider mb-2">
+                              From the transcript
+                            </p>
+                            <ul className="space-y-1.5">
+                              {evidence.map((span) => (
+                                <li key={span.start}>
+                                  <button
+                                    type="button"
+                                    onClick={() => showEvidence([span])}
+                                    className="text-left text-sm text-foreground border-l-2 border-primary/40 pl-3 hover:border-primary hover:text-primary transition-colors"
+                                  >
+                                    “{cleanedTranscript.slice(span.start, span.end)}”
+                                  </button>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : signals.length > 0 && (
                           <p className="mt-2 text-sm text-muted/90 italic">
                             Contributing factors:{" "}
                             {signals
@@ -702,6 +877,76 @@ function InsightsContent() {
               </Card>
             ) : null}
 
+            {recordedVitals.length > 0 ? (
+              <Card className="rounded-xl transition-all duration-200 hover:shadow-md">
+                <h3 className="text-sm font-medium text-muted uppercase tracking-wider mb-3">
+                  Vitals
+                </h3>
+                <dl className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {recordedVitals.map((key) => {
+                    const alert = vitalAlerts.find((a) => a.vital === key);
+                    return (
+                      <div key={key} className="rounded-lg bg-muted-bg/40 px-3 py-2">
+                        <dt className="text-xs text-muted">{VITAL_LABELS[key]}</dt>
+                        <dd
+                          className={`text-sm font-semibold tabular-nums ${
+                            alert?.severity === "high"
+                              ? "text-red-600 dark:text-red-400"
+                              : alert
+                                ? "text-amber-600 dark:text-amber-400"
+                                : "text-foreground"
+                          }`}
+                        >
+                          {formatVital(key, vitals)}
+                          {alert && (
+                            <span className="ml-1 text-xs font-medium">
+                              {alert.status === "high" ? "↑" : "↓"}
+                            </span>
+                          )}
+                        </dd>
+                      </div>
+                    );
+                  })}
+                </dl>
+              </Card>
+            ) : null}
+
+            {medicationReconciliation ? (
+              <Card className="rounded-xl transition-all duration-200 hover:shadow-md">
+                <h3 className="text-sm font-medium text-muted uppercase tracking-wider mb-3">
+                  Medication reconciliation
+                </h3>
+                {medicationReconciliation.findings.length === 0 ? (
+                  <p className="text-sm text-foreground">
+                    <span className="text-success">✓</span> Medication notes match the
+                    patient&apos;s medication list.
+                  </p>
+                ) : (
+                  <ul className="space-y-2">
+                    {medicationReconciliation.findings.map((f, i) => (
+                      <li key={i} className="flex gap-2 text-sm text-foreground">
+                        <span
+                          className={`text-xs font-semibold px-2 py-0.5 rounded-md shrink-0 self-start ${
+                            f.severity === "high"
+                              ? "bg-red-500/20 text-red-700 dark:text-red-300"
+                              : f.severity === "medium"
+                                ? "bg-amber-500/20 text-amber-700 dark:text-amber-300"
+                                : "bg-muted-bg text-muted"
+                          }`}
+                        >
+                          {MEDICATION_FINDING_LABELS[f.type]}
+                        </span>
+                        <span>
+                          <span className="font-medium">{f.medication}</span>
+                          {f.detail ? ` — ${f.detail}` : ""}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Card>
+            ) : null}
+
             {structuredData?.key_observations?.length ? (
               <Card className="rounded-xl transition-all duration-200 hover:shadow-md">
                 <h3 className="text-sm font-medium text-muted uppercase tracking-wider mb-3">
@@ -711,7 +956,23 @@ function InsightsContent() {
                   {structuredData.key_observations.map((obs, i) => (
                     <li key={i} className="flex gap-2 text-sm text-foreground">
                       <span className="text-muted shrink-0">•</span>
-                      <span>{obs}</span>
+                      {renderEvidenceItem("key_observations", i, obs)}
+                    </li>
+                  ))}
+                </ul>
+              </Card>
+            ) : null}
+
+            {structuredData?.patient_reported?.length ? (
+              <Card className="rounded-xl transition-all duration-200 hover:shadow-md">
+                <h3 className="text-sm font-medium text-muted uppercase tracking-wider mb-3">
+                  Patient-reported
+                </h3>
+                <ul className="space-y-2">
+                  {structuredData.patient_reported.map((item, i) => (
+                    <li key={i} className="flex gap-2 text-sm text-foreground">
+                      <span className="text-muted shrink-0">“</span>
+                      {renderEvidenceItem("patient_reported", i, item)}
                     </li>
                   ))}
                 </ul>
@@ -727,7 +988,7 @@ function InsightsContent() {
                   {structuredData.activities_completed.map((act, i) => (
                     <li key={i} className="flex items-center gap-2 text-sm text-foreground">
                       <span className="text-success">✓</span>
-                      <span>{act}</span>
+                      {renderEvidenceItem("activities_completed", i, act)}
                     </li>
                   ))}
                 </ul>
@@ -743,7 +1004,7 @@ function InsightsContent() {
                   {structuredData.concerns.map((c, i) => (
                     <li key={i} className="flex gap-2 text-sm text-foreground">
                       <span className="text-amber-600 dark:text-amber-400 shrink-0">•</span>
-                      <span>{c}</span>
+                      {renderEvidenceItem("concerns", i, c)}
                     </li>
                   ))}
                 </ul>
@@ -767,7 +1028,7 @@ function InsightsContent() {
             ) : null}
 
             {/* Collapsible transcript */}
-            <details className="group">
+            <details ref={transcriptRef} className="group">
               <summary className="cursor-pointer text-sm font-medium text-muted hover:text-foreground list-none flex items-center justify-between min-h-[44px] py-2 rounded-xl hover:bg-muted-bg/50 px-3 transition-colors">
                 <span>Visit transcript</span>
                 <span className="text-sm">View / Copy</span>
@@ -785,9 +1046,22 @@ function InsightsContent() {
                 </div>
                 <div className="max-h-[300px] overflow-y-auto">
                   <p className="text-sm text-muted leading-relaxed whitespace-pre-wrap break-words">
-                    <TranscriptWithHighlights text={cleanedTranscript} />
+                    <TranscriptWithHighlights
+                      text={cleanedTranscript}
+                      riskFlags={riskFlags}
+                      focused={focusedEvidence}
+                      onSelectRisk={selectRisk}
+                    />
                   </p>
                 </div>
+                {latestAnalysis.provenance && (
+                  <p className="mt-3 pt-3 border-t border-border text-xs text-muted">
+                    Analyzed with {latestAnalysis.provenance.model} · prompts{" "}
+                    {Object.entries(latestAnalysis.provenance.prompts)
+                      .map(([name, version]) => `${name} ${version}`)
+                      .join(", ")}
+                  </p>
+                )}
               </Card>
             </details>
           </div>
@@ -799,7 +1073,7 @@ function InsightsContent() {
             Share or Export
           </h2>
           <p className="text-sm text-muted mb-4">
-            Formatted for clinical documentation.
+            Formatted for clinical documentation, or as a FHIR R4 bundle for EMR import.
           </p>
           <div className="flex flex-col sm:flex-row gap-3">
             <Button
@@ -817,6 +1091,27 @@ function InsightsContent() {
             >
               Export Summary
             </Button>
+            {visitSaved ? (
+              <Button
+                size="md"
+                variant="outline"
+                href={`/api/patients/${encodeURIComponent(activePatient.id)}/analyses/${latestAnalysis.timestamp}/fhir`}
+                download
+                className="w-full sm:w-auto min-h-[44px]"
+              >
+                Download FHIR
+              </Button>
+            ) : (
+              <Button
+                size="md"
+                variant="outline"
+                disabled
+                title="Available once the visit is saved"
+                className="w-full sm:w-auto min-h-[44px]"
+              >
+                Download FHIR
+              </Button>
+            )}
             {copied && (
               <span className="text-sm text-success self-center">Copied to clipboard</span>
             )}
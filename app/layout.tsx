@@ -1,6 +1,6 @@
 import type { Metadata } from "next";
 import localFont from "next/font/local";
-import { Navbar, PatientContextBar, Providers } from "@/components";
+import { Navbar, PatientContextBar, Providers, SaveStatus } from "@/components";
 import "./globals.css";
 
 const geistSans = localFont({
@@ -39,6 +39,7 @@ export default function RootLayout({
         <Providers>
           <Navbar />
           <PatientContextBar />
+          <SaveStatus />
           <main className="min-h-screen min-w-0 pt-4 md:pt-6">{children}</main>
         </Providers>
       </body>
@@ -1,8 +1,17 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import { PageContainer, Card, Button } from "@/components";
+import {
+  PageContainer,
+  Card,
+  Button,
+  MedicationList,
+  PatientDetailsForm,
+  RiskTrendSeries,
+  VitalsTrend,
+} from "@/components";
 import { usePatientStore } from "@/lib/patient-store";
 import type { RiskFlag } from "@/types/patient";
 import {
@@ -11,6 +20,9 @@ import {
   getTrendLabels,
   getHighestRiskSeverity,
 } from "@/lib/insights-utils";
+import { computeRiskSeries, DEFAULT_TREND_WINDOW } from "@/lib/trend-engine";
+
+const TREND_WINDOW_OPTIONS = [3, DEFAULT_TREND_WINDOW, 10];
 
 function formatDate(ts: number): { date: string; time: string } {
   const d = new Date(ts);
@@ -35,9 +47,44 @@ export default function PatientProfilePage() {
   const params = useParams();
   const router = useRouter();
   const id = params.id as string;
-  const { patients, setActivePatient } = usePatientStore();
+  const {
+    patients,
+    setActivePatient,
+    setPatientMedications,
+    updatePatientDetails,
+    hydrated,
+    loadError,
+    reloadPatients,
+  } = usePatientStore();
 
   const patient = patients.find((p) => p.id === id);
+  const [trendWindow, setTrendWindow] = useState(DEFAULT_TREND_WINDOW);
+  const riskSeries = useMemo(
+    () => computeRiskSeries(patient?.analyses ?? [], { window: trendWindow }),
+    [patient?.analyses, trendWindow]
+  );
+
+  if (!patient && !hydrated) {
+    return (
+      <PageContainer>
+        <div className="animate-pulse py-16 text-center text-muted">Loading care history…</div>
+      </PageContainer>
+    );
+  }
+
+  if (!patient && loadError) {
+    return (
+      <PageContainer>
+        <div className="text-center py-16">
+          <h1 className="text-2xl font-bold">Care history could not be loaded</h1>
+          <p className="text-muted mt-2">{loadError}</p>
+          <Button onClick={reloadPatients} className="mt-4">
+            Retry
+          </Button>
+        </div>
+      </PageContainer>
+    );
+  }
 
   if (!patient) {
     return (
@@ -45,7 +92,7 @@ export default function PatientProfilePage() {
         <div className="text-center py-16">
           <h1 className="text-2xl font-bold">Patient not found</h1>
           <p className="text-muted mt-2">
-            Session may have been cleared. Add the patient again to continue.
+            This patient may have been removed. Select another patient to continue.
           </p>
           <Button href="/record" className="mt-4">
             Record Visit
@@ -85,6 +132,74 @@ export default function PatientProfilePage() {
           </div>
         </div>
 
+        {/* Payer and acuity */}
+        <section>
+          <h2 className="text-xs uppercase tracking-wider text-muted font-medium mb-4">
+            Care program
+          </h2>
+          <Card>
+            <PatientDetailsForm
+              details={{ payer: patient.payer, acuity: patient.acuity }}
+              onSave={(details) => updatePatientDetails(patient.id, details)}
+            />
+          </Card>
+        </section>
+
+        {/* Medication list */}
+        <section>
+          <h2 className="text-xs uppercase tracking-wider text-muted font-medium mb-4">
+            Medications
+          </h2>
+          <Card>
+            <MedicationList
+              medications={patient.medications ?? []}
+              onChange={(meds) => setPatientMedications(patient.id, meds)}
+            />
+          </Card>
+        </section>
+
+        {/* Risk patterns across visits */}
+        {patient.analyses.length >= 2 && (
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h2 className="text-xs uppercase tracking-wider text-muted font-medium">
+                Risk patterns
+              </h2>
+              <div className="flex gap-1 p-0.5 rounded-lg bg-muted-bg/50 border border-border">
+                {TREND_WINDOW_OPTIONS.map((n) => (
+                  <button
+                    key={n}
+                    type="button"
+                    onClick={() => setTrendWindow(n)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                      n === trendWindow
+                        ? "bg-primary text-white shadow-sm"
+                        : "text-muted hover:text-foreground"
+                    }`}
+                  >
+                    Last {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <Card>
+              <RiskTrendSeries series={riskSeries} />
+            </Card>
+          </section>
+        )}
+
+        {/* Vitals across visits */}
+        {patient.analyses.some((a) => Object.keys(a.structuredData?.vitals ?? {}).length > 0) && (
+          <section>
+            <h2 className="text-xs uppercase tracking-wider text-muted font-medium mb-4">
+              Vitals
+            </h2>
+            <Card>
+              <VitalsTrend analyses={patient.analyses} />
+            </Card>
+          </section>
+        )}
+
         {/* Care timeline */}
         <section>
           <h2 className="text-xs uppercase tracking-wider text-muted font-medium mb-4">
@@ -2,24 +2,132 @@
 
 import { useState, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { PageContainer, Card, VoiceRecorder, Button } from "@/components";
+import {
+  PageContainer,
+  Card,
+  VoiceRecorder,
+  Button,
+  AnalysisProgress,
+  createAnalysisProgress,
+  QueuedVisitList,
+  type AnalysisProgressState,
+} from "@/components";
 import { usePatientStore } from "@/lib/patient-store";
+import { isOnline, NetworkError, sendRequest, transcribeRecording } from "@/lib/visit-queue";
+import { useVisitQueue, type QueuedVisitInput } from "@/lib/visit-queue-store";
+import { readServerSentEvents, StreamReadError, type ServerSentEvent } from "@/lib/sse";
 import { cn } from "@/lib/utils";
+import type {
+  PipelineCheckpoint,
+  PipelineEvent,
+  PipelineResult,
+  PipelineStep,
+} from "@/lib/ai/pipeline";
+import type { TranscriptSegment } from "@/types/patient";
 
-type AnalyzeStatus = "idle" | "transcribing" | "analyzing" | "error";
+type AnalyzeStatus = "idle" | "transcribing" | "analyzing" | "queued" | "error";
 type InputMode = "voice" | "paste";
 
 const DEMO_TRANSCRIPT = `Patient was alert and oriented. Took morning medications at 9am without issues. Blood pressure was 128 over 82. Ate about 80% of breakfast. Noted mild fatigue but no dizziness. Mobility stable using walker. No falls reported.`;
 
+/** Payload of the stream's `error` event */
+interface StreamError {
+  message?: string;
+  step?: PipelineStep;
+  checkpoint?: PipelineCheckpoint;
+}
+
+/** Applies one /api/analyze/stream event to the progress state */
+function applyStreamEvent(
+  progress: AnalysisProgressState,
+  { event, data }: ServerSentEvent
+): AnalysisProgressState {
+  if (event === "token") {
+    const { step, delta } = data as { step: PipelineStep; delta: string };
+    return {
+      ...progress,
+      retry: undefined,
+      tokens: progress.tokens + 1,
+      transcript: step === "clean" ? progress.transcript + delta : progress.transcript,
+    };
+  }
+  if (event !== "step") return progress;
+
+  const e = data as Exclude<PipelineEvent, { type: "token" }>;
+  if (e.type === "step_started") {
+    return { ...progress, tokens: 0, steps: { ...progress.steps, [e.step]: "running" } };
+  }
+  if (e.type === "step_retry") {
+    // Output streamed by the failed attempt is discarded
+    return {
+      ...progress,
+      tokens: 0,
+      transcript: e.step === "clean" ? "" : progress.transcript,
+      retry: { attempt: e.attempt, delayMs: e.delayMs },
+    };
+  }
+  return {
+    ...progress,
+    retry: undefined,
+    steps: { ...progress.steps, [e.step]: "done" },
+    transcript: e.data.cleanedTranscript ?? progress.transcript,
+    summary: e.data.structuredData?.visit_summary || progress.summary,
+    riskCount: e.data.risks ? e.data.risks.risk_flags.length : progress.riskCount,
+  };
+}
+
 export default function RecordPage() {
   const router = useRouter();
   const { activePatient, addAnalysisToActivePatient } = usePatientStore();
+  const { enqueueVisit } = useVisitQueue();
   const [transcript, setTranscript] = useState("");
+  // Speaker turns of the last transcribed recording, saved with the analysis
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
   const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
   const [status, setStatus] = useState<AnalyzeStatus>("idle");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [inputMode, setInputMode] = useState<InputMode>("voice");
+  const [progress, setProgress] = useState<AnalysisProgressState | null>(null);
+  // Completed steps of a failed run; sent back so a retry skips them
+  const [checkpoint, setCheckpoint] = useState<PipelineCheckpoint | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // When the current recording was made; kept as the visit time if it is queued
+  const recordedAtRef = useRef<number | null>(null);
+  // Whether the transcript was transcribed from that recording
+  const fromRecordingRef = useRef(false);
+  // Remounts the recorder once its recording has been queued
+  const [recorderKey, setRecorderKey] = useState(0);
+
+  /** Keeps the visit on this device; it is analyzed once back online */
+  const queueVisit = async (
+    visit: Pick<QueuedVisitInput, "audio" | "transcript" | "segments">
+  ) => {
+    if (!activePatient) return;
+    const saved = await enqueueVisit({
+      patientId: activePatient.id,
+      patientName: activePatient.name,
+      recordedAt:
+        ((visit.audio || fromRecordingRef.current) && recordedAtRef.current) || Date.now(),
+      ...visit,
+    });
+    if (!saved) {
+      setStatus("error");
+      setErrorMessage(
+        "You appear to be offline, and this visit could not be saved on this device. Try again once you are back online."
+      );
+      return;
+    }
+    setStatus("queued");
+    setErrorMessage(null);
+    setProgress(null);
+    setCheckpoint(null);
+    setTranscript("");
+    setSegments([]);
+    setRecordingBlob(null);
+    recordedAtRef.current = null;
+    fromRecordingRef.current = false;
+    setRecorderKey((k) => k + 1);
+  };
 
   const handleAnalyze = async () => {
     if (!activePatient) {
@@ -29,32 +137,33 @@ export default function RecordPage() {
     }
 
     let textToAnalyze = transcript.trim();
+    let segmentsToSend = segments;
 
     if (!textToAnalyze && recordingBlob) {
+      if (!isOnline()) {
+        await queueVisit({ audio: recordingBlob });
+        return;
+      }
+
       setStatus("transcribing");
       setErrorMessage(null);
 
       try {
-        const formData = new FormData();
-        formData.append("audio", recordingBlob, "recording.webm");
-
-        const transcribeRes = await fetch("/api/transcribe", {
-          method: "POST",
-          body: formData,
-        });
-
-        const transcribeData = await transcribeRes.json();
-        if (!transcribeRes.ok) {
-          throw new Error(transcribeData?.message ?? "Transcription failed");
-        }
-
-        textToAnalyze = (transcribeData.text ?? "").trim();
+        const transcribed = await transcribeRecording(recordingBlob);
+        textToAnalyze = transcribed.text;
+        segmentsToSend = transcribed.segments;
         setTranscript(textToAnalyze);
+        setSegments(segmentsToSend);
+        fromRecordingRef.current = true;
 
         if (!textToAnalyze) {
           throw new Error("No speech detected in recording.");
         }
       } catch (err) {
+        if (err instanceof NetworkError) {
+          await queueVisit({ audio: recordingBlob });
+          return;
+        }
         setStatus("error");
         setErrorMessage(
           err instanceof Error ? err.message : "Transcription failed"
@@ -71,22 +180,63 @@ export default function RecordPage() {
       return;
     }
 
+    if (!isOnline()) {
+      await queueVisit({ transcript: textToAnalyze, segments: segmentsToSend });
+      return;
+    }
+
     setStatus("analyzing");
     setErrorMessage(null);
+    setProgress(createAnalysisProgress());
 
     try {
-      const res = await fetch("/api/analyze", {
+      const res = await sendRequest("/api/analyze/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ transcript: textToAnalyze }),
+        body: JSON.stringify({
+          transcript: textToAnalyze,
+          medications: activePatient?.medications ?? [],
+          patientName: activePatient?.name,
+          // Ignored by the server if the transcript has changed since
+          ...(checkpoint ? { resume: checkpoint } : {}),
+          ...(segmentsToSend.length > 0 ? { segments: segmentsToSend } : {}),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        if (data?.checkpoint) setCheckpoint(data.checkpoint);
+        throw new Error(data?.message ?? "Analysis failed");
+      }
+
+      const outcome: { result?: PipelineResult; error?: StreamError } = {};
+
+      await readServerSentEvents(res, (event) => {
+        if (event.event === "result") outcome.result = event.data as PipelineResult;
+        else if (event.event === "error") outcome.error = event.data as StreamError;
+        else setProgress((p) => (p ? applyStreamEvent(p, event) : p));
       });
 
-      const data = await res.json();
-      if (!res.ok) throw new Error(data?.message ?? "Analysis failed");
+      const { result } = outcome;
+      if (outcome.error) {
+        const { message, step, checkpoint: failed } = outcome.error;
+        if (failed) setCheckpoint(failed);
+        if (step) {
+          setProgress((p) => (p ? { ...p, steps: { ...p.steps, [step]: "failed" } } : p));
+        }
+        throw new Error(message ?? "Analysis failed");
+      }
+      if (!result) throw new Error("Analysis ended before a result was received.");
 
-      addAnalysisToActivePatient(data);
+      setCheckpoint(null);
+      addAnalysisToActivePatient(result);
       router.push("/insights");
     } catch (err) {
+      // Only a lost connection is queued; anything else is shown as an error
+      if (err instanceof NetworkError || err instanceof StreamReadError) {
+        await queueVisit({ transcript: textToAnalyze, segments: segmentsToSend });
+        return;
+      }
       setStatus("error");
       setErrorMessage(
         err instanceof Error ? err.message : "Unexpected error occurred"
@@ -94,6 +244,13 @@ export default function RecordPage() {
     }
   };
 
+  const progressSteps: PipelineStep[] = [
+    "clean",
+    "structure",
+    "analyze",
+    ...((activePatient?.medications?.length ?? 0) > 0 ? (["reconcile"] as const) : []),
+  ];
+
   const isLoading = status === "transcribing" || status === "analyzing";
   const loadingMessage =
     status === "transcribing"
@@ -102,6 +259,8 @@ export default function RecordPage() {
 
   const handleTryDemo = () => {
     setTranscript(DEMO_TRANSCRIPT);
+    setSegments([]);
+    fromRecordingRef.current = false;
     setInputMode("paste");
     setTimeout(() => {
       textareaRef.current?.focus();
@@ -144,6 +303,9 @@ export default function RecordPage() {
         {isLoading && (
           <Card className="bg-primary/5 border-primary/20 rounded-xl transition-opacity duration-200 shadow-[0_0_0_1px_rgba(99,102,241,0.15)]">
             <p className="text-sm text-primary">🤖 {loadingMessage}</p>
+            {status === "analyzing" && progress && (
+              <AnalysisProgress progress={progress} steps={progressSteps} className="mt-4" />
+            )}
           </Card>
         )}
 
@@ -211,8 +373,12 @@ export default function RecordPage() {
                   </h3>
                   <div className="flex-1 flex flex-col justify-center">
                     <VoiceRecorder
-                      onRecordingComplete={(blob) => {
+                      key={recorderKey}
+                      onRecordingComplete={(blob, _duration, startedAt) => {
                         setRecordingBlob(blob);
+                        setSegments([]);
+                        recordedAtRef.current = startedAt;
+                        fromRecordingRef.current = false;
                       }}
                     />
                   </div>
@@ -255,7 +421,13 @@ export default function RecordPage() {
                   <textarea
                     ref={textareaRef}
                     value={transcript}
-                    onChange={(e) => setTranscript(e.target.value)}
+                    onChange={(e) => {
+                      setTranscript(e.target.value);
+                      if (!e.target.value.trim()) {
+                        setSegments([]);
+                        fromRecordingRef.current = false;
+                      }
+                    }}
                     placeholder="Type or paste caregiver notes..."
                     rows={6}
                     className={cn(
@@ -304,6 +476,8 @@ export default function RecordPage() {
                   />
                   {loadingMessage}
                 </span>
+              ) : checkpoint?.cleanedTranscript !== undefined ? (
+                "Resume analysis"
               ) : (
                 "Analyze with CareGiver AI"
               )}
@@ -314,12 +488,29 @@ export default function RecordPage() {
           </div>
         )}
 
+        {/* Queued offline */}
+        {status === "queued" && (
+          <Card className="border-success/30 bg-success/5 rounded-xl">
+            <p className="text-sm text-foreground">
+              You&apos;re offline, so this visit was saved on this device. It will be
+              transcribed and analyzed automatically when you&apos;re back online.
+            </p>
+          </Card>
+        )}
+
+        {activePatient && <QueuedVisitList />}
+
         {/* Error */}
         {status === "error" && errorMessage && (
           <Card className="border-red-500/40 bg-red-500/5 rounded-xl">
             <p className="text-sm text-red-600 dark:text-red-400">
               {errorMessage}
             </p>
+            {checkpoint?.cleanedTranscript !== undefined && (
+              <p className="text-sm text-muted mt-2">
+                Your notes are safe. Analyze again to continue from the last completed step.
+              </p>
+            )}
           </Card>
         )}
 
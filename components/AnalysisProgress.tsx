@@ -0,0 +1,122 @@
+"use client";
+
+import type { PipelineStep } from "@/lib/ai/pipeline";
+import { cn } from "@/lib/utils";
+
+export type StepStatus = "pending" | "running" | "done" | "failed";
+
+export interface AnalysisProgressState {
+  steps: Record<PipelineStep, StepStatus>;
+  /** Tokens received for the running step */
+  tokens: number;
+  /** Cleaned transcript as it streams in, then the final text */
+  transcript: string;
+  /** Visit summary once structuring finishes */
+  summary?: string;
+  /** Risk count once analysis finishes */
+  riskCount?: number;
+  /** Set while the running step waits to retry a failed call */
+  retry?: { attempt: number; delayMs: number };
+}
+
+export function createAnalysisProgress(): AnalysisProgressState {
+  return {
+    steps: { clean: "pending", structure: "pending", analyze: "pending", reconcile: "pending" },
+    tokens: 0,
+    transcript: "",
+  };
+}
+
+const STEP_LABELS: Record<PipelineStep, string> = {
+  clean: "Cleaning transcript",
+  structure: "Structuring notes",
+  analyze: "Analyzing risks",
+  reconcile: "Reconciling medications",
+};
+
+function StepIcon({ status }: { status: StepStatus }) {
+  if (status === "done") return <span className="text-success">✓</span>;
+  if (status === "failed") return <span className="text-red-600 dark:text-red-400">✕</span>;
+  if (status === "running") {
+    return (
+      <span
+        className="inline-block w-3.5 h-3.5 border-2 border-primary/30 border-t-primary rounded-full animate-spin"
+        aria-hidden
+      />
+    );
+  }
+  return <span className="inline-block w-2 h-2 rounded-full bg-border" aria-hidden />;
+}
+
+interface AnalysisProgressProps {
+  progress: AnalysisProgressState;
+  /** Steps to list, in order */
+  steps: PipelineStep[];
+  className?: string;
+}
+
+/** Per-step pipeline progress with the cleaned transcript shown as it streams */
+export function AnalysisProgress({ progress, steps, className }: AnalysisProgressProps) {
+  return (
+    <div className={cn("space-y-4", className)} aria-live="polite">
+      <ol className="space-y-2">
+        {steps.map((step) => {
+          const status = progress.steps[step];
+          return (
+            <li key={step} className="flex items-center gap-3 text-sm">
+              <span className="w-4 flex justify-center shrink-0">
+                <StepIcon status={status} />
+              </span>
+              <span
+                className={cn(
+                  status === "pending" ? "text-muted" : "text-foreground",
+                  status === "running" && "font-medium"
+                )}
+              >
+                {STEP_LABELS[step]}
+              </span>
+              {status === "running" && progress.retry && (
+                <span className="text-xs text-amber-700 dark:text-amber-300">
+                  Connection issue — retrying in {Math.ceil(progress.retry.delayMs / 1000)}s
+                  (attempt {progress.retry.attempt + 1})
+                </span>
+              )}
+              {status === "running" && !progress.retry && progress.tokens > 0 && (
+                <span className="text-xs text-muted tabular-nums">
+                  {progress.tokens} tokens
+                </span>
+              )}
+              {step === "analyze" && status === "done" && progress.riskCount !== undefined && (
+                <span className="text-xs text-muted">
+                  {progress.riskCount === 0
+                    ? "No risk signals"
+                    : `${progress.riskCount} risk signal${progress.riskCount === 1 ? "" : "s"}`}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {progress.transcript && (
+        <div className="rounded-lg border border-border/60 bg-muted-bg/20 px-4 py-3">
+          <p className="text-xs font-medium text-muted uppercase tracking-wider mb-2">
+            Cleaned transcript
+          </p>
+          <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap break-words max-h-48 overflow-y-auto">
+            {progress.transcript}
+          </p>
+        </div>
+      )}
+
+      {progress.summary && (
+        <div className="rounded-lg border border-border/60 bg-muted-bg/20 px-4 py-3">
+          <p className="text-xs font-medium text-muted uppercase tracking-wider mb-2">
+            Visit summary
+          </p>
+          <p className="text-sm text-foreground">{progress.summary}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import {
+  RECIPIENT_LABELS,
+  URGENCY_LABELS,
+  type EscalationAction,
+  type EscalationUrgency,
+} from "@/lib/escalation-rules";
+
+const URGENCY_STYLES: Record<EscalationUrgency, string> = {
+  immediate: "bg-red-500/20 text-red-700 dark:text-red-300",
+  today: "bg-amber-500/20 text-amber-700 dark:text-amber-300",
+  within_24h: "bg-amber-500/20 text-amber-700 dark:text-amber-300",
+  next_visit: "bg-primary/15 text-primary",
+  routine: "bg-muted-bg text-muted",
+};
+
+interface EscalationActionListProps {
+  actions: EscalationAction[];
+  /** Set when the agency rules failed to load and defaults were used */
+  rulesError?: string | null;
+}
+
+/** Recommended actions from the escalation rules, with urgency and recipient */
+export function EscalationActionList({ actions, rulesError }: EscalationActionListProps) {
+  return (
+    <>
+      <ul className="space-y-3">
+        {actions.map((action) => (
+          <li key={action.ruleId} className="flex gap-3 items-start">
+            <span className="text-primary shrink-0 inline-flex items-center text-sm mt-0.5" aria-hidden>
+              →
+            </span>
+            <div className="min-w-0">
+              <span className="text-sm text-foreground leading-relaxed">{action.text}</span>
+              <div className="flex flex-wrap gap-1.5 mt-1">
+                <span
+                  className={`text-xs font-medium px-2 py-0.5 rounded-full ${URGENCY_STYLES[action.urgency]}`}
+                >
+                  {URGENCY_LABELS[action.urgency]}
+                </span>
+                <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-muted-bg text-muted">
+                  {RECIPIENT_LABELS[action.recipient]}
+                </span>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {rulesError && (
+        <p className="text-xs text-amber-700 dark:text-amber-300 mt-3">
+          Agency escalation rules could not be loaded; showing default recommendations.
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import type { Medication } from "@/types/patient";
+import { createMedicationId, formatMedication } from "@/lib/medications";
+import { cn } from "@/lib/utils";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-border px-3 py-2 text-sm bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-2 focus:ring-primary";
+
+interface MedicationListProps {
+  medications: Medication[];
+  onChange: (medications: Medication[]) => void;
+  className?: string;
+}
+
+/** Editable medication list used to reconcile medication notes on each visit */
+export function MedicationList({ medications, onChange, className }: MedicationListProps) {
+  const [name, setName] = useState("");
+  const [dose, setDose] = useState("");
+  const [schedule, setSchedule] = useState("");
+
+  const handleAdd = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onChange([
+      ...medications,
+      {
+        id: createMedicationId(),
+        name: trimmed,
+        ...(dose.trim() ? { dose: dose.trim() } : {}),
+        ...(schedule.trim() ? { schedule: schedule.trim() } : {}),
+      },
+    ]);
+    setName("");
+    setDose("");
+    setSchedule("");
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {medications.length === 0 ? (
+        <p className="text-sm text-muted italic">
+          No medications listed. Add the patient&apos;s medications to check each visit for missed
+          doses and discrepancies.
+        </p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {medications.map((med) => (
+            <li key={med.id} className="flex items-center justify-between gap-3 py-2">
+              <span className="text-sm text-foreground min-w-0">{formatMedication(med)}</span>
+              <button
+                type="button"
+                onClick={() => onChange(medications.filter((m) => m.id !== med.id))}
+                className="text-xs font-medium text-muted hover:text-red-600 dark:hover:text-red-400 shrink-0"
+                aria-label={`Remove ${med.name}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="grid gap-2 sm:grid-cols-[2fr_1fr_1fr_auto]"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAdd();
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Medication, e.g. Metformin"
+          aria-label="Medication name"
+          className={INPUT_CLASS}
+        />
+        <input
+          type="text"
+          value={dose}
+          onChange={(e) => setDose(e.target.value)}
+          placeholder="Dose, e.g. 500 mg"
+          aria-label="Dose"
+          className={INPUT_CLASS}
+        />
+        <input
+          type="text"
+          value={schedule}
+          onChange={(e) => setSchedule(e.target.value)}
+          placeholder="Schedule, e.g. twice daily"
+          aria-label="Schedule"
+          className={INPUT_CLASS}
+        />
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -23,7 +23,7 @@ function formatLastVisit(ts: number): string {
 
 export function PatientContextBar() {
   const pathname = usePathname();
-  const { activePatient } = usePatientStore();
+  const { activePatient, loadError } = usePatientStore();
 
   const showContextBar = PATIENT_ROUTES.some((route) =>
     pathname === route || pathname.startsWith("/patients/")
@@ -51,7 +51,9 @@ export function PatientContextBar() {
                 )}
               </>
             ) : (
-              <span className="text-muted text-sm">No patient selected</span>
+              <span className="text-muted text-sm">
+                {loadError ? "Patients could not be loaded" : "No patient selected"}
+              </span>
             )}
           </div>
           <div className="shrink-0 w-full sm:w-auto">
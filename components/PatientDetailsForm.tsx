@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PatientAcuity, PatientDetails } from "@/types/patient";
+import { cn } from "@/lib/utils";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-border px-3 py-2 text-sm bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-2 focus:ring-primary";
+
+interface PatientDetailsFormProps {
+  details: PatientDetails;
+  onSave: (details: PatientDetails) => void;
+  className?: string;
+}
+
+/** Payer and acuity, which select the patient's escalation protocols */
+export function PatientDetailsForm({ details, onSave, className }: PatientDetailsFormProps) {
+  const [payer, setPayer] = useState(details.payer ?? "");
+  const [acuity, setAcuity] = useState<PatientAcuity | "">(details.acuity ?? "");
+
+  // Follow the saved values when they change elsewhere
+  useEffect(() => {
+    setPayer(details.payer ?? "");
+    setAcuity(details.acuity ?? "");
+  }, [details.payer, details.acuity]);
+
+  const dirty = payer.trim() !== (details.payer ?? "") || acuity !== (details.acuity ?? "");
+
+  return (
+    <form
+      className={cn("grid gap-2 sm:grid-cols-[2fr_1fr_auto] sm:items-end", className)}
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (dirty) onSave({ payer, ...(acuity ? { acuity } : {}) });
+      }}
+    >
+      <label className="text-xs font-medium text-muted">
+        Payer
+        <input
+          type="text"
+          value={payer}
+          onChange={(e) => setPayer(e.target.value)}
+          placeholder="e.g. medicare"
+          className={cn(INPUT_CLASS, "mt-1")}
+        />
+      </label>
+      <label className="text-xs font-medium text-muted">
+        Acuity
+        <select
+          value={acuity}
+          onChange={(e) => setAcuity(e.target.value as PatientAcuity | "")}
+          className={cn(INPUT_CLASS, "mt-1")}
+        >
+          <option value="">Not set</option>
+          <option value="low">Low</option>
+          <option value="moderate">Moderate</option>
+          <option value="high">High</option>
+        </select>
+      </label>
+      <button
+        type="submit"
+        disabled={!dirty}
+        className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-white hover:bg-primary-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Save
+      </button>
+    </form>
+  );
+}
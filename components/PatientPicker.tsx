@@ -1,12 +1,16 @@
 "use client";
 
-import { useState, useRef, useEffect, useLayoutEffect } from "react";
+import { useState, useRef, useEffect, useLayoutEffect, useCallback } from "react";
 import { createPortal } from "react-dom";
 import { usePatientStore } from "@/lib/patient-store";
 import { cn } from "@/lib/utils";
+import type { PatientAcuity } from "@/types/patient";
 
 const MODAL_Z = 300;
 
+const FIELD_CLASS =
+  "w-full rounded-lg border border-border px-4 py-2.5 text-sm bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-2 focus:ring-primary";
+
 interface PatientPickerProps {
   /** When provided, overrides the default trigger label (e.g. "Switch patient") */
   triggerLabel?: string;
@@ -15,12 +19,14 @@ interface PatientPickerProps {
 }
 
 export function PatientPicker({ triggerLabel, variant = "default" }: PatientPickerProps) {
-  const { patients, activePatient, setActivePatient, addPatient } =
+  const { patients, activePatient, setActivePatient, addPatient, loadError, reloadPatients } =
     usePatientStore();
   const [open, setOpen] = useState(false);
   const [addOpen, setAddOpen] = useState(false);
   const [name, setName] = useState("");
   const [age, setAge] = useState("");
+  const [payer, setPayer] = useState("");
+  const [acuity, setAcuity] = useState<PatientAcuity | "">("");
   const triggerRef = useRef<HTMLButtonElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0 });
@@ -67,27 +73,29 @@ export function PatientPicker({ triggerLabel, variant = "default" }: PatientPick
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, [open]);
 
+  const closeAddForm = useCallback(() => {
+    setAddOpen(false);
+    setName("");
+    setAge("");
+    setPayer("");
+    setAcuity("");
+  }, []);
+
   useEffect(() => {
     if (!addOpen) return;
     const handleEsc = (e: KeyboardEvent) => {
-      if (e.key === "Escape") {
-        setAddOpen(false);
-        setName("");
-        setAge("");
-      }
+      if (e.key === "Escape") closeAddForm();
     };
     document.addEventListener("keydown", handleEsc);
     return () => document.removeEventListener("keydown", handleEsc);
-  }, [addOpen]);
+  }, [addOpen, closeAddForm]);
 
   const handleAddPatient = () => {
     const n = name.trim();
     const a = Number.parseInt(age, 10);
     if (n && !Number.isNaN(a) && a > 0 && a < 150) {
-      addPatient(n, a);
-      setName("");
-      setAge("");
-      setAddOpen(false);
+      addPatient(n, a, { payer, ...(acuity ? { acuity } : {}) });
+      closeAddForm();
     }
   };
 
@@ -153,6 +161,17 @@ export function PatientPicker({ triggerLabel, variant = "default" }: PatientPick
             }}
             onClick={(e) => e.stopPropagation()}
           >
+            {loadError && (
+              <button
+                onClick={() => {
+                  reloadPatients();
+                  setOpen(false);
+                }}
+                className="w-full text-left px-4 py-2.5 min-h-[44px] flex items-center text-sm text-red-600 dark:text-red-400 hover:bg-muted-bg"
+              >
+                Patients could not be loaded. Retry
+              </button>
+            )}
             {patients.map((p) => (
               <button
                 key={p.id}
@@ -198,11 +217,7 @@ export function PatientPicker({ triggerLabel, variant = "default" }: PatientPick
               zIndex: MODAL_Z,
               isolation: "isolate",
             }}
-            onClick={() => {
-              setAddOpen(false);
-              setName("");
-              setAge("");
-            }}
+            onClick={closeAddForm}
           >
             <div
               className="bg-card rounded-xl border border-border p-6 w-full max-w-sm shadow-2xl max-h-[calc(100vh-2rem)] overflow-y-auto"
@@ -228,7 +243,7 @@ export function PatientPicker({ triggerLabel, variant = "default" }: PatientPick
                     value={name}
                     onChange={(e) => setName(e.target.value)}
                     placeholder="e.g. John Smith"
-                    className="w-full rounded-lg border border-border px-4 py-2.5 text-sm bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-2 focus:ring-primary"
+                    className={FIELD_CLASS}
                   />
                 </div>
                 <div>
@@ -246,18 +261,49 @@ export function PatientPicker({ triggerLabel, variant = "default" }: PatientPick
                     placeholder="e.g. 78"
                     min={1}
                     max={150}
-                    className="w-full rounded-lg border border-border px-4 py-2.5 text-sm bg-background text-foreground placeholder:text-muted focus:outline-none focus:ring-2 focus:ring-primary"
+                    className={FIELD_CLASS}
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="patient-payer"
+                    className="block text-sm font-medium text-muted mb-2"
+                  >
+                    Payer <span className="font-normal">(optional)</span>
+                  </label>
+                  <input
+                    id="patient-payer"
+                    type="text"
+                    value={payer}
+                    onChange={(e) => setPayer(e.target.value)}
+                    placeholder="e.g. medicare"
+                    className={FIELD_CLASS}
                   />
                 </div>
+                <div>
+                  <label
+                    htmlFor="patient-acuity"
+                    className="block text-sm font-medium text-muted mb-2"
+                  >
+                    Acuity <span className="font-normal">(optional)</span>
+                  </label>
+                  <select
+                    id="patient-acuity"
+                    value={acuity}
+                    onChange={(e) => setAcuity(e.target.value as PatientAcuity | "")}
+                    className={FIELD_CLASS}
+                  >
+                    <option value="">Not set</option>
+                    <option value="low">Low</option>
+                    <option value="moderate">Moderate</option>
+                    <option value="high">High</option>
+                  </select>
+                </div>
               </div>
               <div className="flex gap-4 mt-6">
                 <button
                   type="button"
-                  onClick={() => {
-                    setAddOpen(false);
-                    setName("");
-                    setAge("");
-                  }}
+                  onClick={closeAddForm}
                   className="flex-1 py-2.5 rounded-lg border border-border text-sm font-medium hover:bg-muted-bg transition-colors min-h-[44px]"
                 >
                   Cancel
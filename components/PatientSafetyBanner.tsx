@@ -5,7 +5,7 @@ import { getHighestRiskSeverity } from "@/lib/insights-utils";
 
 type SeverityLevel = "high" | "medium" | "low";
 
-function getBannerConfig(riskFlags: RiskFlag[]): {
+function getBannerConfig(riskFlags: RiskFlag[], partial: boolean): {
   level: SeverityLevel;
   title: string;
   subtitle: string;
@@ -39,6 +39,17 @@ function getBannerConfig(riskFlags: RiskFlag[]): {
     };
   }
 
+  // An unvalidated analysis with no flags is not evidence of stability
+  if (partial) {
+    return {
+      level: "medium",
+      title: "Analysis incomplete — review the visit notes",
+      subtitle: "Part of the AI output could not be validated, so risks may be missing.",
+      styles:
+        "bg-amber-500/15 border-amber-500/40 text-amber-700 dark:text-amber-300 border",
+    };
+  }
+
   return {
     level: "low",
     title: "Patient currently stable",
@@ -48,8 +59,15 @@ function getBannerConfig(riskFlags: RiskFlag[]): {
   };
 }
 
-export function PatientSafetyBanner({ riskFlags }: { riskFlags: RiskFlag[] }) {
-  const config = getBannerConfig(riskFlags);
+export function PatientSafetyBanner({
+  riskFlags,
+  partial = false,
+}: {
+  riskFlags: RiskFlag[];
+  /** Latest analysis has status "partial" */
+  partial?: boolean;
+}) {
+  const config = getBannerConfig(riskFlags, partial);
   const icon =
     config.level === "high" ? "🔴" : config.level === "medium" ? "🟡" : "🟢";
 
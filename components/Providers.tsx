@@ -1,7 +1,12 @@
 "use client";
 
 import { PatientProvider } from "@/lib/patient-store";
+import { VisitQueueProvider } from "@/lib/visit-queue-store";
 
 export function Providers({ children }: { children: React.ReactNode }) {
-  return <PatientProvider>{children}</PatientProvider>;
+  return (
+    <PatientProvider>
+      <VisitQueueProvider>{children}</VisitQueueProvider>
+    </PatientProvider>
+  );
 }
@@ -0,0 +1,75 @@
+"use client";
+
+import { useVisitQueue } from "@/lib/visit-queue-store";
+import { cn } from "@/lib/utils";
+import type { QueuedVisit } from "@/lib/visit-queue";
+
+function statusOf(visit: QueuedVisit, syncing: boolean): { label: string; className: string } {
+  if (syncing) {
+    const label = visit.result ? "Saving…" : visit.transcript ? "Analyzing…" : "Transcribing…";
+    return { label, className: "text-primary" };
+  }
+  if (visit.error) {
+    return { label: `Failed: ${visit.error}`, className: "text-red-600 dark:text-red-400" };
+  }
+  return { label: "Waiting for connection", className: "text-muted" };
+}
+
+/** Visits saved offline, analyzed automatically once the device reconnects */
+export function QueuedVisitList({ className }: { className?: string }) {
+  const { visits, syncingId, removeVisit, syncVisits } = useVisitQueue();
+
+  if (visits.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-border/80 bg-card shadow-sm p-5 sm:p-6 space-y-4",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-muted uppercase tracking-wider">
+          Queued visits ({visits.length})
+        </h3>
+        <button
+          onClick={() => syncVisits()}
+          disabled={syncingId !== null}
+          className="text-sm font-medium text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+        >
+          Sync now
+        </button>
+      </div>
+      <ul className="divide-y divide-border/60">
+        {visits.map((visit) => {
+          const syncing = visit.id === syncingId;
+          const status = statusOf(visit, syncing);
+          return (
+            <li key={visit.id} className="flex items-start justify-between gap-4 py-3">
+              <div className="min-w-0 space-y-0.5">
+                <p className="text-sm font-medium text-foreground">
+                  {visit.patientName}
+                  <span className="font-normal text-muted">
+                    {" · "}
+                    {new Date(visit.recordedAt).toLocaleString()}
+                    {" · "}
+                    {visit.transcript ? "Notes" : "Recording"}
+                  </span>
+                </p>
+                <p className={cn("text-sm", status.className)}>{status.label}</p>
+              </div>
+              {!syncing && (
+                <button
+                  onClick={() => removeVisit(visit.id)}
+                  className="shrink-0 text-sm font-medium text-muted hover:text-foreground transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import type { RiskSeries, RiskSeriesPattern, TrendSeverity } from "@/lib/trend-engine";
+import { cn } from "@/lib/utils";
+
+const PATTERN_STYLES: Record<RiskSeriesPattern, { label: string; className: string }> = {
+  escalating: {
+    label: "Escalating",
+    className: "bg-red-500/20 text-red-700 dark:text-red-300",
+  },
+  persistent: {
+    label: "Persistent",
+    className: "bg-amber-500/20 text-amber-700 dark:text-amber-300",
+  },
+  recurring: {
+    label: "Recurring",
+    className: "bg-primary/15 text-primary",
+  },
+  resolving: {
+    label: "Resolving",
+    className: "bg-success/15 text-success",
+  },
+};
+
+function dotClass(severity: TrendSeverity | null): string {
+  if (severity === "high") return "bg-red-500";
+  if (severity === "medium") return "bg-amber-500";
+  if (severity === "low") return "bg-muted";
+  return "border border-border bg-transparent";
+}
+
+interface RiskTrendSeriesProps {
+  series: RiskSeries[];
+  /** Limit the number of rows shown */
+  limit?: number;
+  className?: string;
+}
+
+/** Per-risk longitudinal patterns with a visit-by-visit severity strip */
+export function RiskTrendSeries({ series, limit, className }: RiskTrendSeriesProps) {
+  const rows = limit ? series.slice(0, limit) : series;
+
+  if (rows.length === 0) {
+    return (
+      <p className={cn("text-sm text-muted italic", className)}>
+        No recurring risk patterns across recent visits.
+      </p>
+    );
+  }
+
+  return (
+    <ul className={cn("space-y-3", className)}>
+      {rows.map((s) => {
+        const style = PATTERN_STYLES[s.pattern];
+        return (
+          <li key={s.key} className="flex flex-col sm:flex-row sm:items-center gap-2 min-w-0">
+            <span
+              className={`text-xs font-semibold px-2 py-0.5 rounded-md shrink-0 self-start sm:self-auto ${style.className}`}
+            >
+              {style.label}
+            </span>
+            <span className="text-sm text-foreground flex-1 min-w-0">{s.summary}</span>
+            <span
+              className="flex items-center gap-1 shrink-0"
+              aria-label={`Oldest to newest: ${s.severities.map((v) => v ?? "none").join(", ")}`}
+            >
+              {s.severities.map((v, i) => (
+                <span key={i} className={`w-2.5 h-2.5 rounded-full ${dotClass(v)}`} />
+              ))}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { usePatientStore } from "@/lib/patient-store";
+import { cn } from "@/lib/utils";
+
+/**
+ * Patient data the server has not confirmed: a failed initial load, and
+ * writes still saving or failed, each with a retry.
+ */
+export function SaveStatus() {
+  const { loadError, reloadPatients, pendingWrites, retryWrite } = usePatientStore();
+
+  if (!loadError && pendingWrites.length === 0) return null;
+
+  const failed = loadError !== null || pendingWrites.some((w) => w.status === "failed");
+
+  return (
+    <div
+      role={failed ? "alert" : "status"}
+      className={cn(
+        "border-b",
+        failed ? "border-red-500/40 bg-red-500/10" : "border-border bg-muted-bg/30"
+      )}
+    >
+      <ul className="mx-auto max-w-6xl px-4 sm:px-6 lg:px-8 py-2 space-y-1">
+        {loadError && (
+          <li className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-red-700 dark:text-red-300">
+              Patients could not be loaded: {loadError}
+            </span>
+            <button
+              onClick={reloadPatients}
+              className="shrink-0 font-medium text-primary hover:underline"
+            >
+              Retry
+            </button>
+          </li>
+        )}
+        {pendingWrites.map((write) => (
+          <li key={write.id} className="flex items-center justify-between gap-4 text-sm">
+            {write.status === "saving" ? (
+              <span className="text-muted">Saving {write.label}…</span>
+            ) : (
+              <>
+                <span className="text-red-700 dark:text-red-300">
+                  Not saved: {write.label}
+                  {write.error ? ` (${write.error})` : ""}
+                </span>
+                <button
+                  onClick={() => retryWrite(write.id)}
+                  className="shrink-0 font-medium text-primary hover:underline"
+                >
+                  Retry
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
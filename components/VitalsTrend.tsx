@@ -0,0 +1,79 @@
+"use client";
+
+import type { AnalysisResult } from "@/types/patient";
+import { assessVitals, formatVital, VITAL_KEYS, VITAL_LABELS } from "@/lib/vitals";
+import { cn } from "@/lib/utils";
+
+interface VitalsTrendProps {
+  /** Patient analyses, newest first (as stored) */
+  analyses: AnalysisResult[];
+  /** Number of most recent visits to chart */
+  limit?: number;
+  className?: string;
+}
+
+function formatVisitColumn(ts: number): string {
+  return new Date(ts).toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+/** Vitals across recent visits, oldest → newest, with out-of-range readings highlighted */
+export function VitalsTrend({ analyses, limit = 6, className }: VitalsTrendProps) {
+  const visits = analyses.slice(0, limit).reverse();
+  const rows = VITAL_KEYS.filter((key) =>
+    visits.some((a) => a.structuredData?.vitals?.[key] !== undefined)
+  );
+
+  if (rows.length === 0) {
+    return (
+      <p className={cn("text-sm text-muted italic", className)}>
+        No vitals recorded in recent visits.
+      </p>
+    );
+  }
+
+  const alertsByVisit = visits.map((a) => assessVitals(a.structuredData?.vitals));
+
+  return (
+    <div className={cn("overflow-x-auto", className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted">
+            <th className="text-left font-medium py-2 pr-4">Vital</th>
+            {visits.map((a, i) => (
+              <th key={i} className="text-right font-medium py-2 px-2 whitespace-nowrap">
+                {formatVisitColumn(a.timestamp)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((key) => (
+            <tr key={key} className="border-t border-border">
+              <td className="py-2 pr-4 text-foreground whitespace-nowrap">{VITAL_LABELS[key]}</td>
+              {visits.map((a, i) => {
+                const vitals = a.structuredData?.vitals ?? {};
+                const alert = alertsByVisit[i].find((x) => x.vital === key);
+                return (
+                  <td
+                    key={i}
+                    className={cn(
+                      "py-2 px-2 text-right tabular-nums whitespace-nowrap",
+                      alert?.severity === "high"
+                        ? "text-red-600 dark:text-red-400 font-semibold"
+                        : alert
+                          ? "text-amber-600 dark:text-amber-400 font-medium"
+                          : "text-foreground"
+                    )}
+                    title={alert ? `${alert.status === "high" ? "Above" : "Below"} reference range` : undefined}
+                  >
+                    {formatVital(key, vitals) ?? <span className="text-muted">—</span>}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,17 +1,27 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect } from "react";
+import {
+  appendRecordingChunk,
+  deleteRecording,
+  loadUnfinishedRecording,
+  startRecordingSession,
+  updateRecordingDuration,
+  type UnfinishedRecording,
+} from "@/lib/recording-store";
 import { cn } from "@/lib/utils";
 
 /** Recording state discriminated union for type-safe handling */
 export type RecordingState =
   | { status: "idle" }
   | { status: "recording"; duration: number }
+  | { status: "paused"; duration: number }
   | { status: "processing" }
   | { status: "recorded"; blob: Blob; duration: number };
 
 export interface VoiceRecorderProps {
-  onRecordingComplete?: (blob: Blob, duration: number) => void;
+  /** `startedAt` is when recording began, in ms since the epoch */
+  onRecordingComplete?: (blob: Blob, duration: number, startedAt: number) => void;
   onError?: (error: Error) => void;
   className?: string;
 }
@@ -45,10 +55,14 @@ export function VoiceRecorder({
   const [state, setState] = useState<RecordingState>({ status: "idle" });
   const [isSupported, setIsSupported] = useState<boolean | null>(null);
   const [isPermissionDenied, setIsPermissionDenied] = useState(false);
+  // Left in IndexedDB by a tab that closed mid-recording
+  const [unfinished, setUnfinished] = useState<UnfinishedRecording | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  // Id of the recording's copy in IndexedDB; chunks are persisted as they arrive
+  const sessionRef = useRef<Promise<string> | null>(null);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const durationRef = useRef(0);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -66,18 +80,24 @@ export function VoiceRecorder({
     mediaRecorderRef.current = null;
   }, []);
 
+  /** Continues from durationRef, so a resumed recording keeps counting */
   const startTimer = useCallback(() => {
-    durationRef.current = 0;
     timerRef.current = setInterval(() => {
       durationRef.current += 1;
+      const duration = durationRef.current;
       setState((prev) =>
-        prev.status === "recording"
-          ? { ...prev, duration: durationRef.current }
-          : prev
+        prev.status === "recording" ? { ...prev, duration } : prev
       );
+      sessionRef.current?.then((id) => updateRecordingDuration(id, duration));
     }, 1000);
   }, []);
 
+  /** Drops the persisted copy once the recording is complete or abandoned */
+  const endSession = useCallback(() => {
+    sessionRef.current?.then(deleteRecording);
+    sessionRef.current = null;
+  }, []);
+
   const stopTimer = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -98,14 +118,23 @@ export function VoiceRecorder({
       const mediaRecorder = new MediaRecorder(stream, options);
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      durationRef.current = 0;
+      const startedAt = Date.now();
+      const session = startRecordingSession(mimeType ?? "audio/webm");
+      sessionRef.current = session;
 
       mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
+        if (e.data.size > 0) {
+          chunksRef.current.push(e.data);
+          // Chained on the session, so chunks are stored in arrival order
+          session.then((id) => appendRecordingChunk(id, e.data));
+        }
       };
 
       mediaRecorder.onstop = () => {
         stopTimer();
         cleanup();
+        endSession();
 
         if (chunksRef.current.length === 0) {
           setState({ status: "idle" });
@@ -122,7 +151,7 @@ export function VoiceRecorder({
 
         requestAnimationFrame(() => {
           setState({ status: "recorded", blob, duration });
-          onRecordingComplete?.(blob, duration);
+          onRecordingComplete?.(blob, duration, startedAt);
         });
       };
 
@@ -131,6 +160,7 @@ export function VoiceRecorder({
       setState({ status: "recording", duration: 0 });
     } catch (err) {
       cleanup();
+      endSession();
       const error = err instanceof Error ? err : new Error(String(err));
       if (error.name === "NotAllowedError") {
         setIsPermissionDenied(true);
@@ -138,14 +168,42 @@ export function VoiceRecorder({
       onError?.(error);
       setState({ status: "idle" });
     }
-  }, [cleanup, onError, onRecordingComplete, startTimer, stopTimer]);
+  }, [cleanup, endSession, onError, onRecordingComplete, startTimer, stopTimer]);
 
   const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current?.state === "recording") {
-      mediaRecorderRef.current.stop();
+    const recorder = mediaRecorderRef.current;
+    if (recorder?.state === "recording" || recorder?.state === "paused") {
+      recorder.stop();
     }
   }, []);
 
+  const pauseRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== "recording") return;
+    mediaRecorderRef.current.pause();
+    stopTimer();
+    setState({ status: "paused", duration: durationRef.current });
+  }, [stopTimer]);
+
+  const resumeRecording = useCallback(() => {
+    if (mediaRecorderRef.current?.state !== "paused") return;
+    mediaRecorderRef.current.resume();
+    startTimer();
+    setState({ status: "recording", duration: durationRef.current });
+  }, [startTimer]);
+
+  const recoverUnfinished = useCallback(() => {
+    if (!unfinished) return;
+    deleteRecording(unfinished.id);
+    setUnfinished(null);
+    setState({ status: "recorded", blob: unfinished.blob, duration: unfinished.duration });
+    onRecordingComplete?.(unfinished.blob, unfinished.duration, Date.parse(unfinished.startedAt));
+  }, [onRecordingComplete, unfinished]);
+
+  const discardUnfinished = useCallback(() => {
+    if (unfinished) deleteRecording(unfinished.id);
+    setUnfinished(null);
+  }, [unfinished]);
+
   const reset = useCallback(() => {
     if (audioRef.current) {
       audioRef.current.pause();
@@ -168,6 +226,28 @@ export function VoiceRecorder({
     return cleanup;
   }, [cleanup]);
 
+  useEffect(() => {
+    let cancelled = false;
+    loadUnfinishedRecording().then((recording) => {
+      if (!cancelled) setUnfinished(recording);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Warn before navigating away mid-recording; the audio so far is kept either way
+  const isCapturing = state.status === "recording" || state.status === "paused";
+  useEffect(() => {
+    if (!isCapturing) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [isCapturing]);
+
   useEffect(() => {
     return () => {
       if (audioRef.current) {
@@ -219,17 +299,44 @@ export function VoiceRecorder({
 
   const isIdle = state.status === "idle";
   const isRecording = state.status === "recording";
+  const isPaused = state.status === "paused";
   const isProcessing = state.status === "processing";
   const isRecorded = state.status === "recorded";
 
   return (
     <div className={cn("space-y-6", className)}>
+      {/* Recovery of a recording interrupted by a crash or navigation */}
+      {isIdle && unfinished && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg bg-muted-bg">
+          <p className="flex-1 text-sm text-foreground">
+            An unfinished recording from{" "}
+            {new Date(unfinished.startedAt).toLocaleString()} (
+            {formatDuration(unfinished.duration)}) was saved.
+          </p>
+          <div className="flex gap-4 shrink-0">
+            <button
+              onClick={recoverUnfinished}
+              className="text-sm font-medium text-primary hover:underline"
+            >
+              Recover
+            </button>
+            <button
+              onClick={discardUnfinished}
+              className="text-sm font-medium text-muted hover:text-foreground transition-colors"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Microphone button */}
       <div className="flex flex-col items-center gap-6">
         <div
           className={cn(
             "w-36 h-36 sm:w-44 sm:h-44 rounded-full flex items-center justify-center transition-all duration-300",
             isRecording && "bg-primary-muted scale-105 animate-pulse",
+            isPaused && "bg-primary-muted",
             isProcessing && "bg-muted-bg",
             isRecorded && "bg-success/10",
             isIdle && "bg-muted-bg"
@@ -246,7 +353,7 @@ export function VoiceRecorder({
             </button>
           )}
 
-          {isRecording && (
+          {(isRecording || isPaused) && (
             <button
               onClick={stopRecording}
               className="w-24 h-24 sm:w-28 sm:h-28 rounded-full bg-primary hover:bg-primary-hover flex items-center justify-center transition-all duration-150 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
@@ -278,7 +385,7 @@ export function VoiceRecorder({
         {/* Status text & timer */}
         <div className="text-center space-y-1 min-h-[3rem]">
           <p className="text-2xl font-mono font-semibold text-foreground tabular-nums">
-            {isRecording && formatDuration(state.duration)}
+            {(isRecording || isPaused) && formatDuration(state.duration)}
             {isRecorded && formatDuration(state.duration)}
             {isIdle && "00:00"}
             {isProcessing && "00:00"}
@@ -286,10 +393,20 @@ export function VoiceRecorder({
           <p className="text-sm text-muted">
             {isIdle && "Tap to start recording"}
             {isRecording && "Listening… capturing details"}
+            {isPaused && "Paused"}
             {isProcessing && "Processing…"}
             {isRecorded && "Recording captured"}
           </p>
         </div>
+
+        {(isRecording || isPaused) && (
+          <button
+            onClick={isPaused ? resumeRecording : pauseRecording}
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            {isPaused ? "Resume recording" : "Pause"}
+          </button>
+        )}
       </div>
 
       {/* Audio preview (recorded state) */}
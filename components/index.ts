@@ -1,9 +1,18 @@
+export { AnalysisProgress, createAnalysisProgress } from "./AnalysisProgress";
+export type { AnalysisProgressState, StepStatus } from "./AnalysisProgress";
+export { EscalationActionList } from "./EscalationActionList";
 export { Navbar } from "./navbar";
 export { PatientContextBar } from "./PatientContextBar";
+export { PatientDetailsForm } from "./PatientDetailsForm";
 export { PatientSafetyBanner } from "./PatientSafetyBanner";
+export { MedicationList } from "./MedicationList";
 export { PageContainer } from "./PageContainer";
+export { RiskTrendSeries } from "./RiskTrendSeries";
 export { PatientPicker } from "./PatientPicker";
+export { QueuedVisitList } from "./QueuedVisitList";
+export { SaveStatus } from "./SaveStatus";
 export { Providers } from "./Providers";
+export { VitalsTrend } from "./VitalsTrend";
 export { VoiceRecorder } from "./VoiceRecorder";
 export { Button } from "./ui/Button";
 export { Card } from "./ui/Card";
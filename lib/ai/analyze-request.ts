@@ -0,0 +1,182 @@
+/**
+ * /api/analyze request handling - server-side only
+ * Shared by the JSON route and its streaming (SSE) variant.
+ */
+
+import { isLLMConfigured } from "./llm";
+import { createMockLLMProvider, isMockMode } from "./mock";
+import type {
+  PipelineCheckpoint,
+  PipelineClient,
+  PipelineOptions,
+} from "./pipeline";
+import { validateRiskAnalysisJson, validateStructuredVisitJson } from "./schema";
+import { isPromptName, PROMPT_REGISTRY, type PromptVersions } from "./prompts";
+import { parseMedications } from "@/lib/medications";
+import { parseTranscriptSegments } from "@/lib/transcript-segments";
+
+export interface AnalyzeRequest {
+  transcript: string;
+  options: PipelineOptions;
+}
+
+export type ParsedAnalyzeRequest =
+  | { ok: true; request: AnalyzeRequest }
+  | { ok: false; message: string };
+
+export const LLM_NOT_CONFIGURED_MESSAGE =
+  "Add OPENAI_API_KEY (or configure LLM_PROVIDER, or set AI_MOCK_MODE=true) in .env or .env.local, then restart the dev server.";
+
+/** True when the pipeline can run (mock mode needs no provider) */
+export function canRunAnalysis(): boolean {
+  return isMockMode() || isLLMConfigured();
+}
+
+/** Mock provider in mock mode; otherwise undefined (use the configured provider) */
+export function createAnalyzeClient(): PipelineClient | undefined {
+  return isMockMode() ? createMockLLMProvider() : undefined;
+}
+
+/** True for errors caused by missing or invalid provider env configuration */
+export function isLLMConfigError(error: unknown): error is Error {
+  return (
+    error instanceof Error &&
+    /OPENAI_API_KEY|LLM_PROVIDER|LLM_BASE_URL|AZURE_OPENAI_/.test(error.message)
+  );
+}
+
+/**
+ * Checks a checkpoint echoed back by the client. Evidence spans are not
+ * quotes, so they are left out of the schema check.
+ */
+function parseCheckpoint(value: unknown): PipelineCheckpoint | null {
+  if (!value || typeof value !== "object") return null;
+  const c = value as Record<string, unknown>;
+  if (typeof c.inputHash !== "string") return null;
+  if (c.cleanedTranscript !== undefined && typeof c.cleanedTranscript !== "string") {
+    return null;
+  }
+
+  const structured = c.structuredData as Record<string, unknown> | undefined;
+  if (
+    structured !== undefined &&
+    validateStructuredVisitJson({ ...structured, evidence: undefined }).length > 0
+  ) {
+    return null;
+  }
+
+  const risks = c.risks as Record<string, unknown> | undefined;
+  if (risks !== undefined) {
+    const flags = Array.isArray(risks?.risk_flags) ? (risks.risk_flags as unknown[]) : null;
+    const withoutEvidence = flags?.map((f) =>
+      f && typeof f === "object" ? { ...f, evidence: undefined } : f
+    );
+    if (validateRiskAnalysisJson({ risk_flags: withoutEvidence }).length > 0) return null;
+  }
+
+  if (c.issues !== undefined && !Array.isArray(c.issues)) return null;
+
+  return value as PipelineCheckpoint;
+}
+
+/** Checks { [promptName]: version } against the registry */
+function parsePromptVersions(value: unknown): PromptVersions | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "'promptVersions' must be an object of { promptName: version }.";
+  }
+  const versions: PromptVersions = {};
+  for (const [name, version] of Object.entries(value)) {
+    if (!isPromptName(name)) {
+      return `Unknown prompt "${name}". Use one of: ${Object.keys(PROMPT_REGISTRY).join(", ")}.`;
+    }
+    if (typeof version !== "string" || !(version in PROMPT_REGISTRY[name])) {
+      return `Unknown ${name} version. Available: ${Object.keys(PROMPT_REGISTRY[name]).join(", ")}.`;
+    }
+    versions[name] = version;
+  }
+  return versions;
+}
+
+/**
+ * Validates a request body:
+ * { transcript: string, medications?: Medication[], patientName?: string,
+ *   resume?: PipelineCheckpoint, promptVersions?: PromptVersions,
+ *   segments?: TranscriptSegment[] }
+ */
+export function parseAnalyzeRequest(body: unknown): ParsedAnalyzeRequest {
+  if (!body || typeof body !== "object") {
+    return { ok: false, message: "Request body must be a JSON object." };
+  }
+
+  const {
+    transcript,
+    medications: rawMedications,
+    patientName,
+    resume: rawResume,
+    promptVersions: rawPromptVersions,
+    segments: rawSegments,
+  } = body as Record<string, unknown>;
+
+  if (typeof transcript !== "string") {
+    return { ok: false, message: "Expected { transcript: string }." };
+  }
+
+  const trimmed = transcript.trim();
+
+  if (!trimmed) {
+    return { ok: false, message: "'transcript' cannot be empty." };
+  }
+
+  const medications =
+    rawMedications === undefined ? [] : parseMedications(rawMedications);
+
+  if (!medications) {
+    return {
+      ok: false,
+      message:
+        "'medications' must be an array of { name: string, dose?: string, schedule?: string }.",
+    };
+  }
+
+  const resume = rawResume === undefined ? undefined : parseCheckpoint(rawResume);
+
+  if (resume === null) {
+    return {
+      ok: false,
+      message: "'resume' must be the checkpoint returned with a failed analysis.",
+    };
+  }
+
+  const promptVersions =
+    rawPromptVersions === undefined ? {} : parsePromptVersions(rawPromptVersions);
+
+  if (typeof promptVersions === "string") {
+    return { ok: false, message: promptVersions };
+  }
+
+  const segments = rawSegments === undefined ? [] : parseTranscriptSegments(rawSegments);
+
+  if (!segments) {
+    return {
+      ok: false,
+      message:
+        "'segments' must be an array of { speaker: caregiver|patient|other, start: number, end: number, text: string }.",
+    };
+  }
+
+  return {
+    ok: true,
+    request: {
+      transcript: trimmed,
+      options: {
+        medications,
+        // Redacted before any LLM call, in addition to pattern-detected PHI
+        knownNames:
+          typeof patientName === "string" && patientName.trim() ? [patientName] : [],
+        resume,
+        promptVersions,
+        ...(segments.length > 0 ? { segments } : {}),
+      },
+    },
+  };
+}
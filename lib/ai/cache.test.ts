@@ -0,0 +1,108 @@
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createCacheKey,
+  FileCacheStore,
+  getPipelineCache,
+  hashPrompt,
+  MemoryCacheStore,
+} from "./cache";
+
+const PARTS = { step: "clean", input: "BP 128/82.", promptVersion: "v1:abc", model: "openai:gpt-4o-mini" };
+
+describe("createCacheKey", () => {
+  it("is stable for the same parts and changes with any of them", () => {
+    const key = createCacheKey(PARTS);
+    expect(createCacheKey({ ...PARTS })).toBe(key);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+
+    const variants = [
+      { ...PARTS, step: "structure" },
+      { ...PARTS, input: "BP 128/83." },
+      { ...PARTS, promptVersion: "v2:abc" },
+      { ...PARTS, model: "local:llama3.1" },
+    ];
+    expect(new Set([key, ...variants.map(createCacheKey)]).size).toBe(5);
+  });
+
+  it("does not collide when text moves between parts", () => {
+    expect(createCacheKey({ ...PARTS, step: "a", input: "bc" })).not.toBe(
+      createCacheKey({ ...PARTS, step: "ab", input: "c" })
+    );
+  });
+});
+
+describe("hashPrompt", () => {
+  it("changes when a prompt is edited", () => {
+    expect(hashPrompt("Clean the transcript.")).toHaveLength(12);
+    expect(hashPrompt("Clean the transcript.")).not.toBe(hashPrompt("Clean the transcript!"));
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("returns copies, so callers cannot mutate cached values", async () => {
+    const store = new MemoryCacheStore();
+    const value = { risk_flags: [{ risk: "Fall" }] };
+    await store.set("k", value);
+    value.risk_flags.push({ risk: "Pain" });
+
+    const hit = (await store.get("k")) as typeof value;
+    expect(hit).toEqual({ risk_flags: [{ risk: "Fall" }] });
+    hit.risk_flags.length = 0;
+    expect(await store.get("k")).toEqual({ risk_flags: [{ risk: "Fall" }] });
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set("a", 1);
+    await store.set("b", 2);
+    await store.get("a");
+    await store.set("c", 3);
+
+    expect(await store.get("a")).toBe(1);
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBe(3);
+  });
+});
+
+describe("FileCacheStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "caregiver-cache-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists entries across instances without leaving temp files", async () => {
+    await new FileCacheStore(dir).set("k", { cleaned: "BP 128/82." });
+
+    expect(await new FileCacheStore(dir).get("k")).toEqual({ cleaned: "BP 128/82." });
+    expect(await readdir(dir)).toEqual(["k.json"]);
+  });
+
+  it("treats missing and corrupt entries as misses", async () => {
+    const store = new FileCacheStore(path.join(dir, "not-created-yet"));
+    expect(await store.get("missing")).toBeUndefined();
+
+    await writeFile(path.join(dir, "bad.json"), "{ truncated", "utf8");
+    expect(await new FileCacheStore(dir).get("bad")).toBeUndefined();
+  });
+});
+
+describe("getPipelineCache", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps unredacted runs off disk", () => {
+    vi.stubEnv("PIPELINE_CACHE", "disk");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(getPipelineCache(false)).toBeInstanceOf(MemoryCacheStore);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Pipeline step cache - server-side only
+ *
+ * Content-addressed store for step outputs: the key is a SHA-256 of the
+ * step, its input text, the prompt version and the model, so re-analyzing
+ * the same transcript skips LLM calls that would return the same thing.
+ *
+ * Inputs are the pipeline's internal text. With PHI redaction on, detected
+ * values are tokenized before they reach the cache; with it off the text is
+ * raw PHI, so a disk cache is refused for those runs and memory used instead.
+ * Configure with PIPELINE_CACHE and PIPELINE_CACHE_DIR.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// =============================================================================
+// Types & config
+// =============================================================================
+
+/** Storage contract for cached step outputs (JSON-serializable values) */
+export interface CacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+export type CacheMode = "memory" | "disk" | "off";
+
+/** Identifies one step output */
+export interface CacheKeyParts {
+  step: string;
+  input: string;
+  promptVersion: string;
+  model: string;
+}
+
+/**
+ * Bump when step output normalization changes shape, or when a prompt outside
+ * the registry (the long-transcript summary reducer) changes
+ */
+const CACHE_FORMAT = 2;
+
+/** Short content hash of a prompt's text */
+export function hashPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 12);
+}
+
+export function createCacheKey({ step, input, promptVersion, model }: CacheKeyParts): string {
+  return createHash("sha256")
+    .update(JSON.stringify([CACHE_FORMAT, step, promptVersion, model, input]))
+    .digest("hex");
+}
+
+function getCacheMode(): CacheMode {
+  const mode = process.env.PIPELINE_CACHE?.trim().toLowerCase();
+  if (mode === "disk" || mode === "off") return mode;
+  if (mode === "false" || mode === "0") return "off";
+  return "memory";
+}
+
+function getCacheDir(): string {
+  const dir = process.env.PIPELINE_CACHE_DIR?.trim();
+  if (dir) return path.resolve(dir);
+  const dataDir = process.env.CAREGIVER_DATA_DIR?.trim();
+  return path.join(dataDir ? path.resolve(dataDir) : path.join(process.cwd(), ".data"), "cache");
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * Process-local store; evicts the least recently used entry past `maxEntries`.
+ * Values are kept serialized so callers never share mutable objects.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, string>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    if (!this.entries.has(key)) return undefined;
+    const value = this.entries.get(key) as string;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return JSON.parse(value) as unknown;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, JSON.stringify(value));
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * One JSON file per entry under `dir`, written atomically (temp file +
+ * rename). Survives restarts, so repeated demo runs stay free.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly dir: string) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), "utf8");
+      return (JSON.parse(raw) as { value: unknown }).value;
+    } catch {
+      // Missing or corrupt entries are misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const filePath = this.filePath(key);
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify({ value }), "utf8");
+    await fs.rename(tmpPath, filePath);
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+let cacheInstance: CacheStore | null | undefined;
+let unredactedCacheInstance: MemoryCacheStore | undefined;
+
+/**
+ * Get the configured singleton cache, or null when PIPELINE_CACHE=off.
+ * Defaults to in-memory; "disk" stores under PIPELINE_CACHE_DIR
+ * (default <CAREGIVER_DATA_DIR>/cache).
+ *
+ * @param phiRedacted - False for runs without PHI redaction; they get an
+ *   in-memory cache even in disk mode, so raw PHI is never written to disk
+ */
+export function getPipelineCache(phiRedacted = true): CacheStore | null {
+  if (!phiRedacted && getCacheMode() === "disk") {
+    if (!unredactedCacheInstance) {
+      console.warn(
+        "[ai/cache] PIPELINE_CACHE=disk needs PHI redaction; caching unredacted runs in memory only"
+      );
+      unredactedCacheInstance = new MemoryCacheStore();
+    }
+    return unredactedCacheInstance;
+  }
+  if (cacheInstance !== undefined) {
+    return cacheInstance;
+  }
+  switch (getCacheMode()) {
+    case "off":
+      cacheInstance = null;
+      break;
+    case "disk":
+      cacheInstance = new FileCacheStore(getCacheDir());
+      break;
+    default:
+      cacheInstance = new MemoryCacheStore();
+  }
+  return cacheInstance;
+}
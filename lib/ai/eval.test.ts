@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import {
+  compareToBaseline,
+  createBaseline,
+  flattenMetrics,
+  prf,
+  scoreEvaluation,
+  type EvalCase,
+} from "./eval";
+import type { PipelineResult, RiskFlag, StructuredVisitData } from "./pipeline";
+
+function result(
+  flags: Pick<RiskFlag, "category" | "severity">[],
+  structuredData: StructuredVisitData = {}
+): PipelineResult {
+  return {
+    cleanedTranscript: "",
+    structuredData,
+    risks: { risk_flags: flags.map((f) => ({ ...f, risk: f.category, reason: "" })) },
+    status: "complete",
+    provenance: { provider: "fake", model: "test", prompts: {} },
+  };
+}
+
+function evalCase(id: string, expected: EvalCase["expected"]): EvalCase {
+  return { id, transcript: "", expected };
+}
+
+describe("prf", () => {
+  it.each<[[number, number, number], { precision: number; recall: number; f1: number }]>([
+    [[3, 1, 0], { precision: 0.75, recall: 1, f1: 6 / 7 }],
+    [[1, 1, 1], { precision: 0.5, recall: 0.5, f1: 0.5 }],
+    [[0, 2, 3], { precision: 0, recall: 0, f1: 0 }],
+    // Nothing predicted and nothing expected is perfect
+    [[0, 0, 0], { precision: 1, recall: 1, f1: 1 }],
+  ])("prf(%j)", ([tp, fp, fn], expected) => {
+    const score = prf(tp, fp, fn);
+    expect(score).toMatchObject({ tp, fp, fn });
+    expect(score.precision).toBeCloseTo(expected.precision);
+    expect(score.recall).toBeCloseTo(expected.recall);
+    expect(score.f1).toBeCloseTo(expected.f1);
+  });
+});
+
+describe("scoreEvaluation", () => {
+  const corpus = [
+    evalCase("fall-and-pain", {
+      risks: [
+        { category: "fall", severity: "high" },
+        { category: "pain", severity: "low" },
+      ],
+      structured: {
+        care_level_indicator: "attention_needed",
+        concerns: ["fell"],
+        patient_reported: ["hip hurts"],
+      },
+    }),
+    evalCase("skin", { risks: [{ category: "skin", severity: "medium" }] }),
+    evalCase("crashed", { risks: [{ category: "cognition", severity: "medium" }] }),
+  ];
+  const report = scoreEvaluation(
+    corpus,
+    [
+      result(
+        [
+          { category: "fall", severity: "medium" },
+          { category: "fall", severity: "high" },
+          { category: "hydration_nutrition", severity: "low" },
+        ],
+        {
+          care_level_indicator: "attention_needed",
+          concerns: ["She fell in the bathroom."],
+          patient_reported: ["Says her hip hurts."],
+        }
+      ),
+      result([{ category: "skin", severity: "high" }]),
+      new Error("provider timed out"),
+    ],
+    "fake",
+    "test"
+  );
+
+  it("tallies risk categories across cases", () => {
+    expect(report.risks.overall).toMatchObject({ tp: 2, fp: 1, fn: 2 });
+    expect(report.risks.byCategory).toEqual({
+      cognition: expect.objectContaining({ tp: 0, fp: 0, fn: 1 }),
+      fall: expect.objectContaining({ tp: 1, fp: 0, fn: 0 }),
+      hydration_nutrition: expect.objectContaining({ tp: 0, fp: 1, fn: 0 }),
+      pain: expect.objectContaining({ tp: 0, fp: 0, fn: 1 }),
+      skin: expect.objectContaining({ tp: 1, fp: 0, fn: 0 }),
+    });
+  });
+
+  it("scores the highest severity per category and counts a mismatch against both", () => {
+    expect(report.risks.bySeverity).toEqual({
+      low: expect.objectContaining({ tp: 0, fp: 1, fn: 1 }),
+      medium: expect.objectContaining({ tp: 0, fp: 0, fn: 2 }),
+      high: expect.objectContaining({ tp: 1, fp: 1, fn: 0 }),
+    });
+    expect(report.risks.severityAgreement).toBe(0.5);
+    expect(report.cases[1].severityMismatches).toEqual(["skin: expected medium, got high"]);
+  });
+
+  it("reports missed and unexpected risks per case", () => {
+    expect(report.cases[0]).toMatchObject({
+      missedRisks: ["pain (low)"],
+      unexpectedRisks: ["hydration_nutrition (low)"],
+      severityMismatches: [],
+      fieldErrors: [],
+    });
+  });
+
+  it("scores structured fields by expected phrase, including patient_reported", () => {
+    expect(report.fields).toEqual({
+      care_level_indicator: { correct: 1, total: 1, accuracy: 1 },
+      concerns: { correct: 1, total: 1, accuracy: 1 },
+      patient_reported: { correct: 1, total: 1, accuracy: 1 },
+    });
+  });
+
+  it("keeps a failed case's error and counts its risks as missed", () => {
+    expect(report.cases[2]).toMatchObject({
+      id: "crashed",
+      error: "provider timed out",
+      missedRisks: ["cognition (medium)"],
+    });
+    expect(report.cases[2].status).toBeUndefined();
+  });
+});
+
+describe("flattenMetrics", () => {
+  it("lists headline, per-category, per-severity and per-field metrics", () => {
+    const report = scoreEvaluation(
+      [
+        evalCase("a", {
+          risks: [{ category: "fall", severity: "low" }],
+          structured: { concerns: ["fell"] },
+        }),
+      ],
+      [result([{ category: "fall", severity: "low" }], { concerns: [] })],
+      "fake",
+      "test"
+    );
+    expect(flattenMetrics(report)).toEqual({
+      "risks.precision": 1,
+      "risks.recall": 1,
+      "risks.f1": 1,
+      "risks.severity_agreement": 1,
+      "risks.category.fall.f1": 1,
+      "risks.severity.low.recall": 1,
+      "risks.severity.medium.recall": 1,
+      "risks.severity.high.recall": 1,
+      "fields.concerns.accuracy": 0,
+    });
+  });
+});
+
+describe("compareToBaseline", () => {
+  const corpus = [
+    evalCase("a", { risks: [{ category: "fall", severity: "low" }] }),
+    evalCase("b", { risks: [{ category: "pain", severity: "low" }] }),
+  ];
+  const perfect = scoreEvaluation(
+    corpus,
+    [
+      result([{ category: "fall", severity: "low" }]),
+      result([{ category: "pain", severity: "low" }]),
+    ],
+    "fake",
+    "test"
+  );
+  const missedPain = scoreEvaluation(
+    corpus,
+    [result([{ category: "fall", severity: "low" }]), result([])],
+    "fake",
+    "test"
+  );
+
+  it("flags metrics that dropped by more than the tolerance", () => {
+    const { regressions, improvements } = compareToBaseline(missedPain, createBaseline(perfect));
+    expect(regressions).toEqual(
+      expect.arrayContaining([
+        { metric: "risks.recall", baseline: 1, current: 0.5 },
+        { metric: "risks.category.pain.f1", baseline: 1, current: 0 },
+      ])
+    );
+    expect(improvements).toEqual([]);
+  });
+
+  it("reports the reverse as improvements", () => {
+    const { regressions, improvements } = compareToBaseline(perfect, createBaseline(missedPain));
+    expect(regressions).toEqual([]);
+    expect(improvements).toContainEqual({ metric: "risks.recall", baseline: 0.5, current: 1 });
+  });
+
+  it("ignores changes within the tolerance", () => {
+    const baseline = createBaseline(perfect);
+    baseline.metrics["risks.recall"] = 1.01;
+    baseline.metrics["risks.precision"] = 0.99;
+    expect(compareToBaseline(perfect, baseline)).toEqual({ regressions: [], improvements: [] });
+    expect(compareToBaseline(perfect, baseline, 0).regressions).toEqual([
+      { metric: "risks.recall", baseline: 1.01, current: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Offline pipeline evaluation - dev tooling, server-side only
+ *
+ * Runs the visit pipeline over an annotated corpus of caregiver transcripts
+ * and scores it: precision/recall of risk flags by category and severity,
+ * field-level accuracy of StructuredVisitData, and regressions against a
+ * stored baseline. Driven by `npm run eval` (scripts/eval.ts).
+ */
+
+import { analyzeCaregiverTranscript, type PipelineClient, type PipelineResult } from "./pipeline";
+import type { PromptVersions } from "./prompts";
+import { riskCategoryOf, type RiskCategory } from "@/lib/risk-categories";
+import type { Medication, VitalSigns } from "@/types/patient";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type Severity = "low" | "medium" | "high";
+
+/** List fields scored by expected phrases */
+type ScoredListField =
+  | "key_observations"
+  | "patient_reported"
+  | "activities_completed"
+  | "medication_notes"
+  | "concerns";
+
+export interface EvalCase {
+  id: string;
+  transcript: string;
+  medications?: Medication[];
+  expected: {
+    risks: { category: RiskCategory; severity: Severity }[];
+    structured?: {
+      care_level_indicator?: "stable" | "watch" | "attention_needed";
+      vitals?: VitalSigns;
+    } & Partial<Record<ScoredListField, string[]>>;
+  };
+}
+
+export interface PRF {
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface FieldScore {
+  correct: number;
+  total: number;
+  accuracy: number;
+}
+
+export interface CaseResult {
+  id: string;
+  /** Set when the pipeline threw for this case */
+  error?: string;
+  status?: PipelineResult["status"];
+  missedRisks: string[];
+  unexpectedRisks: string[];
+  severityMismatches: string[];
+  fieldErrors: string[];
+}
+
+export interface EvalReport {
+  provider: string;
+  model: string;
+  cases: CaseResult[];
+  risks: {
+    overall: PRF;
+    byCategory: Partial<Record<RiskCategory, PRF>>;
+    bySeverity: Record<Severity, PRF>;
+    /** Share of correctly detected categories whose severity also matches */
+    severityAgreement: number;
+  };
+  fields: Record<string, FieldScore>;
+}
+
+/** Flattened headline metrics, compared run to run */
+export interface EvalBaseline {
+  provider: string;
+  model: string;
+  metrics: Record<string, number>;
+}
+
+export interface MetricChange {
+  metric: string;
+  baseline: number;
+  current: number;
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+const SEVERITIES: Severity[] = ["low", "medium", "high"];
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+const LIST_FIELDS: ScoredListField[] = [
+  "key_observations",
+  "patient_reported",
+  "activities_completed",
+  "medication_notes",
+  "concerns",
+];
+
+export function prf(tp: number, fp: number, fn: number): PRF {
+  // Nothing predicted (or expected) counts as perfect precision (or recall)
+  const precision = tp + fp === 0 ? 1 : tp / (tp + fp);
+  const recall = tp + fn === 0 ? 1 : tp / (tp + fn);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return { tp, fp, fn, precision, recall, f1 };
+}
+
+/** One severity per category: the highest flagged */
+function byCategory(risks: { category: RiskCategory; severity: Severity }[]): Map<RiskCategory, Severity> {
+  const out = new Map<RiskCategory, Severity>();
+  for (const { category, severity } of risks) {
+    const current = out.get(category);
+    if (!current || SEVERITY_RANK[severity] > SEVERITY_RANK[current]) out.set(category, severity);
+  }
+  return out;
+}
+
+function vitalValues(v: unknown): number[] {
+  if (!v || typeof v !== "object") return [];
+  const r = v as Record<string, unknown>;
+  return ["systolic", "diastolic", "value"]
+    .map((k) => r[k])
+    .filter((n): n is number => typeof n === "number");
+}
+
+function sameVital(expected: unknown, actual: unknown): boolean {
+  const a = vitalValues(expected);
+  const b = vitalValues(actual);
+  return a.length > 0 && a.length === b.length && a.every((n, i) => Math.abs(n - b[i]) < 0.05);
+}
+
+interface Tally {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+function tally(map: Map<string, Tally>, key: string, field: keyof Tally): void {
+  const t = map.get(key) ?? { tp: 0, fp: 0, fn: 0 };
+  t[field]++;
+  map.set(key, t);
+}
+
+/**
+ * Scores pipeline results against the corpus annotations.
+ * `results[i]` belongs to `corpus[i]`; an Error marks a failed run.
+ */
+export function scoreEvaluation(
+  corpus: EvalCase[],
+  results: (PipelineResult | Error)[],
+  provider: string,
+  model: string
+): EvalReport {
+  const categoryTally = new Map<string, Tally>();
+  const severityTally = new Map<string, Tally>();
+  const fieldTally = new Map<string, { correct: number; total: number }>();
+  let matched = 0;
+  let severityMatched = 0;
+
+  const score = (field: string, ok: boolean) => {
+    const t = fieldTally.get(field) ?? { correct: 0, total: 0 };
+    t.total++;
+    if (ok) t.correct++;
+    fieldTally.set(field, t);
+  };
+
+  const cases = corpus.map((c, i): CaseResult => {
+    const result = results[i];
+    const failed = result instanceof Error;
+    const caseResult: CaseResult = {
+      id: c.id,
+      ...(failed ? { error: result.message } : { status: result.status }),
+      missedRisks: [],
+      unexpectedRisks: [],
+      severityMismatches: [],
+      fieldErrors: [],
+    };
+
+    // Risk flags
+    const expected = byCategory(c.expected.risks);
+    const predicted = byCategory(
+      failed
+        ? []
+        : result.risks.risk_flags.map((f) => ({
+            category: riskCategoryOf(f),
+            severity: f.severity,
+          }))
+    );
+
+    expected.forEach((severity, category) => {
+      const actual = predicted.get(category);
+      if (!actual) {
+        tally(categoryTally, category, "fn");
+        tally(severityTally, severity, "fn");
+        caseResult.missedRisks.push(`${category} (${severity})`);
+        return;
+      }
+      tally(categoryTally, category, "tp");
+      matched++;
+      if (actual === severity) {
+        severityMatched++;
+        tally(severityTally, severity, "tp");
+      } else {
+        tally(severityTally, severity, "fn");
+        tally(severityTally, actual, "fp");
+        caseResult.severityMismatches.push(`${category}: expected ${severity}, got ${actual}`);
+      }
+    });
+    predicted.forEach((severity, category) => {
+      if (expected.has(category)) return;
+      tally(categoryTally, category, "fp");
+      tally(severityTally, severity, "fp");
+      caseResult.unexpectedRisks.push(`${category} (${severity})`);
+    });
+
+    // Structured fields
+    const want = c.expected.structured;
+    if (!want) return caseResult;
+    const data = failed ? {} : result.structuredData;
+
+    if (want.care_level_indicator) {
+      const ok = data.care_level_indicator === want.care_level_indicator;
+      score("care_level_indicator", ok);
+      if (!ok) {
+        caseResult.fieldErrors.push(
+          `care_level_indicator: expected ${want.care_level_indicator}, got ${data.care_level_indicator ?? "none"}`
+        );
+      }
+    }
+
+    if (want.vitals) {
+      const expectedVitals = want.vitals as Record<string, unknown>;
+      const actualVitals = (data.vitals ?? {}) as Record<string, unknown>;
+      const keys = new Set([...Object.keys(expectedVitals), ...Object.keys(actualVitals)]);
+      keys.forEach((key) => {
+        const ok = sameVital(expectedVitals[key], actualVitals[key]);
+        score("vitals", ok);
+        if (!ok) caseResult.fieldErrors.push(`vitals.${key}`);
+      });
+    }
+
+    for (const field of LIST_FIELDS) {
+      const phrases = want[field];
+      if (!phrases) continue;
+      const text = (data[field] ?? []).join("\n").toLowerCase();
+      for (const phrase of phrases) {
+        const ok = text.includes(phrase.toLowerCase());
+        score(field, ok);
+        if (!ok) caseResult.fieldErrors.push(`${field}: missing "${phrase}"`);
+      }
+    }
+
+    return caseResult;
+  });
+
+  const sum = (map: Map<string, Tally>, field: keyof Tally) =>
+    Array.from(map.values()).reduce((n, t) => n + t[field], 0);
+
+  return {
+    provider,
+    model,
+    cases,
+    risks: {
+      overall: prf(sum(categoryTally, "tp"), sum(categoryTally, "fp"), sum(categoryTally, "fn")),
+      byCategory: Object.fromEntries(
+        Array.from(categoryTally.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([category, t]) => [category, prf(t.tp, t.fp, t.fn)])
+      ),
+      bySeverity: Object.fromEntries(
+        SEVERITIES.map((s) => {
+          const t = severityTally.get(s) ?? { tp: 0, fp: 0, fn: 0 };
+          return [s, prf(t.tp, t.fp, t.fn)];
+        })
+      ) as Record<Severity, PRF>,
+      severityAgreement: matched === 0 ? 1 : severityMatched / matched,
+    },
+    fields: Object.fromEntries(
+      Array.from(fieldTally.entries()).map(([field, t]) => [
+        field,
+        { ...t, accuracy: t.total === 0 ? 1 : t.correct / t.total },
+      ])
+    ),
+  };
+}
+
+// =============================================================================
+// Running
+// =============================================================================
+
+/**
+ * Runs the pipeline over every case, one at a time. Caching is off so each
+ * run reflects the current prompts; failures are kept as Errors.
+ */
+export async function runEvaluation(
+  corpus: EvalCase[],
+  client: PipelineClient,
+  options: { promptVersions?: PromptVersions; onCase?: (id: string, i: number) => void } = {}
+): Promise<(PipelineResult | Error)[]> {
+  const results: (PipelineResult | Error)[] = [];
+  for (let i = 0; i < corpus.length; i++) {
+    const c = corpus[i];
+    options.onCase?.(c.id, i);
+    try {
+      results.push(
+        await analyzeCaregiverTranscript(c.transcript, client, {
+          medications: c.medications,
+          promptVersions: options.promptVersions,
+          cache: false,
+        })
+      );
+    } catch (err) {
+      results.push(err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+  return results;
+}
+
+// =============================================================================
+// Baseline
+// =============================================================================
+
+/** Headline metrics: higher is better for all of them */
+export function flattenMetrics(report: EvalReport): Record<string, number> {
+  const metrics: Record<string, number> = {
+    "risks.precision": report.risks.overall.precision,
+    "risks.recall": report.risks.overall.recall,
+    "risks.f1": report.risks.overall.f1,
+    "risks.severity_agreement": report.risks.severityAgreement,
+  };
+  for (const [category, m] of Object.entries(report.risks.byCategory)) {
+    metrics[`risks.category.${category}.f1`] = m.f1;
+  }
+  for (const [severity, m] of Object.entries(report.risks.bySeverity)) {
+    metrics[`risks.severity.${severity}.recall`] = m.recall;
+  }
+  for (const [field, s] of Object.entries(report.fields)) {
+    metrics[`fields.${field}.accuracy`] = s.accuracy;
+  }
+  return metrics;
+}
+
+export function createBaseline(report: EvalReport): EvalBaseline {
+  const metrics = flattenMetrics(report);
+  return {
+    provider: report.provider,
+    model: report.model,
+    metrics: Object.fromEntries(
+      Object.entries(metrics).map(([k, v]) => [k, Math.round(v * 10000) / 10000])
+    ),
+  };
+}
+
+/** Metrics that dropped by more than `tolerance` versus the baseline */
+export function compareToBaseline(
+  report: EvalReport,
+  baseline: EvalBaseline,
+  tolerance = 0.02
+): { regressions: MetricChange[]; improvements: MetricChange[] } {
+  const current = flattenMetrics(report);
+  const regressions: MetricChange[] = [];
+  const improvements: MetricChange[] = [];
+
+  for (const [metric, before] of Object.entries(baseline.metrics)) {
+    // A metric that disappeared (e.g. a category no longer seen) scores 0
+    const now = current[metric] ?? 0;
+    if (now < before - tolerance) regressions.push({ metric, baseline: before, current: now });
+    else if (now > before + tolerance) improvements.push({ metric, baseline: before, current: now });
+  }
+  return { regressions, improvements };
+}
@@ -3,23 +3,87 @@
  */
 
 export { getOpenAIClient, isOpenAIConfigured } from "./openai";
+export {
+  getLLMProvider,
+  isLLMConfigured,
+  resolveLLMProvider,
+  OpenAICompatibleProvider,
+  FakeLLMProvider,
+  DEFAULT_MODEL,
+  type LLMProvider,
+  type LLMProviderName,
+  type ChatMessage,
+  type CompletionRequest,
+} from "./llm";
+export {
+  getTranscriptionProvider,
+  createTranscriptionProvider,
+  isTranscriptionConfigured,
+  OpenAITranscriptionProvider,
+  WhisperServerProvider,
+  WhisperCliProvider,
+  type TranscriptionProvider,
+  type TranscriptionProviderName,
+  type TranscriptionResult,
+} from "./transcription";
 export {
   SYSTEM_PROMPT,
   CAREGIVER_GREETING,
   TRANSCRIPT_CLEANER,
   CLINICAL_STRUCTURER,
+  VISIT_SUMMARY_REDUCER,
   RISK_ANALYZER,
+  MEDICATION_RECONCILER,
   FRIENDLY_SUMMARY,
   ANALYSIS_SYSTEM_PROMPT,
+  PROMPT_NAMES,
+  PROMPT_REGISTRY,
+  CURRENT_PROMPT_VERSIONS,
+  getPrompt,
+  type PromptName,
+  type PromptVersions,
+  type PromptDefinition,
 } from "./prompts";
 export {
   analyzeCaregiverTranscript,
   cleanTranscript,
   structureVisitData,
   analyzeRisks,
+  reconcileMedications,
+  medicationFindingsToRiskFlags,
   PipelineError,
+  OutputValidationError,
+  type CacheStatus,
+  type PipelineCheckpoint,
+  type PipelineClient,
+  type PipelineEvent,
+  type PipelineIssue,
+  type PipelineOptions,
+  type PipelineStep,
   type PipelineResult,
   type StructuredVisitData,
   type RiskAnalysis,
   type RiskFlag,
 } from "./pipeline";
+export {
+  getPhiRedactionConfig,
+  redactPhi,
+  reidentifyText,
+  PHI_CATEGORIES,
+  type PhiCategory,
+  type PhiRedactionConfig,
+} from "./phi";
+export {
+  getRetryPolicy,
+  withRetry,
+  isRetryableError,
+  LLMTimeoutError,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy,
+} from "./retry";
+export {
+  getPipelineCache,
+  MemoryCacheStore,
+  FileCacheStore,
+  type CacheStore,
+} from "./cache";
@@ -0,0 +1,266 @@
+/**
+ * LLM provider abstraction - server-side only
+ *
+ * The visit pipeline talks to a chat-completion provider through this
+ * interface so it can run against OpenAI, Azure OpenAI, a self-hosted
+ * OpenAI-compatible server (Ollama, llama.cpp, vLLM) or a deterministic fake.
+ *
+ * Selected by LLM_PROVIDER: "openai" (default) | "azure" | "local" | "fake"
+ */
+
+import OpenAI, { AzureOpenAI } from "openai";
+import { getOpenAIClient } from "./openai";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LLMProviderName = "openai" | "azure" | "local" | "fake";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** Ask the model for a JSON object response */
+  json?: boolean;
+  /** Receives content deltas as they stream in; the full text is still returned */
+  onToken?: (delta: string) => void;
+  /** Aborts the request (used for per-attempt timeouts) */
+  signal?: AbortSignal;
+}
+
+/** Minimal chat-completion contract used by every pipeline step */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /** Returns the raw text content of the first choice ("" when empty) */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+export const DEFAULT_MODEL = "gpt-4o-mini";
+
+function env(name: string): string | undefined {
+  const v = process.env[name];
+  return v && v.trim() !== "" ? v.trim() : undefined;
+}
+
+function getProviderName(): LLMProviderName {
+  const name = (env("LLM_PROVIDER") ?? "openai").toLowerCase();
+  if (name === "openai" || name === "azure" || name === "local" || name === "fake") {
+    return name;
+  }
+  throw new Error(
+    `Unknown LLM_PROVIDER "${name}". Use one of: openai, azure, local, fake.`
+  );
+}
+
+// =============================================================================
+// OpenAI-compatible providers
+// =============================================================================
+
+/**
+ * Wraps any OpenAI SDK client (OpenAI, AzureOpenAI, or a client pointed at a
+ * compatible base URL) behind the provider interface.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    private readonly client: OpenAI,
+    public readonly model: string = DEFAULT_MODEL,
+    public readonly name: LLMProviderName = "openai",
+    private readonly supportsJsonMode: boolean = true
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const params = {
+      model: this.model,
+      ...(request.json && this.supportsJsonMode
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+
+    // Retries are handled by the pipeline (see ./retry), not the SDK
+    const options = { signal: request.signal, maxRetries: 0 };
+
+    if (request.onToken) {
+      const stream = await this.client.chat.completions.create(
+        { ...params, stream: true },
+        options
+      );
+      let content = "";
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          request.onToken(delta);
+        }
+      }
+      return content.trim();
+    }
+
+    const completion = await this.client.chat.completions.create(params, options);
+
+    return completion.choices[0]?.message?.content?.trim() ?? "";
+  }
+}
+
+function createAzureProvider(): LLMProvider {
+  const endpoint = env("AZURE_OPENAI_ENDPOINT");
+  const apiKey = env("AZURE_OPENAI_API_KEY");
+  const deployment = env("AZURE_OPENAI_DEPLOYMENT");
+  if (!endpoint || !apiKey || !deployment) {
+    throw new Error(
+      "Azure OpenAI requires AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY and AZURE_OPENAI_DEPLOYMENT."
+    );
+  }
+  const client = new AzureOpenAI({
+    endpoint,
+    apiKey,
+    deployment,
+    apiVersion: env("AZURE_OPENAI_API_VERSION") ?? "2024-10-21",
+  });
+  return new OpenAICompatibleProvider(client, deployment, "azure");
+}
+
+function createLocalProvider(): LLMProvider {
+  const baseURL = env("LLM_BASE_URL");
+  if (!baseURL) {
+    throw new Error(
+      "Local LLM requires LLM_BASE_URL (e.g. http://localhost:11434/v1 for Ollama)."
+    );
+  }
+  const client = new OpenAI({
+    baseURL,
+    // Most local servers ignore the key, but the SDK requires one
+    apiKey: env("LLM_API_KEY") ?? "local",
+  });
+  return new OpenAICompatibleProvider(
+    client,
+    env("LLM_MODEL") ?? "llama3.1",
+    "local",
+    env("LLM_JSON_MODE") !== "false"
+  );
+}
+
+// =============================================================================
+// Fake provider
+// =============================================================================
+
+/**
+ * Deterministic offline provider for tests and air-gapped environments.
+ * By default echoes the user payload for text steps and returns "{}" for
+ * JSON steps; pass a responder to script specific outputs.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake" as const;
+  readonly calls: CompletionRequest[] = [];
+
+  constructor(
+    private readonly respond: (request: CompletionRequest) => string = defaultFakeResponse,
+    public readonly model: string = "fake-model"
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.calls.push(request);
+    const content = this.respond(request).trim();
+    // Stream word by word so callers exercise the same path as real providers
+    content.split(/(?<=\s)/).forEach((delta) => request.onToken?.(delta));
+    return content;
+  }
+}
+
+function defaultFakeResponse(request: CompletionRequest): string {
+  if (request.json) return "{}";
+  const user = [...request.messages].reverse().find((m) => m.role === "user");
+  const content = user?.content ?? "";
+  // Pipeline user messages are "<instruction>:\n\n<payload>"
+  const split = content.indexOf("\n\n");
+  return split === -1 ? content : content.slice(split + 2);
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * Get the configured singleton LLM provider.
+ * Throws if the selected provider is missing required configuration.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (providerInstance) {
+    return providerInstance;
+  }
+
+  switch (getProviderName()) {
+    case "azure":
+      providerInstance = createAzureProvider();
+      break;
+    case "local":
+      providerInstance = createLocalProvider();
+      break;
+    case "fake":
+      providerInstance = new FakeLLMProvider();
+      break;
+    default:
+      providerInstance = new OpenAICompatibleProvider(
+        getOpenAIClient(),
+        env("LLM_MODEL") ?? DEFAULT_MODEL
+      );
+  }
+  return providerInstance;
+}
+
+/**
+ * Check if the configured LLM provider has what it needs to run.
+ * Use this for graceful degradation in route handlers.
+ */
+export function isLLMConfigured(): boolean {
+  let name: LLMProviderName;
+  try {
+    name = getProviderName();
+  } catch {
+    return false;
+  }
+  switch (name) {
+    case "azure":
+      return (
+        !!env("AZURE_OPENAI_ENDPOINT") &&
+        !!env("AZURE_OPENAI_API_KEY") &&
+        !!env("AZURE_OPENAI_DEPLOYMENT")
+      );
+    case "local":
+      return !!env("LLM_BASE_URL");
+    case "fake":
+      return true;
+    default:
+      return !!env("OPENAI_API_KEY");
+  }
+}
+
+/**
+ * Normalize the optional `client` argument accepted by pipeline functions.
+ * Providers pass through; an OpenAI SDK client (or anything shaped like one)
+ * is wrapped with the configured model.
+ */
+export function resolveLLMProvider(client?: LLMProvider | OpenAI): LLMProvider {
+  if (!client) return getLLMProvider();
+  if (isLLMProvider(client)) return client;
+  return new OpenAICompatibleProvider(client, env("LLM_MODEL") ?? DEFAULT_MODEL);
+}
+
+function isLLMProvider(v: LLMProvider | OpenAI): v is LLMProvider {
+  return typeof (v as Partial<LLMProvider>).complete === "function";
+}
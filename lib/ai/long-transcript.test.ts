@@ -0,0 +1,133 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { mergeStructuredParts, offsetEvidence, splitTranscript } from "./long-transcript";
+import type { StructuredVisitData } from "./pipeline";
+
+describe("splitTranscript", () => {
+  it("returns a transcript that fits as one part", () => {
+    expect(splitTranscript("  Short visit.  ")).toEqual([{ text: "Short visit.", start: 2 }]);
+  });
+
+  it("cuts between speaker turns before sentences", () => {
+    const text = [
+      "Caregiver: Checked her blood pressure. It was fine.",
+      "Patient: I felt dizzy this morning.",
+      "Caregiver: Helped with lunch.",
+    ].join("\n");
+    const parts = splitTranscript(text, 60);
+    expect(parts.map((p) => p.text)).toEqual(text.split("\n"));
+  });
+
+  it("falls back to sentences, then words, for long turns", () => {
+    const parts = splitTranscript("One two three. Four five six seven eight nine ten.", 20);
+    expect(parts.map((p) => p.text)).toEqual(["One two three.", "Four five six seven", "eight nine ten."]);
+  });
+
+  it("keeps every part within the limit and at its offset", () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom("word", "longer", "turn.", "\n", " ", "Patient:"), {
+          maxLength: 200,
+        }),
+        fc.integer({ min: 10, max: 80 }),
+        (tokens, maxChars) => {
+          const text = tokens.join(" ");
+          for (const part of splitTranscript(text, maxChars)) {
+            expect(part.text.length).toBeLessThanOrEqual(maxChars);
+            expect(text.slice(part.start, part.start + part.text.length)).toBe(part.text);
+          }
+        }
+      )
+    );
+  });
+});
+
+describe("offsetEvidence", () => {
+  it("shifts every span", () => {
+    expect(
+      offsetEvidence({ concerns: [[{ start: 0, end: 5 }], []] }, 100)
+    ).toEqual({ concerns: [[{ start: 100, end: 105 }], []] });
+  });
+});
+
+describe("mergeStructuredParts", () => {
+  const part = (data: Partial<StructuredVisitData>): StructuredVisitData => ({
+    visit_summary: "",
+    key_observations: [],
+    activities_completed: [],
+    medication_notes: [],
+    concerns: [],
+    suggested_followups: [],
+    care_level_indicator: "stable",
+    vitals: {},
+    ...data,
+  });
+
+  it("keeps repeated findings once, with evidence from each mention", () => {
+    const merged = mergeStructuredParts([
+      part({
+        concerns: ["Patient was dizzy when standing"],
+        evidence: { concerns: [[{ start: 10, end: 40 }]] },
+      }),
+      part({
+        concerns: ["patient was dizzy when  standing.", "Ankles swollen"],
+        evidence: { concerns: [[{ start: 900, end: 930 }], [{ start: 950, end: 964 }]] },
+      }),
+    ]);
+    expect(merged.concerns).toEqual(["Patient was dizzy when standing", "Ankles swollen"]);
+    expect(merged.evidence?.concerns).toEqual([
+      [
+        { start: 10, end: 40 },
+        { start: 900, end: 930 },
+      ],
+      [{ start: 950, end: 964 }],
+    ]);
+  });
+
+  it("keeps reworded findings apart, since they may differ in a detail", () => {
+    const merged = mergeStructuredParts([
+      part({ concerns: ["Mild knee pain"] }),
+      part({ concerns: ["Severe knee pain", "Knee pain"] }),
+    ]);
+    expect(merged.concerns).toEqual(["Mild knee pain", "Severe knee pain", "Knee pain"]);
+  });
+
+  it("takes the most severe care level and the summary of the part that set it", () => {
+    const merged = mergeStructuredParts([
+      part({ visit_summary: "Routine morning.", care_level_indicator: "stable" }),
+      part({ visit_summary: "Fell in the bathroom.", care_level_indicator: "attention_needed" }),
+      part({ visit_summary: "Quiet afternoon.", care_level_indicator: "watch" }),
+    ]);
+    expect(merged.care_level_indicator).toBe("attention_needed");
+    expect(merged.visit_summary).toBe("Fell in the bathroom.");
+  });
+
+  it("keeps the latest reading of each vital among normal ones", () => {
+    const merged = mergeStructuredParts([
+      part({ vitals: { heart_rate: { value: 88, unit: "bpm" }, spo2: { value: 95, unit: "%" } } }),
+      part({ vitals: { heart_rate: { value: 72, unit: "bpm" } } }),
+    ]);
+    expect(merged.vitals).toEqual({
+      heart_rate: { value: 72, unit: "bpm" },
+      spo2: { value: 95, unit: "%" },
+    });
+  });
+
+  it("keeps an abnormal reading over a normal recheck", () => {
+    const merged = mergeStructuredParts([
+      part({ vitals: { spo2: { value: 86, unit: "%" }, heart_rate: { value: 72, unit: "bpm" } } }),
+      part({ vitals: { spo2: { value: 96, unit: "%" }, heart_rate: { value: 135, unit: "bpm" } } }),
+    ]);
+    expect(merged.vitals).toEqual({
+      spo2: { value: 86, unit: "%" },
+      heart_rate: { value: 135, unit: "bpm" },
+    });
+  });
+
+  it("leaves patient_reported out when no part has it", () => {
+    expect(mergeStructuredParts([part({}), part({})])).not.toHaveProperty("patient_reported");
+    expect(
+      mergeStructuredParts([part({}), part({ patient_reported: ["Knee is sore"] })]).patient_reported
+    ).toEqual(["Knee is sore"]);
+  });
+});
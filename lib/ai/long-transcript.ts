@@ -0,0 +1,194 @@
+/**
+ * Map-reduce over long visit transcripts.
+ * One clean or structure call returns at most 1000 tokens, which a full
+ * end-of-shift recording outgrows. Long transcripts are split on speaker
+ * turns (then sentences) into parts that fit, each part is cleaned and
+ * structured on its own, and the structured parts are merged back into one
+ * visit. Deterministic logic only; the model calls, including the one that
+ * summarizes the part summaries, live in the pipeline.
+ */
+
+import { EVIDENCE_FIELDS, mergeSpans } from "@/lib/evidence";
+import { assessVitals, type VitalKey } from "@/lib/vitals";
+import type { EvidenceSpan, StructuredEvidence, VitalSigns } from "@/types/patient";
+import type { StructuredVisitData } from "./pipeline";
+
+type CareLevel = NonNullable<StructuredVisitData["care_level_indicator"]>;
+
+/** Longest part sent to one clean or structure call (~750 tokens) */
+export const TRANSCRIPT_PART_CHARS = 3000;
+
+/** Part of a transcript; `start` is its offset in the whole transcript */
+export interface TranscriptPart {
+  text: string;
+  start: number;
+}
+
+/** Preferred cut points, coarsest first: speaker turns, sentences, words */
+const BOUNDARIES = [/\n/g, /[.!?]\s+/g, /\s+/g];
+
+const LIST_FIELDS = [
+  "key_observations",
+  "patient_reported",
+  "activities_completed",
+  "medication_notes",
+  "concerns",
+  "suggested_followups",
+] as const;
+
+const CARE_LEVEL_RANK: Record<CareLevel, number> = {
+  stable: 0,
+  watch: 1,
+  attention_needed: 2,
+};
+
+const ALERT_RANK = { none: 0, medium: 1, high: 2 } as const;
+
+// =============================================================================
+// Split
+// =============================================================================
+
+/** [start, end) ranges of text, each at most maxChars unless unbreakable */
+function splitRange(
+  text: string,
+  start: number,
+  end: number,
+  maxChars: number,
+  level = 0
+): [number, number][] {
+  if (end - start <= maxChars || level === BOUNDARIES.length) return [[start, end]];
+
+  const cuts = [start];
+  const pattern = new RegExp(BOUNDARIES[level].source, "g");
+  pattern.lastIndex = start;
+  for (let m = pattern.exec(text); m && m.index < end; m = pattern.exec(text)) {
+    const cut = m.index + m[0].length;
+    if (cut < end) cuts.push(cut);
+  }
+  cuts.push(end);
+
+  // Units too long on their own are split at the next finer boundary
+  const units: [number, number][] = [];
+  for (let i = 0; i + 1 < cuts.length; i++) {
+    units.push(...splitRange(text, cuts[i], cuts[i + 1], maxChars, level + 1));
+  }
+
+  const ranges: [number, number][] = [];
+  for (const [from, to] of units) {
+    const last = ranges[ranges.length - 1];
+    if (last && to - last[0] <= maxChars) last[1] = to;
+    else ranges.push([from, to]);
+  }
+  return ranges;
+}
+
+/**
+ * Splits a transcript into parts of at most `maxChars`, cutting between
+ * speaker turns where possible so each "Patient:" line stays whole. A
+ * transcript that fits comes back as a single part.
+ */
+export function splitTranscript(
+  text: string,
+  maxChars: number = TRANSCRIPT_PART_CHARS
+): TranscriptPart[] {
+  const parts: TranscriptPart[] = [];
+  for (const [from, to] of splitRange(text, 0, text.length, maxChars)) {
+    const raw = text.slice(from, to);
+    const trimmed = raw.trim();
+    if (trimmed) parts.push({ text: trimmed, start: from + raw.indexOf(trimmed) });
+  }
+  return parts;
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+/** Moves evidence spans found in a part onto the whole transcript */
+export function offsetEvidence(evidence: StructuredEvidence, by: number): StructuredEvidence {
+  const shifted: StructuredEvidence = {};
+  for (const field of EVIDENCE_FIELDS) {
+    const perItem = evidence[field];
+    if (!perItem) continue;
+    shifted[field] = perItem.map((spans) =>
+      spans.map((s) => ({ start: s.start + by, end: s.end + by }))
+    );
+  }
+  return shifted;
+}
+
+/**
+ * One reading per vital: the most abnormal, so a normal recheck later in the
+ * visit cannot hide an out-of-range reading; the latest among equals.
+ */
+function mergeVitals(parts: StructuredVisitData[]): VitalSigns {
+  const vitals: VitalSigns = {};
+  const kept: Partial<Record<VitalKey, number>> = {};
+  for (const part of parts) {
+    const alerts = assessVitals(part.vitals);
+    for (const key of Object.keys(part.vitals ?? {}) as VitalKey[]) {
+      const rank = ALERT_RANK[alerts.find((a) => a.vital === key)?.severity ?? "none"];
+      if (rank >= (kept[key] ?? 0)) {
+        Object.assign(vitals, { [key]: part.vitals?.[key] });
+        kept[key] = rank;
+      }
+    }
+  }
+  return vitals;
+}
+
+/** Case, spacing and trailing punctuation do not make two items different */
+function normalizeItem(item: string): string {
+  return item.toLowerCase().replace(/\s+/g, " ").replace(/[\s.,;:!?]+$/, "").trim();
+}
+
+/**
+ * Merges structured parts of one visit, in transcript order. List items that
+ * repeat word for word across parts (the caregiver restating a concern at the
+ * end of the visit) are kept once, with evidence from every mention; reworded
+ * items are all kept, since a near match may differ in a detail that matters.
+ * The most severe care level wins. The summary is the one from the part that
+ * set it, for the pipeline to replace with a summary of every part.
+ */
+export function mergeStructuredParts(parts: StructuredVisitData[]): StructuredVisitData {
+  const merged: StructuredVisitData = {
+    visit_summary: "",
+    care_level_indicator: "stable",
+    vitals: mergeVitals(parts),
+  };
+  const evidence: StructuredEvidence = {};
+
+  for (const field of LIST_FIELDS) {
+    // Earlier prompt versions do not separate patient-reported symptoms
+    if (parts.every((p) => p[field] === undefined)) continue;
+    const items: string[] = [];
+    const keys: string[] = [];
+    const spans: EvidenceSpan[][] = [];
+    for (const part of parts) {
+      const partSpans = field === "suggested_followups" ? undefined : part.evidence?.[field];
+      (part[field] ?? []).forEach((item, i) => {
+        const existing = keys.indexOf(normalizeItem(item));
+        if (existing === -1) {
+          items.push(item);
+          keys.push(normalizeItem(item));
+          spans.push(partSpans?.[i] ?? []);
+        } else {
+          spans[existing] = mergeSpans([...spans[existing], ...(partSpans?.[i] ?? [])]);
+        }
+      });
+    }
+    merged[field] = items;
+    if (field !== "suggested_followups" && items.length > 0) evidence[field] = spans;
+  }
+
+  const rankOf = (part: StructuredVisitData) =>
+    CARE_LEVEL_RANK[part.care_level_indicator ?? "stable"];
+  let lead: StructuredVisitData | undefined;
+  for (const part of parts) {
+    if (part.visit_summary && (!lead || rankOf(part) > rankOf(lead))) lead = part;
+    if (rankOf(part) > rankOf(merged)) merged.care_level_indicator = part.care_level_indicator;
+  }
+  merged.visit_summary = lead?.visit_summary ?? "";
+
+  return { ...merged, evidence };
+}
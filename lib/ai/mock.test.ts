@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { createMockLLMProvider } from "./mock";
+import { RISK_KEYWORDS } from "@/lib/insights-utils";
+
+async function mockRiskFlags(concern: string): Promise<unknown[]> {
+  const raw = await createMockLLMProvider().complete({
+    messages: [
+      {
+        role: "user",
+        content: `Analyze risks in this visit:\n\n${JSON.stringify({ concerns: [concern] })}`,
+      },
+    ],
+    maxTokens: 500,
+    temperature: 0,
+    json: true,
+  });
+  return (JSON.parse(raw) as { risk_flags: unknown[] }).risk_flags;
+}
+
+describe("mock risk rules", () => {
+  // The dashboard highlights RISK_KEYWORDS; mock mode should flag each of them
+  it.each(RISK_KEYWORDS)("flags a concern mentioning %s", async (keyword) => {
+    expect(await mockRiskFlags(`Client mentioned ${keyword} this morning.`)).not.toHaveLength(0);
+  });
+
+  it("does not flag a negated concern", async () => {
+    expect(await mockRiskFlags("No pain reported today.")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * Offline mock mode - server-side only
+ *
+ * Enabled with AI_MOCK_MODE=true. /api/transcribe returns canned fixture
+ * transcripts and /api/analyze runs the real pipeline against a keyword-driven
+ * fake provider, so the record → insights flow works with no network or key.
+ * Output is fully deterministic for a given input.
+ */
+
+import { FakeLLMProvider, type CompletionRequest } from "./llm";
+import type { TranscriptionProvider } from "./transcription";
+import type { VitalAlert } from "@/lib/vitals";
+import { SPEAKER_LINE, type DiarizedSegment } from "@/lib/transcript-segments";
+import type { MedicationFinding, RiskCategory } from "@/types/patient";
+import MOCK_TRANSCRIPTS from "./fixtures/mock-transcripts.json";
+
+// =============================================================================
+// Config
+// =============================================================================
+
+/** True when AI_MOCK_MODE is "true" or "1" */
+export function isMockMode(): boolean {
+  const v = process.env.AI_MOCK_MODE?.trim().toLowerCase();
+  return v === "true" || v === "1";
+}
+
+// =============================================================================
+// Transcription
+// =============================================================================
+
+/**
+ * Returns a canned transcript for an uploaded recording.
+ * The fixture is chosen by file size so the same recording always maps to
+ * the same transcript.
+ */
+export function getMockTranscription(file: Blob): string {
+  return MOCK_TRANSCRIPTS[file.size % MOCK_TRANSCRIPTS.length];
+}
+
+/** Seconds per word used to fake segment timestamps */
+const MOCK_SECONDS_PER_WORD = 0.4;
+
+/**
+ * Canned transcript as diarized segments, one per sentence. The fixtures
+ * are caregiver narration, so every segment has the same speaker.
+ */
+export function getMockDiarizedTranscription(file: Blob): DiarizedSegment[] {
+  const segments: DiarizedSegment[] = [];
+  let start = 0;
+  for (const text of splitSentences(getMockTranscription(file))) {
+    const end = start + text.split(/\s+/).length * MOCK_SECONDS_PER_WORD;
+    segments.push({ speaker: "A", start: Number(start.toFixed(1)), end: Number(end.toFixed(1)), text });
+    start = end;
+  }
+  return segments;
+}
+
+// =============================================================================
+// Keyword rules
+// =============================================================================
+
+interface RiskRule {
+  risk: string;
+  category: RiskCategory;
+  severity: "low" | "medium" | "high";
+  pattern: RegExp;
+  followup: string;
+}
+
+/** Maps RISK_KEYWORDS (plus a few reported-event phrases) to risk categories */
+const RISK_RULES: RiskRule[] = [
+  {
+    risk: "Fall risk",
+    category: "fall",
+    severity: "high",
+    pattern: /\b(fell|had a fall|falls?)\b/i,
+    followup: "Review fall prevention measures and notify the care team of the fall.",
+  },
+  {
+    risk: "Fall risk",
+    category: "fall",
+    severity: "medium",
+    pattern: /\b(dizzy|dizziness|unsteady|unsteadiness)\b/i,
+    followup: "Check orthostatic blood pressure and supervise transfers.",
+  },
+  {
+    risk: "Cognitive change",
+    category: "cognition",
+    severity: "medium",
+    pattern: /\b(confusion|confused)\b/i,
+    followup: "Monitor orientation and report new confusion to the nurse.",
+  },
+  {
+    risk: "Swelling",
+    category: "edema",
+    severity: "medium",
+    pattern: /\b(swelling|swollen)\b/i,
+    followup: "Monitor swelling and elevate legs when seated.",
+  },
+  {
+    risk: "Pain",
+    category: "pain",
+    severity: "low",
+    pattern: /\b(pain|sore)\b/i,
+    followup: "Track pain level and timing at the next visit.",
+  },
+  {
+    risk: "Medication adherence",
+    category: "medication",
+    severity: "medium",
+    pattern: /\bmissed\b.*\b(med|meds|medications?|pills?|doses?)\b/i,
+    followup: "Confirm medication schedule and consider a reminder aid.",
+  },
+  {
+    risk: "Hydration",
+    category: "hydration_nutrition",
+    severity: "low",
+    pattern: /\b(drank|drinking) (very )?little\b/i,
+    followup: "Encourage fluids and track intake.",
+  },
+];
+
+// Negation cue in the same clause, not reset by "but" ("no injuries but sore hip")
+const NEGATION = /\b(no|not|denies|denied|without|never)\b(?:(?!\bbut\b)[^.,;])*$/i;
+const MEDICATION =
+  /\b(med|meds|medications?|pills?|doses?|blister|took|taken|missed)\b|\d\s*(mg|mcg|units?)\b/i;
+const ACTIVITY = /\b(helped|did|walked|exercises?|showered?|bathed?|dressed)\b/i;
+
+interface RuleMatch {
+  rule: RiskRule;
+  sentence: string;
+}
+
+function matchRules(sentence: string): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  for (const rule of RISK_RULES) {
+    const m = rule.pattern.exec(sentence);
+    if (!m) continue;
+    const before = sentence.slice(0, m.index);
+    if (NEGATION.test(before)) continue;
+    matches.push({ rule, sentence });
+  }
+  return matches;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<!\b(?:Mr|Mrs|Ms|Dr)\.)(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// =============================================================================
+// Step responders
+// =============================================================================
+
+/** Cleans each speaker turn separately, keeping its label */
+function mockClean(raw: string): string {
+  return raw
+    .split("\n")
+    .map((line) => {
+      const label = SPEAKER_LINE.exec(line)?.[0] ?? "";
+      const text = mockCleanText(line.slice(label.length));
+      return label ? `${label.trim()} ${text}` : text;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function mockCleanText(raw: string): string {
+  return raw
+    .replace(/(,\s*)?\b(um+|uh+|you know|basically)\b,?\s*/gi, " ")
+    .replace(/\s{2,}/g, " ")
+    .trim()
+    .replace(/(^|[.!?]\s+)so,?\s+/gi, "$1")
+    .replace(/\bblood pleasure\b/gi, "blood pressure")
+    .replace(/\bmorning mats\b/gi, "morning meds")
+    .replace(/\bsugar normal\b/gi, "blood glucose normal")
+    .replace(/\s+,/g, ",")
+    .replace(/\s{2,}/g, " ")
+    .replace(/(^|[.!?]\s+)([a-z])/g, (_, p: string, c: string) => p + c.toUpperCase())
+    .trim();
+}
+
+const VITAL_PATTERNS: [string, RegExp][] = [
+  ["blood_pressure", /\b(?:blood pressure|bp)\b[^.]*?(\d{2,3}\s*(?:\/|over)\s*\d{2,3})/i],
+  ["heart_rate", /\b(?:heart rate|pulse)\b[^.\d]*(\d{2,3})/i],
+  ["temperature", /\b(?:temperature|temp)\b[^.\d]*(\d{2,3}(?:\.\d)?\s*(?:°?\s*[fc]\b)?)/i],
+  ["spo2", /\b(?:oxygen|o2|sats?|spo2)\b[^.\d]*(\d{2,3})\s*%?/i],
+  ["glucose", /\b(?:blood glucose|glucose|sugar)\b[^.\d]*(\d{2,3}(?:\.\d)?)/i],
+  ["weight", /\b(?:weight|weighs|weighed)\b[^.\d]*(\d{2,3}(?:\.\d)?\s*(?:lbs?|pounds|kg)?)/i],
+  ["pain_score", /\bpain\b[^.]*?(\d{1,2})\s*(?:\/|out of)\s*10/i],
+];
+
+function mockExtractVitals(text: string): Record<string, string> {
+  const raw: Record<string, string> = {};
+  for (const [key, pattern] of VITAL_PATTERNS) {
+    const m = pattern.exec(text);
+    if (m) raw[key] = m[1];
+  }
+  return raw;
+}
+
+/** Sentences of a cleaned transcript, flagged when on a "Patient:" line */
+function speakerSentences(cleaned: string): { sentence: string; fromPatient: boolean }[] {
+  return cleaned.split("\n").flatMap((line) => {
+    const label = SPEAKER_LINE.exec(line);
+    const fromPatient = label?.[1] === "Patient";
+    return splitSentences(line.slice(label?.[0].length ?? 0)).map((sentence) => ({
+      sentence,
+      fromPatient,
+    }));
+  });
+}
+
+function mockStructure(cleaned: string): string {
+  const key_observations: string[] = [];
+  const patient_reported: string[] = [];
+  const activities_completed: string[] = [];
+  const medication_notes: string[] = [];
+  const concerns: string[] = [];
+  const followups = new Set<string>();
+  let hasHighSeverity = false;
+
+  for (const { sentence, fromPatient } of speakerSentences(cleaned)) {
+    const matches = matchRules(sentence);
+    for (const { rule } of matches) {
+      followups.add(rule.followup);
+      if (rule.severity === "high") hasHighSeverity = true;
+    }
+
+    // The patient's own words are reported, never observed
+    if (fromPatient) patient_reported.push(sentence);
+    if (matches.length > 0) concerns.push(sentence);
+    else if (fromPatient) {
+      if (MEDICATION.test(sentence)) medication_notes.push(sentence);
+    } else if (MEDICATION.test(sentence)) medication_notes.push(sentence);
+    else if (ACTIVITY.test(sentence)) activities_completed.push(sentence);
+    else key_observations.push(sentence);
+
+    if (matches.length > 0 && MEDICATION.test(sentence)) medication_notes.push(sentence);
+  }
+
+  const visit_summary =
+    concerns.length > 0
+      ? `${concerns[0].replace(/\.+$/, "")}; monitoring suggested.`
+      : key_observations[0] ?? "Routine visit with no concerns noted.";
+
+  return JSON.stringify({
+    visit_summary,
+    key_observations,
+    patient_reported,
+    activities_completed,
+    medication_notes,
+    concerns,
+    suggested_followups: Array.from(followups),
+    vitals: mockExtractVitals(cleaned),
+    // Items are transcript sentences, so each one is its own evidence
+    evidence: {
+      key_observations: key_observations.map((s) => [s]),
+      patient_reported: patient_reported.map((s) => [s]),
+      activities_completed: activities_completed.map((s) => [s]),
+      medication_notes: medication_notes.map((s) => [s]),
+      concerns: concerns.map((s) => [s]),
+    },
+    care_level_indicator:
+      hasHighSeverity
+        ? "attention_needed"
+        : concerns.length > 0
+          ? "watch"
+          : "stable",
+  });
+}
+
+function mockAnalyzeRisks(structuredJson: string): string {
+  let data: Record<string, unknown> = {};
+  try {
+    data = JSON.parse(structuredJson) as Record<string, unknown>;
+  } catch {
+    // fall through with no data
+  }
+  const items = ["concerns", "key_observations", "patient_reported", "medication_notes"].flatMap(
+    (k) => (Array.isArray(data[k]) ? (data[k] as unknown[]) : [])
+  ).filter((x): x is string => typeof x === "string");
+
+  const transcript = typeof data.cleaned_transcript === "string" ? data.cleaned_transcript : "";
+  const byRisk = new Map<
+    string,
+    {
+      risk: string;
+      category: RiskCategory;
+      severity: RiskRule["severity"];
+      reason: string;
+      evidence: string[];
+    }
+  >();
+  const rank = { low: 0, medium: 1, high: 2 };
+
+  for (const item of items) {
+    for (const { rule, sentence } of matchRules(item)) {
+      const existing = byRisk.get(rule.risk);
+      if (
+        !existing ||
+        rank[rule.severity] > rank[existing.severity]
+      ) {
+        byRisk.set(rule.risk, {
+          risk: rule.risk,
+          category: rule.category,
+          severity: rule.severity,
+          reason: `Observed: ${sentence.replace(/\.+$/, "")}.`,
+          evidence: [...(existing?.evidence ?? []), sentence],
+        });
+      } else if (!existing.evidence.includes(sentence)) {
+        existing.evidence.push(sentence);
+      }
+    }
+  }
+
+  const vitalAlerts = Array.isArray(data.vital_alerts) ? data.vital_alerts : [];
+  for (const a of vitalAlerts as Partial<VitalAlert>[]) {
+    if (!a.label || !a.severity) continue;
+    const pattern = VITAL_PATTERNS.find(([key]) => key === a.vital)?.[1];
+    const quote = pattern?.exec(transcript)?.[0];
+    byRisk.set(`vital:${a.label}`, {
+      risk: `${a.label} ${a.status === "high" ? "elevated" : "low"}`,
+      category: a.vital === "pain_score" ? "pain" : "vital_signs",
+      severity: a.severity,
+      reason: `Observed: ${a.label} ${a.reading} is ${a.status} for adult reference range.`,
+      evidence: quote ? [quote] : [],
+    });
+  }
+
+  return JSON.stringify({ risk_flags: Array.from(byRisk.values()) });
+}
+
+const MISSED_DOSE = /\b(missed|skipped|forgot|didn't take|did not take|refused)\b/i;
+const DOSED_DRUG = /\b([A-Za-z][A-Za-z-]{3,})\s+(\d+(?:\.\d+)?\s*(?:mg|mcg|units?|ml))\b/gi;
+
+function normalizeDose(dose: string): string {
+  return dose.toLowerCase().replace(/\s+/g, "").replace(/units?$/, "u");
+}
+
+function mentions(text: string, name: string): boolean {
+  const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`, "i").test(text);
+}
+
+function mockReconcile(payload: string): string {
+  let data: { medication_list?: { name?: string; dose?: string }[]; medication_notes?: unknown[] } = {};
+  try {
+    data = JSON.parse(payload) as typeof data;
+  } catch {
+    // fall through with no data
+  }
+  const list = (data.medication_list ?? []).filter(
+    (m): m is { name: string; dose?: string } => typeof m.name === "string" && m.name.trim() !== ""
+  );
+  const notes = (data.medication_notes ?? []).filter((n): n is string => typeof n === "string");
+  const findings: MedicationFinding[] = [];
+  const seen = new Set<string>();
+  const add = (type: MedicationFinding["type"], medication: string, detail: string) => {
+    const key = `${type}:${medication.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    findings.push({ type, medication, detail, severity: "medium" });
+  };
+
+  for (const note of notes) {
+    const sentence = note.replace(/\.+$/, "");
+    for (const med of list) {
+      if (!mentions(note, med.name)) continue;
+      if (MISSED_DOSE.test(note)) {
+        add("missed_dose", med.name, `Observed: ${sentence}.`);
+      }
+    }
+    for (const m of Array.from(note.matchAll(DOSED_DRUG))) {
+      const listed = list.find((med) => med.name.toLowerCase() === m[1].toLowerCase());
+      if (!listed) {
+        add("unknown_medication", m[1], `Observed: ${sentence}. Not on the medication list.`);
+      } else if (listed.dose && normalizeDose(listed.dose) !== normalizeDose(m[2])) {
+        add("discrepancy", listed.name, `Listed as ${listed.dose}; visit notes mention ${m[2]}.`);
+      }
+    }
+    if (MISSED_DOSE.test(note) && !list.some((med) => mentions(note, med.name))) {
+      // Missed dose with no named medication: attribute to the list as a whole
+      add("missed_dose", "Unspecified medication", `Observed: ${sentence}.`);
+    }
+  }
+
+  return JSON.stringify({ findings });
+}
+
+/** Keeps each distinct part summary, in order */
+function mockSummarize(payload: string): string {
+  const summaries = payload
+    .split("\n")
+    .map((line) => line.replace(/^Part \d+:\s*/, "").trim())
+    .filter(Boolean);
+  return Array.from(new Set(summaries)).join(" ");
+}
+
+function mockRespond(request: CompletionRequest): string {
+  const user = [...request.messages].reverse().find((m) => m.role === "user");
+  const content = user?.content ?? "";
+  const split = content.indexOf("\n\n");
+  const instruction = split === -1 ? content : content.slice(0, split);
+  const payload = split === -1 ? "" : content.slice(split + 2);
+
+  if (/^Clean/i.test(instruction)) return mockClean(payload);
+  if (/^Structure/i.test(instruction)) return mockStructure(payload);
+  if (/^Analyze risks/i.test(instruction)) return mockAnalyzeRisks(payload);
+  if (/^Reconcile/i.test(instruction)) return mockReconcile(payload);
+  if (/^Summarize/i.test(instruction)) return mockSummarize(payload);
+  return request.json ? "{}" : payload;
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+/**
+ * Create the keyword-driven mock provider used by /api/analyze in mock mode.
+ * A fresh instance per request keeps the recorded call log bounded.
+ */
+export function createMockLLMProvider(): FakeLLMProvider {
+  return new FakeLLMProvider(mockRespond, "mock-keyword-v1");
+}
+
+/** Transcription provider used by /api/transcribe in mock mode; never chunks */
+export function createMockTranscriptionProvider(): TranscriptionProvider {
+  return {
+    name: "mock",
+    model: "mock-fixtures-v1",
+    maxFileSize: Infinity,
+    maxConcurrency: 1,
+    transcribe: async (file) => {
+      const segments = getMockDiarizedTranscription(file);
+      return { text: segments.map((s) => s.text).join(" "), segments };
+    },
+  };
+}
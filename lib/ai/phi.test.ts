@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createStreamReidentifier,
+  getPhiRedactionConfig,
+  PHI_CATEGORIES,
+  redactPhi,
+  reidentifyDeep,
+  reidentifyText,
+  reidentifyWithOffsets,
+  type PhiCategory,
+  type PhiRedactionConfig,
+} from "./phi";
+
+const ALL: PhiRedactionConfig = { categories: PHI_CATEGORIES };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// =============================================================================
+// Redaction
+// =============================================================================
+
+describe("redactPhi", () => {
+  it.each<[PhiCategory, string, string]>([
+    ["name", "Mrs. Thompson was tired today.", "[NAME_1] was tired today."],
+    ["name", "Her daughter Sarah Lee visited.", "Her daughter [NAME_1] visited."],
+    ["name", "He said my name is Joe.", "He said my name is [NAME_1]."],
+    ["address", "She lives at 42 Oak Street, Apt 3B now.", "She lives at [ADDRESS_1] now."],
+    ["phone", "Call the pharmacy at (555) 123-4567.", "Call the pharmacy at [PHONE_1]."],
+    ["dob", "DOB: 03/14/1941, per chart.", "DOB: [DOB_1], per chart."],
+    ["dob", "She was born on March 14, 1941.", "She was born on [DOB_1]."],
+    ["mrn", "MRN 00482913 on the binder.", "MRN [MRN_1] on the binder."],
+  ])("redacts %s: %s", (category, text, expected) => {
+    const { text: redacted, map, counts } = redactPhi(text, ALL);
+    expect(redacted).toBe(expected);
+    expect(counts[category]).toBe(1);
+    expect(reidentifyText(redacted, map)).toBe(text);
+  });
+
+  it("leaves clinical text alone", () => {
+    const text = "BP 128/82, pulse 72. Took 10 mg donepezil. MRN for her was not on file.";
+    expect(redactPhi(text, ALL).text).toBe(text);
+  });
+
+  it("redacts known names and their parts, case-sensitively", () => {
+    const config: PhiRedactionConfig = { ...ALL, knownNames: ["eleanor may rigby"] };
+    const { text } = redactPhi("Eleanor May Rigby ate. Rigby may nap; May too.", config);
+    expect(text).toBe("[NAME_1] ate. [NAME_2] may nap; [NAME_3] too.");
+  });
+
+  it("reuses one token per value", () => {
+    const { text, map } = redactPhi("Mrs. Thompson ate. Later Mrs. Thompson slept.", ALL);
+    expect(text).toBe("[NAME_1] ate. Later [NAME_1] slept.");
+    expect(map.size).toBe(1);
+  });
+
+  it("only redacts the configured categories", () => {
+    const { text } = redactPhi("Mrs. Thompson, 555-123-4567", { categories: ["phone"] });
+    expect(text).toBe("Mrs. Thompson, [PHONE_1]");
+  });
+});
+
+describe("getPhiRedactionConfig", () => {
+  it("is on for every category by default", () => {
+    vi.stubEnv("PHI_REDACTION", "");
+    vi.stubEnv("PHI_REDACTION_CATEGORIES", "");
+    expect(getPhiRedactionConfig()).toEqual({ categories: PHI_CATEGORIES });
+  });
+
+  it("can be disabled or narrowed", () => {
+    vi.stubEnv("PHI_REDACTION", "off");
+    expect(getPhiRedactionConfig()).toBeNull();
+
+    vi.stubEnv("PHI_REDACTION", "true");
+    vi.stubEnv("PHI_REDACTION_CATEGORIES", " Phone, mrn, bogus ");
+    expect(getPhiRedactionConfig()).toEqual({ categories: ["phone", "mrn"] });
+  });
+});
+
+// =============================================================================
+// Re-identification
+// =============================================================================
+
+describe("reidentifyWithOffsets", () => {
+  const map = new Map([
+    ["[NAME_1]", "Eleanor Rigby"],
+    ["[PHONE_1]", "555-0100"],
+  ]);
+  const tokenized = "[NAME_1] fell. Call [PHONE_1] if dizzy.";
+
+  it("shifts spans after tokens by each value's length difference", () => {
+    const { text, mapSpan } = reidentifyWithOffsets(tokenized, map);
+    expect(text).toBe("Eleanor Rigby fell. Call 555-0100 if dizzy.");
+
+    const fell = { start: tokenized.indexOf("fell"), end: tokenized.indexOf("fell") + 4 };
+    expect(text.slice(mapSpan(fell).start, mapSpan(fell).end)).toBe("fell");
+
+    const dizzy = { start: tokenized.indexOf("dizzy"), end: tokenized.indexOf("dizzy") + 5 };
+    expect(text.slice(mapSpan(dizzy).start, mapSpan(dizzy).end)).toBe("dizzy");
+  });
+
+  it("widens spans that start or end inside a token to the whole value", () => {
+    const { text, mapSpan } = reidentifyWithOffsets(tokenized, map);
+    const span = mapSpan({ start: 3, end: tokenized.indexOf(" fell") });
+    expect(text.slice(span.start, span.end)).toBe("Eleanor Rigby");
+
+    const call = mapSpan({ start: tokenized.indexOf("Call"), end: tokenized.indexOf("_1] if") });
+    expect(text.slice(call.start, call.end)).toBe("Call 555-0100");
+  });
+
+  it("keeps unknown tokens and their offsets", () => {
+    const { text, mapSpan } = reidentifyWithOffsets("[NAME_9] ate", map);
+    expect(text).toBe("[NAME_9] ate");
+    expect(mapSpan({ start: 9, end: 12 })).toEqual({ start: 9, end: 12 });
+  });
+});
+
+describe("reidentifyDeep", () => {
+  it("restores tokens in nested values, including unbracketed ones", () => {
+    const map = new Map([["[NAME_1]", "Eleanor"]]);
+    expect(
+      reidentifyDeep({ summary: "NAME_1 rested.", flags: [{ reason: "[NAME_1] fell" }], n: 2 }, map)
+    ).toEqual({ summary: "Eleanor rested.", flags: [{ reason: "Eleanor fell" }], n: 2 });
+  });
+});
+
+describe("createStreamReidentifier", () => {
+  const map = new Map([["[NAME_1]", "Eleanor Rigby"]]);
+
+  function stream(deltas: string[]): string[] {
+    const reidentifier = createStreamReidentifier(map);
+    return [...deltas.map((d) => reidentifier.push(d)), reidentifier.flush()];
+  }
+
+  it("holds back a token split across deltas until it is complete", () => {
+    expect(stream(["Spoke with [NA", "ME_", "1] today."])).toEqual([
+      "Spoke with ",
+      "",
+      "Eleanor Rigby today.",
+      "",
+    ]);
+  });
+
+  it("holds back a bare token split across deltas", () => {
+    expect(stream(["Spoke with NA", "ME_", "1 today."])).toEqual([
+      "Spoke with ",
+      "",
+      "Eleanor Rigby today.",
+      "",
+    ]);
+  });
+
+  it("does not hold back brackets that cannot start a token", () => {
+    expect(stream(["BP [see chart", "] ok"])).toEqual(["BP [see chart", "] ok", ""]);
+  });
+
+  it("restores a token left open at the end of the stream", () => {
+    expect(stream(["Thanks [NAME_1"]).join("")).toBe("Thanks Eleanor Rigby");
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * PHI de-identification - server-side only
+ *
+ * Replaces names, street addresses, phone numbers, dates of birth and MRNs in
+ * a transcript with placeholder tokens (e.g. "[NAME_1]") before any LLM call,
+ * and restores them in the pipeline result afterwards. The redaction map never
+ * leaves the server: it lives for one pipeline run and is not returned or stored.
+ *
+ * Detection is pattern-based plus any names the caller already knows (the
+ * active patient). Configure with PHI_REDACTION and PHI_REDACTION_CATEGORIES.
+ */
+
+import type { EvidenceSpan } from "@/types/patient";
+
+// =============================================================================
+// Types & config
+// =============================================================================
+
+export type PhiCategory = "name" | "address" | "phone" | "dob" | "mrn";
+
+export const PHI_CATEGORIES: PhiCategory[] = ["name", "address", "phone", "dob", "mrn"];
+
+export interface PhiRedactionConfig {
+  categories: PhiCategory[];
+  /** Names known to belong to this visit (e.g. the patient's), always redacted */
+  knownNames?: string[];
+}
+
+/** Token → original text for one pipeline run */
+export type RedactionMap = Map<string, string>;
+
+export interface RedactionResult {
+  text: string;
+  map: RedactionMap;
+  /** Tokens issued per category, for logging (never the values) */
+  counts: Record<PhiCategory, number>;
+}
+
+const TOKEN_PREFIX: Record<PhiCategory, string> = {
+  name: "NAME",
+  address: "ADDRESS",
+  phone: "PHONE",
+  dob: "DOB",
+  mrn: "MRN",
+};
+
+/**
+ * Reads PHI_REDACTION ("false", "0" or "off" disables; on by default) and
+ * PHI_REDACTION_CATEGORIES (comma-separated, default all).
+ * Returns null when redaction is disabled.
+ */
+export function getPhiRedactionConfig(): PhiRedactionConfig | null {
+  const enabled = process.env.PHI_REDACTION?.trim().toLowerCase();
+  if (enabled === "false" || enabled === "0" || enabled === "off") return null;
+
+  const raw = process.env.PHI_REDACTION_CATEGORIES?.trim();
+  if (!raw) return { categories: PHI_CATEGORIES };
+
+  const categories = raw
+    .split(",")
+    .map((c) => c.trim().toLowerCase())
+    .filter((c): c is PhiCategory => (PHI_CATEGORIES as string[]).includes(c));
+  return { categories };
+}
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+const MONTHS =
+  "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+const DATE = `(?:\\d{1,2}[/-]\\d{1,2}[/-]\\d{2,4}|${MONTHS}\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}|\\d{1,2} ${MONTHS},? \\d{4})`;
+const CAPITALIZED = "[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)?";
+const STREET_SUFFIX =
+  "(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Boulevard|Blvd|Court|Ct|Way|Place|Pl|Terrace|Circle|Cir)";
+
+/**
+ * Patterns per category. When a pattern has a capture group, only the group
+ * is redacted so cue words ("MRN", "born on") stay readable for the model.
+ */
+const PATTERNS: Record<PhiCategory, RegExp[]> = {
+  name: [
+    // Honorific + surname: "Mrs. Thompson", "Dr. Alvarez-Reyes"
+    new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr)\\.? (?:${CAPITALIZED} )?${CAPITALIZED}\\b`, "g"),
+    // Relation + first name: "her daughter Sarah", "his son, Mike"
+    new RegExp(
+      `\\b(?:daughter|son|wife|husband|sister|brother|niece|nephew|grandson|granddaughter|neighbou?r|friend|nurse|aide)(?:,| named| called)? (${CAPITALIZED}(?: ${CAPITALIZED})?)\\b`,
+      "g"
+    ),
+    // Self-identification: "my name is Anna Lee", "this is Joe"
+    new RegExp(`\\b(?:[Mm]y name is|[Tt]his is|[Nn]ame's) (${CAPITALIZED}(?: ${CAPITALIZED})?)\\b`, "g"),
+  ],
+  address: [
+    new RegExp(
+      `\\b\\d{1,5} (?:${CAPITALIZED} ){1,3}${STREET_SUFFIX}\\b\\.?(?:,? (?:Apt|Apartment|Unit|Suite|#)\\.? ?[A-Za-z0-9-]+)?`,
+      "g"
+    ),
+  ],
+  phone: [/(?<!\d)(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}(?!\d)/g],
+  dob: [new RegExp(`\\b(?:DOB|D\\.O\\.B\\.|date of birth|birthday|born(?: on)?)[:\\s]+(?:is |was )?(${DATE})`, "gi")],
+  // Identifier must contain a digit so "MRN for her" is left alone
+  mrn: [/\b(?:MRN|medical record(?: number)?|record number|patient ID)[\s:#]*(?:is |was )?((?=[A-Z-]*\d)[A-Z0-9][A-Z0-9-]{3,})\b/gi],
+};
+
+interface Detection {
+  start: number;
+  end: number;
+  category: PhiCategory;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Known full names and their parts (≥ 3 letters), longest first.
+ * Case-sensitive on the capitalized form so a patient named "May" does not
+ * redact "may suggest".
+ */
+function knownNamePattern(names: string[]): RegExp | null {
+  const terms = new Set<string>();
+  for (const name of names) {
+    const parts = name.trim().split(/\s+/).filter(Boolean).map(capitalize);
+    if (parts.length === 0) continue;
+    terms.add(parts.join(" "));
+    parts.filter((p) => p.length >= 3).forEach((p) => terms.add(p));
+  }
+  if (terms.size === 0) return null;
+  const alternatives = Array.from(terms)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  return new RegExp(`\\b(?:${alternatives.join("|")})\\b`, "g");
+}
+
+function detect(text: string, config: PhiRedactionConfig): Detection[] {
+  const found: Detection[] = [];
+  const collect = (regex: RegExp, category: PhiCategory) => {
+    for (const m of Array.from(text.matchAll(regex))) {
+      const group = m[1];
+      const offset = group !== undefined ? m[0].lastIndexOf(group) : 0;
+      const value = group ?? m[0];
+      const start = (m.index ?? 0) + offset;
+      found.push({ start, end: start + value.length, category });
+    }
+  };
+
+  for (const category of config.categories) {
+    PATTERNS[category].forEach((regex) => collect(regex, category));
+  }
+  if (config.categories.includes("name")) {
+    const known = knownNamePattern(config.knownNames ?? []);
+    if (known) collect(known, "name");
+  }
+
+  // Keep the earliest, then longest, match where detections overlap
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const kept: Detection[] = [];
+  for (const d of found) {
+    const last = kept[kept.length - 1];
+    if (last && d.start < last.end) continue;
+    kept.push(d);
+  }
+  return kept;
+}
+
+// =============================================================================
+// Redaction & re-identification
+// =============================================================================
+
+/**
+ * Replaces detected PHI with tokens. The same value always maps to the same
+ * token within a run, so "Mrs. Thompson" stays one person across steps.
+ */
+export function redactPhi(text: string, config: PhiRedactionConfig): RedactionResult {
+  const map: RedactionMap = new Map();
+  const byValue = new Map<string, string>();
+  const counts = Object.fromEntries(PHI_CATEGORIES.map((c) => [c, 0])) as Record<
+    PhiCategory,
+    number
+  >;
+
+  let out = "";
+  let cursor = 0;
+  for (const d of detect(text, config)) {
+    const value = text.slice(d.start, d.end);
+    const key = `${d.category}:${value.toLowerCase()}`;
+    let token = byValue.get(key);
+    if (!token) {
+      counts[d.category]++;
+      token = `[${TOKEN_PREFIX[d.category]}_${counts[d.category]}]`;
+      byValue.set(key, token);
+      map.set(token, value);
+    }
+    out += text.slice(cursor, d.start) + token;
+    cursor = d.end;
+  }
+  out += text.slice(cursor);
+
+  return { text: out, map, counts };
+}
+
+// Models sometimes drop the brackets; accept "NAME_1" as well as "[NAME_1]"
+const TOKEN_REGEX = /\[?\b(NAME|ADDRESS|PHONE|DOB|MRN)_(\d+)\b\]?/g;
+/** A possibly incomplete token at the end of a stream delta */
+const TOKEN_PREFIX_REGEX = /(?:\[[A-Z]*|\b[A-Z]+)(?:_\d*)?$/;
+
+function lookup(map: RedactionMap, prefix: string, n: string): string | undefined {
+  return map.get(`[${prefix}_${n}]`);
+}
+
+/** Restores tokens in a string; unknown tokens are left as-is */
+export function reidentifyText(text: string, map: RedactionMap): string {
+  if (map.size === 0) return text;
+  return text.replace(TOKEN_REGEX, (token, prefix: string, n: string) => lookup(map, prefix, n) ?? token);
+}
+
+/**
+ * Restores tokens in a string and returns a function that maps character
+ * offsets in the tokenized text to offsets in the restored text. Offsets
+ * inside a token snap to its start or end.
+ */
+export function reidentifyWithOffsets(
+  text: string,
+  map: RedactionMap
+): { text: string; mapSpan: (span: EvidenceSpan) => EvidenceSpan } {
+  const edits: { start: number; end: number; delta: number }[] = [];
+  let restored = "";
+  let cursor = 0;
+  let delta = 0;
+
+  for (const m of Array.from(text.matchAll(TOKEN_REGEX))) {
+    const original = lookup(map, m[1], m[2]);
+    if (original === undefined) continue;
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    restored += text.slice(cursor, start) + original;
+    cursor = end;
+    delta += original.length - m[0].length;
+    edits.push({ start, end, delta });
+  }
+  restored += text.slice(cursor);
+
+  const mapOffset = (pos: number, side: "start" | "end"): number => {
+    let shift = 0;
+    for (const e of edits) {
+      if (pos >= e.end) {
+        shift = e.delta;
+        continue;
+      }
+      if (pos > e.start) {
+        // Inside a token: widen to cover the whole restored value
+        return side === "start" ? e.start + shift : e.end + e.delta;
+      }
+      break;
+    }
+    return pos + shift;
+  };
+
+  return {
+    text: restored,
+    mapSpan: (span) => ({ start: mapOffset(span.start, "start"), end: mapOffset(span.end, "end") }),
+  };
+}
+
+/** Restores tokens in every string of a JSON-like value */
+export function reidentifyDeep<T>(value: T, map: RedactionMap): T {
+  if (map.size === 0) return value;
+  if (typeof value === "string") return reidentifyText(value, map) as T;
+  if (Array.isArray(value)) return value.map((v) => reidentifyDeep(v, map)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, reidentifyDeep(v, map)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Re-identifies a token stream delta by delta. A trailing "[" or capitalized
+ * word that may begin a placeholder, bracketed or bare ("NA" of "NAME_1"), is
+ * held back until the next delta shows whether it is one, so a token split
+ * across deltas is never emitted half-restored.
+ */
+export function createStreamReidentifier(map: RedactionMap): {
+  push: (delta: string) => string;
+  flush: () => string;
+} {
+  let pending = "";
+  return {
+    push(delta) {
+      pending += delta;
+      const holdFrom = TOKEN_PREFIX_REGEX.exec(pending)?.index ?? pending.length;
+      const ready = pending.slice(0, holdFrom);
+      pending = pending.slice(holdFrom);
+      return reidentifyText(ready, map);
+    },
+    flush() {
+      const rest = reidentifyText(pending, map);
+      pending = "";
+      return rest;
+    },
+  };
+}
@@ -0,0 +1,390 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { analyzeCaregiverTranscript, PipelineError, type PipelineOptions, type PipelineStep } from "./pipeline";
+import { MemoryCacheStore } from "./cache";
+import { createMockLLMProvider } from "./mock";
+import { createReplayProvider, ReplayMissError } from "./replay";
+import type { CompletionRequest, LLMProvider } from "./llm";
+import MOCK_TRANSCRIPTS from "./fixtures/mock-transcripts.json";
+import type { Medication } from "@/types/patient";
+
+/**
+ * Recorded from the offline mock provider (its "provider" and "model" say so),
+ * as no live provider was reachable. Re-record against a real one with
+ * LLM_REPLAY=record LLM_PROVIDER=openai OPENAI_API_KEY=… npx vitest run lib/ai/pipeline.test.ts
+ */
+const FIXTURE = path.join(__dirname, "fixtures", "replay", "pipeline-visit.json");
+const TRANSCRIPT = MOCK_TRANSCRIPTS[2];
+const MEDICATIONS: Medication[] = [
+  { id: "m1", name: "Donepezil", dose: "10 mg", schedule: "Morning" },
+];
+
+/** No retries or shared cache, so every scripted response is seen once */
+const OPTIONS: PipelineOptions = { cache: false, retry: { maxRetries: 0 } };
+
+type Responder = string | ((request: CompletionRequest) => string | Promise<string>);
+
+/** Pipeline step a request belongs to, from its first user message */
+function stepOf(request: CompletionRequest): PipelineStep {
+  const instruction = request.messages.find((m) => m.role === "user")?.content ?? "";
+  if (/^Clean/.test(instruction)) return "clean";
+  // Long transcripts add a summary call to the structure step
+  if (/^(Structure|Summarize)/.test(instruction)) return "structure";
+  if (/^Analyze risks/.test(instruction)) return "analyze";
+  return "reconcile";
+}
+
+/**
+ * Mock keyword provider with some steps scripted. Responders that throw
+ * simulate provider failures.
+ */
+function scripted(overrides: Partial<Record<PipelineStep, Responder>>) {
+  const mock = createMockLLMProvider();
+  const calls: PipelineStep[] = [];
+  const llm: LLMProvider = {
+    name: "fake",
+    model: "scripted",
+    async complete(request) {
+      const step = stepOf(request);
+      calls.push(step);
+      const override = overrides[step];
+      if (override === undefined) return mock.complete(request);
+      return typeof override === "function" ? override(request) : override;
+    },
+  };
+  return { llm, calls };
+}
+
+function fail(message: string): () => never {
+  return () => {
+    throw new Error(message);
+  };
+}
+
+async function pipelineError(promise: Promise<unknown>): Promise<PipelineError> {
+  const err = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(err).toBeInstanceOf(PipelineError);
+  return err as PipelineError;
+}
+
+// =============================================================================
+// Recorded completions
+// =============================================================================
+
+describe("analyzeCaregiverTranscript with recorded completions", () => {
+  it("replays a full visit without a live provider", async () => {
+    // Follows LLM_REPLAY, so this is the test that re-records the fixture
+    const llm = await createReplayProvider(FIXTURE);
+    const result = await analyzeCaregiverTranscript(TRANSCRIPT, llm, {
+      ...OPTIONS,
+      medications: MEDICATIONS,
+    });
+
+    expect(llm.served).toHaveLength(4);
+    expect(result.status).toBe("complete");
+    expect(result.issues).toBeUndefined();
+    expect(result.provenance).toMatchObject({ provider: llm.name, model: llm.model });
+    expect(result.structuredData.care_level_indicator).toBe("attention_needed");
+    expect(result.risks.risk_flags.map((f) => f.risk)).toEqual(
+      expect.arrayContaining(["Fall risk", "Cognitive change", "Medication adherence"])
+    );
+    expect(result.medicationReconciliation?.findings.length).toBeGreaterThan(0);
+  });
+
+  it("is deterministic across runs", async () => {
+    const run = async () =>
+      analyzeCaregiverTranscript(
+        TRANSCRIPT,
+        await createReplayProvider(FIXTURE, { mode: "replay" }),
+        { ...OPTIONS, medications: MEDICATIONS }
+      );
+    expect(await run()).toEqual(await run());
+  });
+
+  it("fails the first step on an unrecorded request", async () => {
+    const llm = await createReplayProvider(FIXTURE, { mode: "replay" });
+    const err = await pipelineError(
+      analyzeCaregiverTranscript("A visit that was never recorded.", llm, OPTIONS)
+    );
+    expect(err.step).toBe("clean");
+    expect(err.cause).toBeInstanceOf(ReplayMissError);
+  });
+});
+
+// =============================================================================
+// Speakers
+// =============================================================================
+
+describe("speaker-labelled transcripts", () => {
+  const CONVERSATION = [
+    "Caregiver: How are you feeling this morning?",
+    "Patient: I felt dizzy when I stood up. My knee is sore.",
+    "Caregiver: Ankles are swollen. We did her leg exercises.",
+  ].join("\n");
+  const SEGMENTS = [
+    { speaker: "caregiver" as const, start: 0, end: 2, text: "How are you feeling this morning?" },
+    { speaker: "patient" as const, start: 2, end: 6, text: "I felt dizzy when I stood up. My knee is sore." },
+    { speaker: "caregiver" as const, start: 6, end: 9, text: "Ankles are swollen. We did her leg exercises." },
+  ];
+
+  it("separates patient-reported symptoms from observations", async () => {
+    const { llm } = scripted({});
+    const result = await analyzeCaregiverTranscript(CONVERSATION, llm, {
+      ...OPTIONS,
+      segments: SEGMENTS,
+    });
+
+    expect(result.cleanedTranscript.split("\n")[1]).toMatch(/^Patient: /);
+    expect(result.structuredData.patient_reported).toEqual([
+      "I felt dizzy when I stood up.",
+      "My knee is sore.",
+    ]);
+    expect(result.structuredData.key_observations).not.toContain("My knee is sore.");
+    expect(result.structuredData.evidence?.patient_reported?.[0]).toHaveLength(1);
+    expect(result.risks.risk_flags.map((f) => f.category)).toEqual(
+      expect.arrayContaining(["fall", "pain", "edema"])
+    );
+    expect(result.segments).toEqual(SEGMENTS);
+  });
+
+  it("omits segments when none are supplied", async () => {
+    const { llm } = scripted({});
+    const result = await analyzeCaregiverTranscript(CONVERSATION, llm, OPTIONS);
+    expect(result.segments).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Step cache
+// =============================================================================
+
+describe("step cache", () => {
+  it("serves a repeated visit from the cache without LLM calls", async () => {
+    const cache = new MemoryCacheStore();
+    const first = scripted({});
+    const miss = await analyzeCaregiverTranscript(TRANSCRIPT, first.llm, { ...OPTIONS, cache });
+    expect(miss.cache).toEqual({ clean: "miss", structure: "miss", analyze: "miss" });
+
+    const second = scripted({});
+    const hit = await analyzeCaregiverTranscript(TRANSCRIPT, second.llm, { ...OPTIONS, cache });
+    expect(second.calls).toEqual([]);
+    expect(hit.cache).toEqual({ clean: "hit", structure: "hit", analyze: "hit" });
+    expect(hit.risks).toEqual(miss.risks);
+  });
+
+  it("does not cache output that failed validation", async () => {
+    const cache = new MemoryCacheStore();
+    const broken = scripted({ analyze: "not json" });
+    const partial = await analyzeCaregiverTranscript(TRANSCRIPT, broken.llm, { ...OPTIONS, cache });
+    expect(partial.status).toBe("partial");
+
+    const retry = scripted({});
+    const result = await analyzeCaregiverTranscript(TRANSCRIPT, retry.llm, { ...OPTIONS, cache });
+    expect(retry.calls).toEqual(["analyze"]);
+    expect(result.status).toBe("complete");
+  });
+});
+
+// =============================================================================
+// Vital alerts
+// =============================================================================
+
+describe("vital alerts", () => {
+  const VISIT = "Checked her blood pressure, it was 190 over 112. She ate all of her lunch.";
+
+  it("flags an out-of-range vital the model left out", async () => {
+    const { llm } = scripted({ analyze: JSON.stringify({ risk_flags: [] }) });
+    const result = await analyzeCaregiverTranscript(VISIT, llm, OPTIONS);
+
+    expect(result.risks.risk_flags).toEqual([
+      expect.objectContaining({
+        risk: "Blood pressure elevated",
+        severity: "high",
+        category: "vital_signs",
+      }),
+    ]);
+  });
+
+  it("raises a flag that names the vital to the alert's severity", async () => {
+    const { llm } = scripted({
+      analyze: JSON.stringify({
+        risk_flags: [
+          { risk: "High BP", severity: "low", reason: "Reading was above normal.", category: "vital_signs" },
+        ],
+      }),
+    });
+    const result = await analyzeCaregiverTranscript(VISIT, llm, OPTIONS);
+
+    expect(result.risks.risk_flags).toHaveLength(1);
+    expect(result.risks.risk_flags[0]).toMatchObject({ risk: "High BP", severity: "high" });
+  });
+});
+
+// =============================================================================
+// Long transcripts
+// =============================================================================
+
+describe("long transcripts", () => {
+  // ~80 turns, well past what one clean or structure call returns
+  const LONG_VISIT = Array.from({ length: 80 }, (_, i) =>
+    i === 5 || i === 75
+      ? "Patient: I felt dizzy when I stood up this morning."
+      : `Caregiver: Room ${i + 1} checked, she was resting comfortably and the bed was made.`
+  ).join("\n");
+
+  it("cleans and structures in parts and merges the result", async () => {
+    const { llm, calls } = scripted({});
+    const result = await analyzeCaregiverTranscript(LONG_VISIT, llm, OPTIONS);
+
+    expect(calls.filter((s) => s === "clean").length).toBeGreaterThan(1);
+    expect(calls.filter((s) => s === "structure").length).toBeGreaterThan(1);
+    expect(result.cleanedTranscript.split("\n")).toHaveLength(80);
+
+    // Mentioned at both ends of the visit, kept once with both mentions as evidence
+    expect(result.structuredData.patient_reported).toEqual([
+      "I felt dizzy when I stood up this morning.",
+    ]);
+    const spans = result.structuredData.evidence?.patient_reported?.[0] ?? [];
+    expect(spans).toHaveLength(2);
+    for (const span of spans) {
+      expect(result.cleanedTranscript.slice(span.start, span.end)).toMatch(/dizzy/);
+    }
+  });
+
+  it("writes the visit summary from every part's summary", async () => {
+    const requests: CompletionRequest[] = [];
+    const { llm } = scripted({
+      structure: (request) => {
+        requests.push(request);
+        const content = request.messages.find((m) => m.role === "user")?.content ?? "";
+        if (content.startsWith("Summarize")) return "Dizzy on standing at start and end of visit.";
+        return JSON.stringify({
+          visit_summary: `Summary ${requests.length}.`,
+          care_level_indicator: "watch",
+        });
+      },
+    });
+    const result = await analyzeCaregiverTranscript(LONG_VISIT, llm, OPTIONS);
+
+    const reduce = requests[requests.length - 1].messages.find((m) => m.role === "user")?.content;
+    expect(reduce).toMatch(/^Summarize these visit parts:\n\nPart 1: Summary \d\.\nPart 2: /);
+    expect(result.structuredData.visit_summary).toBe("Dizzy on standing at start and end of visit.");
+  });
+});
+
+// =============================================================================
+// Step attribution
+// =============================================================================
+
+describe("PipelineError step attribution", () => {
+  it("attributes empty input to the clean step", async () => {
+    const { llm, calls } = scripted({});
+    const err = await pipelineError(analyzeCaregiverTranscript("   ", llm, OPTIONS));
+    expect(err.step).toBe("clean");
+    expect(calls).toEqual([]);
+  });
+
+  it.each<[PipelineStep, string[]]>([
+    ["clean", []],
+    ["structure", ["cleanedTranscript"]],
+    ["analyze", ["cleanedTranscript", "structuredData"]],
+    ["reconcile", ["cleanedTranscript", "structuredData", "risks"]],
+  ])("attributes a %s failure and checkpoints the steps before it", async (step, completed) => {
+    const { llm } = scripted({ [step]: fail("provider exploded") });
+    const err = await pipelineError(
+      analyzeCaregiverTranscript(TRANSCRIPT, llm, { ...OPTIONS, medications: MEDICATIONS })
+    );
+
+    expect(err.step).toBe(step);
+    expect(err.message).toBe("provider exploded");
+    expect(Object.keys(err.checkpoint ?? {}).sort()).toEqual(["inputHash", ...completed].sort());
+  });
+
+  it("attributes an unknown prompt version to its step", async () => {
+    const { llm, calls } = scripted({});
+    const err = await pipelineError(
+      analyzeCaregiverTranscript(TRANSCRIPT, llm, {
+        ...OPTIONS,
+        promptVersions: { risk_analyzer: "v99" },
+      })
+    );
+    expect(err.step).toBe("analyze");
+    expect(calls).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Empty outputs
+// =============================================================================
+
+describe("empty model outputs", () => {
+  it.each<[PipelineStep, string]>([
+    ["clean", "No output from transcript cleaning step"],
+    ["structure", "No output from clinical structuring step"],
+    ["analyze", "No output from risk analysis step"],
+  ])("fails the %s step", async (step, message) => {
+    const { llm } = scripted({ [step]: "" });
+    const err = await pipelineError(analyzeCaregiverTranscript(TRANSCRIPT, llm, OPTIONS));
+    expect(err.step).toBe(step);
+    expect(err.message).toBe(message);
+  });
+});
+
+// =============================================================================
+// Malformed JSON
+// =============================================================================
+
+describe("malformed JSON outputs", () => {
+  it("re-prompts, then keeps a partial result when repair fails", async () => {
+    const { llm, calls } = scripted({ structure: "Sure! Here are the notes: not json" });
+    const result = await analyzeCaregiverTranscript(TRANSCRIPT, llm, OPTIONS);
+
+    // First attempt plus two repairs
+    expect(calls.filter((s) => s === "structure")).toHaveLength(3);
+    expect(result.status).toBe("partial");
+    expect(result.issues).toEqual([
+      { step: "structure", errors: ["Response was not valid JSON"] },
+    ]);
+    // Later steps still run on the empty salvage
+    expect(calls).toContain("analyze");
+    expect(result.structuredData.visit_summary).toBe("");
+  });
+
+  it("accepts output repaired after the schema errors are sent back", async () => {
+    let attempts = 0;
+    const repairPrompts: string[] = [];
+    const { llm } = scripted({
+      analyze: (request) => {
+        attempts++;
+        if (attempts === 1) return '{"risk_flags": [{"risk": "Fall risk"}]}';
+        repairPrompts.push(request.messages[request.messages.length - 1].content);
+        return JSON.stringify({
+          risk_flags: [
+            { risk: "Fall risk", severity: "high", reason: "Reported fall overnight.", evidence: [] },
+          ],
+        });
+      },
+    });
+
+    const result = await analyzeCaregiverTranscript(TRANSCRIPT, llm, OPTIONS);
+
+    expect(attempts).toBe(2);
+    expect(repairPrompts[0]).toMatch(/did not match the required JSON schema/);
+    expect(repairPrompts[0]).toMatch(/severity/);
+    expect(result.status).toBe("complete");
+    expect(result.risks.risk_flags.map((f) => f.risk)).toContain("Fall risk");
+  });
+
+  it("extracts JSON wrapped in a code fence", async () => {
+    const mock = createMockLLMProvider();
+    const { llm } = scripted({
+      analyze: async (request) => `\`\`\`json\n${await mock.complete(request)}\n\`\`\``,
+    });
+    const result = await analyzeCaregiverTranscript(TRANSCRIPT, llm, OPTIONS);
+    expect(result.status).toBe("complete");
+    expect(result.risks.risk_flags.length).toBeGreaterThan(0);
+  });
+});
@@ -1,16 +1,65 @@
 /**
  * AI Caregiver Co-Pilot — Visit Processing Pipeline
  *
- * Chained pipeline: Clean → Structure → Analyze Risks
- * Server-side only. Uses OpenAI SDK.
+ * Chained pipeline: Clean → Structure → Analyze Risks → Reconcile Medications
+ * Server-side only. Runs against the configured LLM provider (see ./llm).
+ * PHI is tokenized before the first LLM call and restored in the result (see ./phi).
+ * Every LLM call has a timeout and is retried on transient failures (see ./retry);
+ * a failed run can be resumed from its last completed step. Clean, structure
+ * and analyze outputs are cached by content (see ./cache).
+ * Long transcripts are cleaned and structured in parts (see ./long-transcript).
  */
 
-import OpenAI from "openai";
-import { getOpenAIClient } from "./openai";
+import { createHash } from "crypto";
+import type OpenAI from "openai";
+import {
+  resolveLLMProvider,
+  type CompletionRequest,
+  type LLMProvider,
+} from "./llm";
+import { assessVitals, normalizeVitals, type VitalAlert, type VitalKey } from "@/lib/vitals";
+import { EVIDENCE_FIELDS, locateEvidence } from "@/lib/evidence";
+import { mapWithConcurrency } from "@/lib/utils";
+import { mergeStructuredParts, offsetEvidence, splitTranscript } from "./long-transcript";
+import { categorizeRisk, isRiskCategory, type RiskCategory } from "@/lib/risk-categories";
+import {
+  createStreamReidentifier,
+  getPhiRedactionConfig,
+  redactPhi,
+  reidentifyDeep,
+  reidentifyWithOffsets,
+  type PhiRedactionConfig,
+  type RedactionMap,
+} from "./phi";
+import { getRetryPolicy, withRetry, type RetryPolicy } from "./retry";
+import { createCacheKey, getPipelineCache, hashPrompt, type CacheStore } from "./cache";
+import {
+  validateMedicationReconciliationJson,
+  validateRiskAnalysisJson,
+  validateStructuredVisitJson,
+} from "./schema";
+import type {
+  AnalysisIssue,
+  AnalysisProvenance,
+  AnalysisStatus,
+  EvidenceSpan,
+  Medication,
+  MedicationFinding,
+  MedicationReconciliation,
+  StructuredEvidence,
+  TranscriptSegment,
+  VitalSigns,
+} from "@/types/patient";
 import {
   TRANSCRIPT_CLEANER,
   CLINICAL_STRUCTURER,
+  VISIT_SUMMARY_REDUCER,
   RISK_ANALYZER,
+  MEDICATION_RECONCILER,
+  getPrompt,
+  type PromptDefinition,
+  type PromptName,
+  type PromptVersions,
 } from "./prompts";
 
 // =============================================================================
@@ -21,11 +70,15 @@ import {
 export interface StructuredVisitData {
   visit_summary?: string;
   key_observations?: string[];
+  patient_reported?: string[];
   activities_completed?: string[];
   medication_notes?: string[];
   concerns?: string[];
   suggested_followups?: string[];
   care_level_indicator?: "stable" | "watch" | "attention_needed";
+  vitals?: VitalSigns;
+  /** Supporting transcript spans per list item */
+  evidence?: StructuredEvidence;
 }
 
 /** Single risk flag from RISK_ANALYZER */
@@ -33,6 +86,10 @@ export interface RiskFlag {
   risk: string;
   severity: "low" | "medium" | "high";
   reason: string;
+  /** Taxonomy category; inferred from the wording when the model omits it */
+  category: RiskCategory;
+  /** Supporting spans in the cleaned transcript */
+  evidence?: EvidenceSpan[];
 }
 
 /** Risk analysis output */
@@ -45,25 +102,115 @@ export interface PipelineResult {
   cleanedTranscript: string;
   structuredData: StructuredVisitData;
   risks: RiskAnalysis;
+  /** Present when a medication list was supplied and notes mention medications */
+  medicationReconciliation?: MedicationReconciliation;
+  /** "partial" when a step's output could not be repaired; see `issues` */
+  status: AnalysisStatus;
+  issues?: PipelineIssue[];
+  /** Cache lookups made by this run, per cacheable step */
+  cache?: Partial<Record<PipelineStep, CacheStatus>>;
+  /** Provider, model and prompt versions that produced the result */
+  provenance: AnalysisProvenance;
+  /** Speaker turns of the recording, when the request supplied them */
+  segments?: TranscriptSegment[];
+}
+
+export type CacheStatus = "hit" | "miss";
+
+/** Schema errors left in a step's output after repair attempts */
+export type PipelineIssue = AnalysisIssue;
+
+/** Per-visit patient context supplied by the caller */
+export interface PipelineOptions {
+  /** Patient's managed medication list; enables the reconcile step */
+  medications?: Medication[];
+  /** Names that are always redacted, e.g. the patient's */
+  knownNames?: string[];
+  /** PHI redaction settings; defaults to the PHI_REDACTION env config, false disables */
+  redaction?: PhiRedactionConfig | false;
+  /** Progress callback; enables token streaming from the provider */
+  onEvent?: (event: PipelineEvent) => void;
+  /** Overrides for the LLM_TIMEOUT_MS / LLM_MAX_RETRIES policy */
+  retry?: Partial<RetryPolicy>;
+  /** Per-step attempt timeouts, overriding `retry.timeoutMs` */
+  stepTimeoutsMs?: Partial<Record<PipelineStep, number>>;
+  /** Checkpoint from a failed run on the same transcript; completed steps are reused */
+  resume?: PipelineCheckpoint;
+  /** Step output cache; defaults to the PIPELINE_CACHE store, false disables */
+  cache?: CacheStore | false;
+  /** Prompt versions to run; unspecified prompts use CURRENT_PROMPT_VERSIONS */
+  promptVersions?: PromptVersions;
+  /**
+   * Diarized speaker turns behind the transcript, echoed on the result. The
+   * model sees speakers only through the transcript's "Patient:" style labels.
+   */
+  segments?: TranscriptSegment[];
 }
 
+/**
+ * Output of the steps a run completed, attached to its PipelineError.
+ * Values are in the pipeline's internal form (PHI tokenized when redaction is
+ * on), so a checkpoint is safe to hand to the client and send back later.
+ */
+export interface PipelineCheckpoint {
+  /**
+   * SHA-256 of the text the steps ran on, the prompt versions and the model;
+   * a mismatched resume is ignored
+   */
+  inputHash: string;
+  cleanedTranscript?: string;
+  structuredData?: StructuredVisitData;
+  risks?: RiskAnalysis;
+  issues?: PipelineIssue[];
+}
+
+export type PipelineStep = "clean" | "structure" | "analyze" | "reconcile";
+
+/** Progress event emitted while the pipeline runs (already re-identified) */
+export type PipelineEvent =
+  | { type: "step_started"; step: PipelineStep }
+  | { type: "token"; step: PipelineStep; delta: string }
+  /** A call failed transiently; tokens streamed since the step started are void */
+  | { type: "step_retry"; step: PipelineStep; attempt: number; delayMs: number; reason: string }
+  /** `data` holds the part of the result the step produced; `cached` when served from cache */
+  | {
+      type: "step_finished";
+      step: PipelineStep;
+      data: Partial<PipelineResult>;
+      cached?: true;
+    };
+
 /** Pipeline error with context */
 export class PipelineError extends Error {
   constructor(
     message: string,
-    public readonly step: "clean" | "structure" | "analyze",
-    public readonly cause?: unknown
+    public readonly step: PipelineStep,
+    public readonly cause?: unknown,
+    /** Completed steps, for `PipelineOptions.resume` */
+    public readonly checkpoint?: PipelineCheckpoint
   ) {
     super(message);
     this.name = "PipelineError";
   }
 }
 
-// =============================================================================
-// Config
-// =============================================================================
+/**
+ * A step's model output still failed schema validation after repair.
+ * `partial` holds whatever could be salvaged from the last response.
+ */
+export class OutputValidationError extends PipelineError {
+  constructor(
+    step: PipelineStep,
+    public readonly errors: string[],
+    public readonly partial: unknown
+  ) {
+    super(`Invalid ${step} output after ${MAX_REPAIR_ATTEMPTS} repair attempt(s)`, step);
+    this.name = "OutputValidationError";
+  }
+}
 
-const MODEL = "gpt-4o-mini";
+/** Accepted by every step: a provider, or a raw OpenAI SDK client */
+export type PipelineClient = LLMProvider | OpenAI;
 
 // =============================================================================
 // Step 1: Clean Transcript
@@ -72,28 +219,45 @@ const MODEL = "gpt-4o-mini";
 /**
  * Cleans and normalizes raw voice-to-text transcript.
  * Removes filler words, fixes ASR errors, standardizes medical terms.
+ * Long transcripts are cleaned part by part and rejoined.
  */
 export async function cleanTranscript(
   rawText: string,
-  client?: OpenAI
+  client?: PipelineClient,
+  systemPrompt: string = TRANSCRIPT_CLEANER
 ): Promise<string> {
-  const openai = client ?? getOpenAIClient();
+  const llm = resolveLLMProvider(client);
+  const parts = splitTranscript(rawText.trim());
 
-  const completion = await openai.chat.completions.create({
-    model: MODEL,
+  if (parts.length <= 1) {
+    return cleanTranscriptPart(rawText.trim(), llm, systemPrompt);
+  }
+
+  // One at a time, so streamed tokens arrive in transcript order
+  const cleaned: string[] = [];
+  for (const part of parts) {
+    cleaned.push(await cleanTranscriptPart(part.text, llm, systemPrompt));
+  }
+  return cleaned.join("\n");
+}
+
+async function cleanTranscriptPart(
+  text: string,
+  llm: LLMProvider,
+  systemPrompt: string
+): Promise<string> {
+  const content = await llm.complete({
     messages: [
-      { role: "system", content: TRANSCRIPT_CLEANER },
+      { role: "system", content: systemPrompt },
       {
         role: "user",
-        content: `Clean this transcript:\n\n${rawText.trim()}`,
+        content: `Clean this transcript:\n\n${text}`,
       },
     ],
-    max_tokens: 1000,
+    maxTokens: 1000,
     temperature: 0.2,
   });
 
-  const content = completion.choices[0]?.message?.content?.trim();
-
   if (!content) {
     throw new PipelineError(
       "No output from transcript cleaning step",
@@ -111,38 +275,100 @@ export async function cleanTranscript(
 /**
  * Structures cleaned transcript into structured JSON.
  * Extracts observations, vitals, medications, concerns, actions.
+ * Vitals are range-validated; implausible readings are dropped.
+ * Evidence quotes are resolved to spans in the cleaned transcript.
+ * Long transcripts are structured in parts, STRUCTURE_PART_CONCURRENCY at a
+ * time, and merged; the visit summary is then written from all part summaries.
+ * @throws OutputValidationError when the output is still invalid after repair
  */
 export async function structureVisitData(
   cleanedTranscript: string,
-  client?: OpenAI
+  client?: PipelineClient,
+  systemPrompt: string = CLINICAL_STRUCTURER
 ): Promise<StructuredVisitData> {
-  const openai = client ?? getOpenAIClient();
+  const llm = resolveLLMProvider(client);
+  const parts = splitTranscript(cleanedTranscript);
+
+  if (parts.length <= 1) {
+    const { data, errors } = await structureTranscriptPart(cleanedTranscript, llm, systemPrompt);
+    return requireValid("structure", errors, data);
+  }
 
-  const completion = await openai.chat.completions.create({
-    model: MODEL,
-    response_format: { type: "json_object" },
+  const results = await mapWithConcurrency(parts, STRUCTURE_PART_CONCURRENCY, (part) =>
+    structureTranscriptPart(part.text, llm, systemPrompt)
+  );
+  const merged = mergeStructuredParts(
+    results.map(({ data }, i) => ({
+      ...data,
+      evidence: offsetEvidence(data.evidence ?? {}, parts[i].start),
+    }))
+  );
+  const errors = results.flatMap(({ errors }, i) =>
+    errors.map((e) => `Part ${i + 1} of ${parts.length}: ${e}`)
+  );
+  const summaries = results
+    .map(({ data }) => data.visit_summary?.trim() ?? "")
+    .filter(Boolean);
+  if (summaries.length > 1) {
+    merged.visit_summary = await summarizeVisitParts(summaries, llm);
+  }
+  return requireValid("structure", errors, merged);
+}
 
+/** Reduce step: one visit summary from the summaries of its parts, in order */
+async function summarizeVisitParts(summaries: string[], llm: LLMProvider): Promise<string> {
+  const content = await llm.complete({
     messages: [
-      { role: "system", content: CLINICAL_STRUCTURER },
+      { role: "system", content: VISIT_SUMMARY_REDUCER },
       {
         role: "user",
-        content: `Structure these visit notes:\n\n${cleanedTranscript}`,
+        content: `Summarize these visit parts:\n\n${summaries
+          .map((s, i) => `Part ${i + 1}: ${s}`)
+          .join("\n")}`,
       },
     ],
-    max_tokens: 1000,
+    maxTokens: 200,
     temperature: 0.2,
   });
 
-  const content = completion.choices[0]?.message?.content?.trim();
-
-  if (!content) {
-    throw new PipelineError(
-      "No output from clinical structuring step",
-      "structure"
-    );
+  if (!content?.trim()) {
+    throw new PipelineError("No output from visit summary step", "structure");
   }
 
-  return parseStructuredData(content);
+  return content.trim();
+}
+
+/** Structuring calls in flight at once for a long transcript */
+const STRUCTURE_PART_CONCURRENCY = 3;
+
+async function structureTranscriptPart(
+  cleanedTranscript: string,
+  llm: LLMProvider,
+  systemPrompt: string
+): Promise<{ data: StructuredVisitData; errors: string[] }> {
+  const { parsed, errors } = await completeValidatedJson(
+    llm,
+    {
+      json: true,
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Structure these visit notes:\n\n${cleanedTranscript}`,
+        },
+      ],
+      maxTokens: 1000,
+      temperature: 0.2,
+    },
+    validateStructuredVisitJson,
+    new PipelineError("No output from clinical structuring step", "structure")
+  );
+
+  const data =
+    parsed && typeof parsed === "object"
+      ? normalizeStructuredData(parsed, cleanedTranscript)
+      : createEmptyStructuredData();
+  return { data, errors };
 }
 
 // =============================================================================
@@ -151,88 +377,308 @@ export async function structureVisitData(
 
 /**
  * Analyzes structured visit data for risks and safety concerns.
+ * Out-of-range vitals are passed alongside as `vital_alerts`, and every alert
+ * is guaranteed a flag of at least its severity whatever the model returns.
+ * When the cleaned transcript is given, each flag's evidence quotes are
+ * resolved to spans in it.
  * Returns prioritized risk flags with severity.
+ * @throws OutputValidationError when the output is still invalid after repair
  */
 export async function analyzeRisks(
   structuredData: StructuredVisitData,
-  client?: OpenAI
+  client?: PipelineClient,
+  cleanedTranscript?: string,
+  systemPrompt: string = RISK_ANALYZER
 ): Promise<RiskAnalysis> {
-  const openai = client ?? getOpenAIClient();
+  const llm = resolveLLMProvider(client);
+  const vitalAlerts = assessVitals(structuredData.vitals);
 
-  const inputForRisks = JSON.stringify(structuredData, null, 2);
+  const inputForRisks = JSON.stringify(
+    {
+      ...structuredData,
+      // Spans mean nothing to the model; it quotes the transcript instead
+      evidence: undefined,
+      vital_alerts: vitalAlerts,
+      ...(cleanedTranscript ? { cleaned_transcript: cleanedTranscript } : {}),
+    },
+    null,
+    2
+  );
 
-  const completion = await openai.chat.completions.create({
-    model: MODEL,
-    response_format: { type: "json_object" },
+  const { parsed, errors } = await completeValidatedJson(
+    llm,
+    {
+      json: true,
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Analyze risks from this structured visit data:\n\n${inputForRisks}`,
+        },
+      ],
+      maxTokens: 1024,
+      temperature: 0.2,
+    },
+    validateRiskAnalysisJson,
+    new PipelineError("No output from risk analysis step", "analyze")
+  );
 
-    messages: [
-      { role: "system", content: RISK_ANALYZER },
-      {
-        role: "user",
-        content: `Analyze risks from this structured visit data:\n\n${inputForRisks}`,
-      },
-    ],
-    max_tokens: 1024,
-    temperature: 0.2,
+  const analysis = normalizeRiskAnalysis(parsed, cleanedTranscript);
+  return requireValid("analyze", errors, {
+    ...analysis,
+    risk_flags: applyVitalAlerts(analysis.risk_flags, vitalAlerts, cleanedTranscript),
   });
+}
 
-  const content = completion.choices[0]?.message?.content?.trim();
+const SEVERITY_RANK: Record<string, number> = { low: 0, medium: 1, high: 2 };
 
-  if (!content) {
-    throw new PipelineError(
-      "No output from risk analysis step",
-      "analyze"
-    );
+/** How a risk flag names each vital; a flag naming the vital covers its alert */
+const VITAL_TERMS: Record<VitalKey, RegExp> = {
+  blood_pressure: /\b(blood pressure|bp|hypertensi\w*|hypotensi\w*)\b/i,
+  heart_rate: /\b(heart rate|pulse|tachycardi\w*|bradycardi\w*)\b/i,
+  temperature: /\b(temperature|temp|fever\w*|febrile|hypotherm\w*)\b/i,
+  spo2: /\b(spo2|o2|oxygen|saturation|sats?|hypox\w*)\b/i,
+  glucose: /\b(glucose|sugar|hypoglyc\w*|hyperglyc\w*)\b/i,
+  weight: /\bweight\b/i,
+  pain_score: /\bpain\b/i,
+};
+
+/**
+ * Out-of-range vitals cannot be dropped by the model: a flag naming the vital
+ * is raised to the alert's severity, and an alert no flag names gets a flag
+ * of its own.
+ */
+function applyVitalAlerts(
+  flags: RiskFlag[],
+  alerts: VitalAlert[],
+  cleanedTranscript?: string
+): RiskFlag[] {
+  const result = [...flags];
+  for (const a of alerts) {
+    const i = result.findIndex((f) => VITAL_TERMS[a.vital].test(`${f.risk} ${f.reason}`));
+    if (i !== -1) {
+      if (SEVERITY_RANK[result[i].severity] < SEVERITY_RANK[a.severity]) {
+        result[i] = { ...result[i], severity: a.severity };
+      }
+      continue;
+    }
+    result.push({
+      risk: `${a.label} ${a.status === "high" ? "elevated" : "low"}`,
+      severity: a.severity,
+      reason: `${a.label} ${a.reading} is ${a.status === "high" ? "above" : "below"} the adult reference range.`,
+      category: a.vital === "pain_score" ? "pain" : "vital_signs",
+      ...(cleanedTranscript ? { evidence: [] } : {}),
+    });
   }
+  return result;
+}
+
+// =============================================================================
+// Step 4: Reconcile Medications
+// =============================================================================
 
-  return parseRiskAnalysis(content);
+/**
+ * Compares the visit's medication notes with the patient's medication list.
+ * Returns missed doses, unlisted medications, and dose/schedule discrepancies.
+ * @throws OutputValidationError when the output is still invalid after repair
+ */
+export async function reconcileMedications(
+  medicationNotes: string[],
+  medications: Medication[],
+  client?: PipelineClient,
+  systemPrompt: string = MEDICATION_RECONCILER
+): Promise<MedicationReconciliation> {
+  const llm = resolveLLMProvider(client);
+
+  const input = JSON.stringify(
+    {
+      medication_list: medications.map(({ name, dose, schedule }) => ({
+        name,
+        dose: dose ?? "",
+        schedule: schedule ?? "",
+      })),
+      medication_notes: medicationNotes,
+    },
+    null,
+    2
+  );
+
+  const { parsed, errors } = await completeValidatedJson(
+    llm,
+    {
+      json: true,
+      messages: [
+        { role: "system", content: systemPrompt },
+        {
+          role: "user",
+          content: `Reconcile medications for this visit:\n\n${input}`,
+        },
+      ],
+      maxTokens: 800,
+      temperature: 0.1,
+    },
+    validateMedicationReconciliationJson,
+    new PipelineError("No output from medication reconciliation step", "reconcile")
+  );
+
+  return requireValid("reconcile", errors, normalizeMedicationReconciliation(parsed));
+}
+
+const FINDING_LABELS: Record<MedicationFinding["type"], string> = {
+  missed_dose: "Missed dose",
+  unknown_medication: "Unlisted medication",
+  discrepancy: "Medication discrepancy",
+};
+
+/**
+ * Converts reconciliation findings into risk flags for the insights views.
+ * Evidence points at the first mention of the medication in the transcript.
+ */
+export function medicationFindingsToRiskFlags(
+  findings: MedicationFinding[],
+  cleanedTranscript?: string
+): RiskFlag[] {
+  return findings.map((f) => ({
+    risk: `${FINDING_LABELS[f.type]}: ${f.medication}`,
+    severity: f.severity,
+    reason: f.detail,
+    category: "medication" as const,
+    ...(cleanedTranscript
+      ? { evidence: locateEvidence(cleanedTranscript, [f.medication]) }
+      : {}),
+  }));
 }
 
 // =============================================================================
-// JSON Parsing
+// JSON Validation & Repair
 // =============================================================================
 
-function parseStructuredData(content: string): StructuredVisitData {
-  const json = extractJson(content);
+/** Re-prompts per step before the output is accepted as partial */
+const MAX_REPAIR_ATTEMPTS = 2;
 
-  try {
-    const parsed = JSON.parse(json) as unknown;
+/**
+ * Requests JSON and validates it against the step's schema. Invalid output is
+ * sent back to the model with the validation errors, up to
+ * MAX_REPAIR_ATTEMPTS times. Returns the last parsed value (null when it was
+ * not JSON) and the errors that remain.
+ *
+ * @param emptyError - Thrown when the first response is empty
+ */
+async function completeValidatedJson(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  validate: (value: unknown) => string[],
+  emptyError: PipelineError
+): Promise<{ parsed: unknown; errors: string[] }> {
+  let messages = request.messages;
+  let content = await llm.complete(request);
+
+  if (!content) {
+    throw emptyError;
+  }
 
-    if (!parsed || typeof parsed !== "object") {
-      return createEmptyStructuredData();
+  for (let attempt = 0; ; attempt++) {
+    const { parsed, errors } = parseJsonOutput(content, validate);
+    if (errors.length === 0 || attempt === MAX_REPAIR_ATTEMPTS) {
+      return { parsed, errors };
     }
 
-    return normalizeStructuredData(parsed);
+    messages = [
+      ...messages,
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your response did not match the required JSON schema:\n${errors
+          .map((e) => `- ${e}`)
+          .join("\n")}\n\nReturn the complete corrected JSON object only.`,
+      },
+    ];
+    content = await llm.complete({ ...request, messages });
+  }
+}
+
+function parseJsonOutput(
+  content: string,
+  validate: (value: unknown) => string[]
+): { parsed: unknown; errors: string[] } {
+  if (!content) {
+    return { parsed: null, errors: ["Response was empty"] };
+  }
+  try {
+    const parsed = JSON.parse(extractJson(content)) as unknown;
+    return { parsed, errors: validate(parsed) };
   } catch {
-    return createEmptyStructuredData();
+    return { parsed: null, errors: ["Response was not valid JSON"] };
   }
 }
 
-function parseRiskAnalysis(content: string): RiskAnalysis {
-  const json = extractJson(content);
+/** Returns `value` when valid; otherwise throws it as the salvaged partial */
+function requireValid<T>(step: PipelineStep, errors: string[], value: T): T {
+  if (errors.length > 0) {
+    throw new OutputValidationError(step, errors, value);
+  }
+  return value;
+}
 
-  try {
-    const parsed = JSON.parse(json) as unknown;
+// =============================================================================
+// JSON Normalization
+// =============================================================================
 
-    if (!parsed || typeof parsed !== "object") {
-      return { risk_flags: [] };
-    }
+function normalizeRiskAnalysis(parsed: unknown, transcript?: string): RiskAnalysis {
+  if (!parsed || typeof parsed !== "object") {
+    return { risk_flags: [] };
+  }
 
-    const obj = parsed as Record<string, unknown>;
-    const flags = Array.isArray(obj.risk_flags) ? obj.risk_flags : [];
+  const obj = parsed as Record<string, unknown>;
+  const flags = Array.isArray(obj.risk_flags) ? obj.risk_flags : [];
 
-    return {
-      risk_flags: flags
-        .filter(isValidRiskFlag)
-        .map((f) => ({
-          risk: typeof f.risk === "string" ? f.risk : "",
+  return {
+    risk_flags: flags
+      .filter(isValidRiskFlag)
+      .map((f) => {
+        const risk = typeof f.risk === "string" ? f.risk : "";
+        const reason = typeof f.reason === "string" ? f.reason : "";
+        return {
+          risk,
           severity: normalizeSeverity(f.severity),
-          reason: typeof f.reason === "string" ? f.reason : "",
-        })),
-    };
-  } catch {
-    return { risk_flags: [] };
+          reason,
+          category: isRiskCategory(f.category) ? f.category : categorizeRisk(risk, reason),
+          ...(transcript
+            ? { evidence: locateEvidence(transcript, f.evidence) }
+            : {}),
+        };
+      }),
+  };
+}
+
+function normalizeMedicationReconciliation(parsed: unknown): MedicationReconciliation {
+  if (!parsed || typeof parsed !== "object") {
+    return { findings: [] };
   }
+
+  const obj = parsed as Record<string, unknown>;
+  const findings = Array.isArray(obj.findings) ? obj.findings : [];
+
+  return {
+    findings: findings
+      .filter((f): f is Record<string, unknown> => f !== null && typeof f === "object")
+      .filter(
+        (f) =>
+          isValidFindingType(f.type) &&
+          typeof f.medication === "string" &&
+          f.medication.trim() !== ""
+      )
+      .map((f) => ({
+        type: f.type as MedicationFinding["type"],
+        medication: (f.medication as string).trim(),
+        detail: typeof f.detail === "string" ? f.detail : "",
+        severity: normalizeSeverity(f.severity),
+      })),
+  };
+}
+
+function isValidFindingType(v: unknown): v is MedicationFinding["type"] {
+  return v === "missed_dose" || v === "unknown_medication" || v === "discrepancy";
 }
 
 function extractJson(content: string): string {
@@ -262,17 +708,25 @@ function createEmptyStructuredData(): StructuredVisitData {
     concerns: [],
     suggested_followups: [],
     care_level_indicator: "stable",
+    vitals: {},
   };
 }
 
-function normalizeStructuredData(parsed: unknown): StructuredVisitData {
+function normalizeStructuredData(
+  parsed: unknown,
+  transcript: string
+): StructuredVisitData {
   const obj = parsed as Record<string, unknown>;
   const toArray = (v: unknown): string[] =>
     Array.isArray(v) ? v.map((x) => (typeof x === "string" ? x : "")) : [];
 
-  return {
+  const data: StructuredVisitData = {
     visit_summary: typeof obj.visit_summary === "string" ? obj.visit_summary : "",
     key_observations: toArray(obj.key_observations),
+    // Earlier prompt versions do not separate patient-reported symptoms
+    ...(obj.patient_reported !== undefined
+      ? { patient_reported: toArray(obj.patient_reported) }
+      : {}),
     activities_completed: toArray(obj.activities_completed),
     medication_notes: toArray(obj.medication_notes),
     concerns: toArray(obj.concerns),
@@ -280,7 +734,36 @@ function normalizeStructuredData(parsed: unknown): StructuredVisitData {
     care_level_indicator: isValidCareLevel(obj.care_level_indicator)
       ? obj.care_level_indicator
       : "stable",
+    vitals: normalizeVitals(obj.vitals),
   };
+
+  return { ...data, evidence: normalizeEvidence(data, obj.evidence, transcript) };
+}
+
+/**
+ * Resolves per-item evidence quotes to transcript spans. Items the model
+ * gave no locatable quote for fall back to the item text itself, which is
+ * often a near-verbatim sentence.
+ */
+function normalizeEvidence(
+  data: StructuredVisitData,
+  raw: unknown,
+  transcript: string
+): StructuredEvidence {
+  const quotes =
+    raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const evidence: StructuredEvidence = {};
+
+  for (const field of EVIDENCE_FIELDS) {
+    const items = data[field] ?? [];
+    if (items.length === 0) continue;
+    const perItem = Array.isArray(quotes[field]) ? (quotes[field] as unknown[]) : [];
+    evidence[field] = items.map((item, i) => {
+      const spans = locateEvidence(transcript, perItem[i]);
+      return spans.length > 0 ? spans : locateEvidence(transcript, [item]);
+    });
+  }
+  return evidence;
 }
 
 function isValidCareLevel(
@@ -289,7 +772,15 @@ function isValidCareLevel(
   return v === "stable" || v === "watch" || v === "attention_needed";
 }
 
-function isValidRiskFlag(v: unknown): v is { risk?: unknown; severity?: unknown; reason?: unknown } {
+function isValidRiskFlag(
+  v: unknown
+): v is {
+  risk?: unknown;
+  severity?: unknown;
+  reason?: unknown;
+  category?: unknown;
+  evidence?: unknown;
+} {
   return v !== null && typeof v === "object";
 }
 
@@ -309,14 +800,21 @@ function normalizeSeverity(v: unknown): "low" | "medium" | "high" {
  * 1. Clean transcript
  * 2. Structure visit data
  * 3. Analyze risks
+ * 4. Reconcile medications (only when a medication list is supplied)
  *
  * @param text - Raw transcript from voice-to-text
+ * @param options - Patient context (medication list, known names), PHI
+ *   redaction settings and an optional progress callback
+ * JSON steps whose output stays invalid after repair keep what could be
+ * salvaged and mark the result "partial" instead of failing the run.
+ *
  * @returns Pipeline result with cleaned transcript, structured data, and risks
  * @throws PipelineError when a step fails
  */
 export async function analyzeCaregiverTranscript(
   text: string,
-  client?: OpenAI
+  client?: PipelineClient,
+  options: PipelineOptions = {}
 ): Promise<PipelineResult> {
   const trimmed = text?.trim() ?? "";
 
@@ -327,45 +825,384 @@ export async function analyzeCaregiverTranscript(
     );
   }
 
-  return analyzeCaregiverTranscriptInternal(trimmed, client);
+  const redaction =
+    options.redaction === false ? null : options.redaction ?? getPhiRedactionConfig();
+
+  if (!redaction) {
+    const cache = options.cache ?? getPipelineCache(false) ?? false;
+    return withSegments(
+      await analyzeCaregiverTranscriptInternal(trimmed, client, { ...options, cache }),
+      options.segments
+    );
+  }
+
+  const redacted = redactPhi(trimmed, {
+    ...redaction,
+    knownNames: [...(redaction.knownNames ?? []), ...(options.knownNames ?? [])],
+  });
+  const redactedCount = redacted.map.size;
+  if (redactedCount > 0) {
+    console.log(
+      `[ai/pipeline] Redacted ${redactedCount} PHI value(s): ${JSON.stringify(redacted.counts)}`
+    );
+  }
+
+  const result = await analyzeCaregiverTranscriptInternal(redacted.text, client, {
+    ...options,
+    onEvent: options.onEvent && reidentifyEvents(options.onEvent, redacted.map),
+  });
+  return withSegments(
+    reidentifyResult(result, redacted.map, result.cleanedTranscript),
+    options.segments
+  );
+}
+
+/** Attaches the recording's speaker turns; they are never sent to the model */
+function withSegments(
+  result: PipelineResult,
+  segments: TranscriptSegment[] | undefined
+): PipelineResult {
+  return segments && segments.length > 0 ? { ...result, segments } : result;
+}
+
+/**
+ * Restores redacted values throughout a (partial) result and shifts evidence
+ * spans to match the restored transcript.
+ *
+ * @param transcript - The redacted cleaned transcript the spans refer to
+ */
+function reidentifyResult<T extends Partial<PipelineResult>>(
+  result: T,
+  map: RedactionMap,
+  transcript: string
+): T {
+  if (map.size === 0) return result;
+
+  const { text, mapSpan } = reidentifyWithOffsets(transcript, map);
+  const restored = reidentifyDeep(result, map);
+  const { structuredData, risks } = restored;
+  const evidence = structuredData?.evidence;
+
+  return {
+    ...restored,
+    ...(restored.cleanedTranscript !== undefined ? { cleanedTranscript: text } : {}),
+    ...(structuredData
+      ? {
+          structuredData: {
+            ...structuredData,
+            ...(evidence
+              ? {
+                  evidence: Object.fromEntries(
+                    Object.entries(evidence).map(([field, items]) => [
+                      field,
+                      items.map((spans) => spans.map(mapSpan)),
+                    ])
+                  ),
+                }
+              : {}),
+          },
+        }
+      : {}),
+    ...(risks
+      ? {
+          risks: {
+            risk_flags: risks.risk_flags.map((flag) =>
+              flag.evidence ? { ...flag, evidence: flag.evidence.map(mapSpan) } : flag
+            ),
+          },
+        }
+      : {}),
+  };
+}
+
+/** Wraps an event callback so streamed tokens and step data are re-identified */
+function reidentifyEvents(
+  onEvent: (event: PipelineEvent) => void,
+  map: RedactionMap
+): (event: PipelineEvent) => void {
+  if (map.size === 0) return onEvent;
+
+  let redactedTranscript = "";
+  let stream = createStreamReidentifier(map);
+
+  return (event) => {
+    switch (event.type) {
+      case "step_started":
+      case "step_retry":
+        stream = createStreamReidentifier(map);
+        onEvent(event);
+        return;
+      case "token": {
+        const delta = stream.push(event.delta);
+        if (delta) onEvent({ ...event, delta });
+        return;
+      }
+      case "step_finished": {
+        const rest = stream.flush();
+        if (rest) onEvent({ type: "token", step: event.step, delta: rest });
+        if (event.data.cleanedTranscript !== undefined) {
+          redactedTranscript = event.data.cleanedTranscript;
+        }
+        onEvent({ ...event, data: reidentifyResult(event.data, map, redactedTranscript) });
+      }
+    }
+  };
+}
+
+/** Provider view that forwards every completion's tokens to `onToken` */
+function withTokenStream(
+  llm: LLMProvider,
+  onToken: (delta: string) => void
+): LLMProvider {
+  return {
+    name: llm.name,
+    model: llm.model,
+    complete: (request) => llm.complete({ ...request, onToken }),
+  };
+}
+
+/** Registry prompt used by each step */
+const STEP_PROMPTS: Record<PipelineStep, PromptName> = {
+  clean: "transcript_cleaner",
+  structure: "clinical_structurer",
+  analyze: "risk_analyzer",
+  reconcile: "medication_reconciler",
+};
+
+interface StepSpec<T> {
+  step: PipelineStep;
+  failureMessage: string;
+  run: (stepClient: LLMProvider) => Promise<T>;
+  /** The part of the result this step's value fills in */
+  produced: (value: T) => Partial<PipelineResult>;
+  /** Output reused from a resume checkpoint */
+  previous?: T;
+  /** Step input to key the cache on; omit to skip caching */
+  cacheInput?: string;
+}
+
+/** Resolves the requested prompt versions; unknown versions fail the run */
+function resolveStepPrompts(
+  versions: PromptVersions = {}
+): Record<PipelineStep, PromptDefinition> {
+  const resolved = {} as Record<PipelineStep, PromptDefinition>;
+  for (const [step, name] of Object.entries(STEP_PROMPTS) as [PipelineStep, PromptName][]) {
+    try {
+      resolved[step] = getPrompt(name, versions[name]);
+    } catch (err) {
+      throw new PipelineError((err as Error).message, step, err);
+    }
+  }
+  return resolved;
+}
+
+function hashInput(
+  text: string,
+  prompts: Record<PipelineStep, PromptDefinition>,
+  llm: LLMProvider
+): string {
+  const versions = Object.values(prompts).map((p) => `${p.name}@${p.version}`);
+  return createHash("sha256")
+    .update(JSON.stringify([text, versions, llm.name, llm.model]))
+    .digest("hex");
+}
+
+/** The prefix of `resume` that is usable for this input, in step order */
+function usableCheckpoint(
+  resume: PipelineCheckpoint | undefined,
+  inputHash: string
+): Omit<PipelineCheckpoint, "inputHash"> {
+  if (!resume) return {};
+  if (resume.inputHash !== inputHash) {
+    console.warn("[ai/pipeline] Ignoring resume checkpoint for a different transcript");
+    return {};
+  }
+  const { cleanedTranscript, structuredData, risks, issues } = resume;
+  if (cleanedTranscript === undefined) return {};
+  if (!structuredData) return { cleanedTranscript, issues };
+  return { cleanedTranscript, structuredData, risks, issues };
 }
 
 async function analyzeCaregiverTranscriptInternal(
   text: string,
-  client?: OpenAI
+  client: PipelineClient | undefined,
+  options: PipelineOptions
 ): Promise<PipelineResult> {
-  const openai = client ?? getOpenAIClient();
+  const llm = resolveLLMProvider(client);
+  const { onEvent } = options;
+  const policy = { ...getRetryPolicy(), ...options.retry };
+  const prompts = resolveStepPrompts(options.promptVersions);
+  const inputHash = hashInput(text, prompts, llm);
+  const resumed = usableCheckpoint(options.resume, inputHash);
+  const issues: PipelineIssue[] = [...(resumed.issues ?? [])];
+  const checkpoint: PipelineCheckpoint = { inputHash };
+  const cache = options.cache === false ? null : options.cache ?? getPipelineCache();
+  const cacheStatus: Partial<Record<PipelineStep, CacheStatus>> = {};
+  const provenance = (steps: PipelineStep[]): AnalysisProvenance => ({
+    provider: llm.name,
+    model: llm.model,
+    prompts: Object.fromEntries(steps.map((s) => [prompts[s].name, prompts[s].version])),
+  });
 
-  const cleanedTranscript = await cleanTranscript(text, openai).catch((err) => {
-    throw new PipelineError(
-      err instanceof Error ? err.message : "Transcript cleaning failed",
-      "clean",
-      err
+  /**
+   * Runs one step with the retry policy, reporting progress and wrapping
+   * failures in PipelineError (with the checkpoint so far). Unrepairable
+   * output is recorded as an issue and its salvage is used. A step already
+   * in the resume checkpoint, or in the cache, is reported as finished
+   * without an LLM call; only fully valid output is cached.
+   */
+  const runStep = async <T>({
+    step,
+    failureMessage,
+    run,
+    produced,
+    previous,
+    cacheInput,
+  }: StepSpec<T>): Promise<T> => {
+    const finish = (value: T, extra: { cached?: true } = {}): T => {
+      onEvent?.({ type: "step_finished", step, data: produced(value), ...extra });
+      Object.assign(checkpoint, produced(value));
+      return value;
+    };
+
+    if (previous !== undefined) {
+      console.log(`[ai/pipeline] Resuming: reusing "${step}" output`);
+      return finish(previous);
+    }
+
+    const cacheKey =
+      cache && cacheInput !== undefined
+        ? createCacheKey({
+            step,
+            input: cacheInput,
+            // The hash guards against a released version edited in place
+            promptVersion: `${prompts[step].version}:${hashPrompt(prompts[step].text)}`,
+            model: `${llm.name}:${llm.model}`,
+          })
+        : undefined;
+
+    if (cache && cacheKey) {
+      const hit = (await cache.get(cacheKey).catch(() => undefined)) as T | undefined;
+      if (hit !== undefined) {
+        cacheStatus[step] = "hit";
+        return finish(hit, { cached: true });
+      }
+      cacheStatus[step] = "miss";
+    }
+
+    onEvent?.({ type: "step_started", step });
+    const streaming = onEvent
+      ? withTokenStream(llm, (delta) => onEvent({ type: "token", step, delta }))
+      : llm;
+    const stepClient = withRetry(
+      streaming,
+      { ...policy, timeoutMs: options.stepTimeoutsMs?.[step] ?? policy.timeoutMs },
+      (retry) => {
+        console.warn(
+          `[ai/pipeline] Step "${step}" attempt ${retry.attempt} failed (${retry.reason}); retrying in ${retry.delayMs}ms`
+        );
+        onEvent?.({ type: "step_retry", step, ...retry });
+      }
     );
+
+    let valid = true;
+    const value = await run(stepClient).catch((err) => {
+      if (err instanceof OutputValidationError) {
+        console.warn(
+          `[ai/pipeline] Step "${step}" output invalid after repair: ${err.errors.length} schema error(s)`
+        );
+        issues.push({ step, errors: err.errors });
+        valid = false;
+        return err.partial as T;
+      }
+      throw new PipelineError(
+        err instanceof Error ? err.message : failureMessage,
+        step,
+        err,
+        { ...checkpoint, ...(issues.length > 0 ? { issues: [...issues] } : {}) }
+      );
+    });
+
+    if (cache && cacheKey && valid) {
+      await cache.set(cacheKey, value).catch((err) => {
+        console.warn(`[ai/pipeline] Could not cache "${step}" output:`, err);
+      });
+    }
+    return finish(value);
+  };
+
+  const cleanedTranscript = await runStep({
+    step: "clean",
+    failureMessage: "Transcript cleaning failed",
+    run: (c) => cleanTranscript(text, c, prompts.clean.text),
+    produced: (cleanedTranscript) => ({ cleanedTranscript }),
+    previous: resumed.cleanedTranscript,
+    cacheInput: text,
   });
 
-  const structuredData = await structureVisitData(
-    cleanedTranscript,
-    openai
-  ).catch((err) => {
-    throw new PipelineError(
-      err instanceof Error ? err.message : "Clinical structuring failed",
-      "structure",
-      err
-    );
+  const structuredData = await runStep({
+    step: "structure",
+    failureMessage: "Clinical structuring failed",
+    run: (c) => structureVisitData(cleanedTranscript, c, prompts.structure.text),
+    produced: (structuredData) => ({ structuredData }),
+    previous: resumed.structuredData,
+    cacheInput: cleanedTranscript,
   });
 
-  const risks = await analyzeRisks(structuredData, openai).catch((err) => {
-    throw new PipelineError(
-      err instanceof Error ? err.message : "Risk analysis failed",
-      "analyze",
-      err
-    );
+  const risks = await runStep({
+    step: "analyze",
+    failureMessage: "Risk analysis failed",
+    run: (c) => analyzeRisks(structuredData, c, cleanedTranscript, prompts.analyze.text),
+    produced: (risks) => ({ risks }),
+    previous: resumed.risks,
+    cacheInput: JSON.stringify({ structuredData, cleanedTranscript }),
+  });
+
+  const medications = options.medications ?? [];
+  const medicationNotes = structuredData.medication_notes ?? [];
+
+  if (medications.length === 0 || medicationNotes.length === 0) {
+    return {
+      cleanedTranscript,
+      structuredData,
+      risks,
+      ...withMetadata(issues, cacheStatus),
+      provenance: provenance(["clean", "structure", "analyze"]),
+    };
+  }
+
+  const medicationReconciliation = await runStep({
+    step: "reconcile",
+    failureMessage: "Medication reconciliation failed",
+    run: (c) =>
+      reconcileMedications(medicationNotes, medications, c, prompts.reconcile.text),
+    produced: (medicationReconciliation) => ({ medicationReconciliation }),
   });
 
   return {
     cleanedTranscript,
     structuredData,
-    risks,
+    risks: {
+      risk_flags: [
+        ...risks.risk_flags,
+        ...medicationFindingsToRiskFlags(
+          medicationReconciliation.findings,
+          cleanedTranscript
+        ),
+      ],
+    },
+    medicationReconciliation,
+    ...withMetadata(issues, cacheStatus),
+    provenance: provenance(["clean", "structure", "analyze", "reconcile"]),
+  };
+}
+
+function withMetadata(
+  issues: PipelineIssue[],
+  cacheStatus: Partial<Record<PipelineStep, CacheStatus>>
+): Pick<PipelineResult, "status" | "issues" | "cache"> {
+  return {
+    ...(issues.length > 0 ? { status: "partial", issues } : { status: "complete" }),
+    ...(Object.keys(cacheStatus).length > 0 ? { cache: cacheStatus } : {}),
   };
 }
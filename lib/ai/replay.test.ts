@@ -0,0 +1,74 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { analyzeCaregiverTranscript } from "./pipeline";
+import { createMockLLMProvider } from "./mock";
+import { createReplayProvider, type ReplayFixture } from "./replay";
+import type { CompletionRequest, LLMProvider } from "./llm";
+
+/** A minimal request for `content` */
+function ask(content: string): CompletionRequest {
+  return { messages: [{ role: "user", content }], maxTokens: 100, temperature: 0 };
+}
+
+let dir: string;
+let fixturePath: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "replay-"));
+  fixturePath = path.join(dir, "fixture.json");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function readFixture(): Promise<ReplayFixture> {
+  return JSON.parse(await readFile(fixturePath, "utf8")) as ReplayFixture;
+}
+
+describe("createReplayProvider in record mode", () => {
+  it("saves every completion when calls overlap", async () => {
+    const upstream: LLMProvider = {
+      name: "fake",
+      model: "echo",
+      complete: async (request) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return `echo: ${request.messages[0].content}`;
+      },
+    };
+    const llm = await createReplayProvider(fixturePath, { mode: "record", upstream });
+
+    const prompts = ["a", "b", "c", "d", "e"];
+    await Promise.all(prompts.map((content) => llm.complete(ask(content))));
+
+    const fixture = await readFixture();
+    expect(Object.keys(fixture.interactions)).toHaveLength(prompts.length);
+    expect(fixture).toMatchObject({ provider: "fake", model: "echo" });
+
+    const replay = await createReplayProvider(fixturePath, { mode: "replay" });
+    expect(await replay.complete(ask("c"))).toBe("echo: c");
+  });
+
+  it("records only PHI-tokenized text", async () => {
+    const llm = await createReplayProvider(fixturePath, {
+      mode: "record",
+      upstream: createMockLLMProvider(),
+    });
+    const result = await analyzeCaregiverTranscript(
+      "Mrs. Thompson was dizzy when standing. Her daughter Sarah Lee visited. Call 555-123-4567.",
+      llm,
+      { cache: false, retry: { maxRetries: 0 } }
+    );
+
+    expect(result.cleanedTranscript).toContain("Thompson");
+    const recorded = JSON.stringify((await readFixture()).interactions);
+    expect(recorded).toContain("[NAME_1]");
+    for (const phi of ["Thompson", "Sarah Lee", "555-123-4567"]) {
+      expect(recorded).not.toContain(phi);
+    }
+  });
+});
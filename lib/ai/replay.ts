@@ -0,0 +1,194 @@
+/**
+ * Record/replay LLM provider - tests and offline tooling, server-side only
+ *
+ * Captures real completions once into a JSON fixture, then replays them
+ * deterministically with no network. Pass it as the pipeline's `client`:
+ *
+ *   const llm = await createReplayProvider("lib/ai/fixtures/replay/visit.json");
+ *   await analyzeCaregiverTranscript(text, llm, { cache: false });
+ *
+ * LLM_REPLAY=record calls the configured provider (see ./llm) for every
+ * request and rewrites the fixture entries; the default, "replay", fails on
+ * any request the fixture does not have. Requests are matched on their
+ * messages and sampling settings, so changing a prompt needs a re-record.
+ * Pipeline inputs are PHI-tokenized before any LLM call, so fixtures hold
+ * only redacted text.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  getLLMProvider,
+  type ChatMessage,
+  type CompletionRequest,
+  type LLMProvider,
+  type LLMProviderName,
+} from "./llm";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ReplayMode = "replay" | "record";
+
+export interface ReplayInteraction {
+  /** Kept for reviewing fixture diffs; matching uses the key */
+  messages: ChatMessage[];
+  json: boolean;
+  response: string;
+}
+
+export interface ReplayFixture {
+  version: 1;
+  /** Provider and model the interactions were recorded with */
+  provider: LLMProviderName;
+  model: string;
+  interactions: Record<string, ReplayInteraction>;
+}
+
+export interface ReplayOptions {
+  /** Defaults to LLM_REPLAY, then "replay" */
+  mode?: ReplayMode;
+  /** Provider to record from; defaults to the configured one */
+  upstream?: LLMProvider;
+}
+
+/** Thrown in replay mode for a request that was never recorded */
+export class ReplayMissError extends Error {
+  constructor(
+    public readonly fixturePath: string,
+    public readonly key: string
+  ) {
+    super(
+      `No recorded completion ${key.slice(0, 12)} in ${path.basename(fixturePath)}. ` +
+        "Re-record with LLM_REPLAY=record."
+    );
+    this.name = "ReplayMissError";
+  }
+}
+
+const FIXTURE_VERSION = 1;
+
+function getReplayMode(): ReplayMode {
+  return process.env.LLM_REPLAY?.trim().toLowerCase() === "record" ? "record" : "replay";
+}
+
+/** Stable key for a request: messages plus the settings that change output */
+export function createReplayKey(request: CompletionRequest): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.messages.map((m) => [m.role, m.content]),
+        request.json ?? false,
+        request.temperature,
+        request.maxTokens,
+      ])
+    )
+    .digest("hex");
+}
+
+// =============================================================================
+// Provider
+// =============================================================================
+
+export class ReplayLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  /** Keys served in this session, in order */
+  readonly served: string[] = [];
+  /** Pending fixture writes; chained so concurrent calls save in turn */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly fixturePath: string,
+    private readonly fixture: ReplayFixture,
+    /** Set when recording */
+    private readonly upstream?: LLMProvider
+  ) {
+    // Report the recorded model so provenance and cache keys match the recording
+    this.name = upstream?.name ?? fixture.provider;
+    this.model = upstream?.model ?? fixture.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const key = createReplayKey(request);
+    this.served.push(key);
+
+    if (this.upstream) {
+      const response = await this.upstream.complete(request);
+      this.fixture.provider = this.upstream.name;
+      this.fixture.model = this.upstream.model;
+      this.fixture.interactions[key] = {
+        messages: request.messages,
+        json: request.json ?? false,
+        response,
+      };
+      await this.save();
+      return response;
+    }
+
+    const interaction = this.fixture.interactions[key];
+    if (!interaction) {
+      throw new ReplayMissError(this.fixturePath, key);
+    }
+    // Stream word by word so callers exercise the same path as real providers
+    interaction.response.split(/(?<=\s)/).forEach((delta) => request.onToken?.(delta));
+    return interaction.response;
+  }
+
+  /**
+   * Written after every recorded call (temp file + rename). Pipeline steps
+   * call in parallel, so writes are queued and each writes the whole fixture
+   * as it is when its turn comes.
+   */
+  private save(): Promise<void> {
+    const write = this.writes.then(() => this.write());
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async write(): Promise<void> {
+    const tmpPath = `${this.fixturePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.fixturePath), { recursive: true });
+    await fs.writeFile(tmpPath, `${JSON.stringify(this.fixture, null, 2)}\n`, "utf8");
+    await fs.rename(tmpPath, this.fixturePath);
+  }
+}
+
+/**
+ * Loads `fixturePath` (a missing file is fine when recording) and returns a
+ * provider that replays or records against it.
+ */
+export async function createReplayProvider(
+  fixturePath: string,
+  options: ReplayOptions = {}
+): Promise<ReplayLLMProvider> {
+  const mode = options.mode ?? getReplayMode();
+  const upstream = mode === "record" ? options.upstream ?? getLLMProvider() : undefined;
+  let fixture: ReplayFixture | undefined;
+
+  try {
+    fixture = JSON.parse(await fs.readFile(fixturePath, "utf8")) as ReplayFixture;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    if (!upstream) {
+      throw new Error(`Replay fixture not found: ${fixturePath}. Record it with LLM_REPLAY=record.`);
+    }
+  }
+
+  if (fixture && fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported replay fixture version ${fixture.version} in ${fixturePath}`);
+  }
+
+  return new ReplayLLMProvider(
+    fixturePath,
+    fixture ?? {
+      version: FIXTURE_VERSION,
+      provider: upstream!.name,
+      model: upstream!.model,
+      interactions: {},
+    },
+    upstream
+  );
+}
@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getBackoffDelayMs,
+  getRetryAfterMs,
+  getRetryPolicy,
+  isRetryableError,
+  LLMTimeoutError,
+  withRetry,
+  type RetryEvent,
+  type RetryPolicy,
+} from "./retry";
+import type { CompletionRequest, LLMProvider } from "./llm";
+
+/** Short waits so retries run in real time */
+const FAST: RetryPolicy = { maxRetries: 2, timeoutMs: 50, baseDelayMs: 1, maxDelayMs: 5 };
+
+const REQUEST: CompletionRequest = {
+  messages: [{ role: "user", content: "Clean this transcript:\n\nok" }],
+  maxTokens: 16,
+  temperature: 0,
+};
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) });
+}
+
+/** Provider that plays `outcomes` in order: errors are thrown, strings returned */
+function provider(outcomes: (string | Error)[]) {
+  const complete = vi.fn<LLMProvider["complete"]>(async () => {
+    const next = outcomes.shift();
+    if (next instanceof Error) throw next;
+    return next ?? "";
+  });
+  const llm: LLMProvider = { name: "fake", model: "test", complete };
+  return { llm, complete };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// =============================================================================
+// Policy & classification
+// =============================================================================
+
+describe("getRetryPolicy", () => {
+  it("reads LLM_TIMEOUT_MS and LLM_MAX_RETRIES, ignoring invalid values", () => {
+    vi.stubEnv("LLM_TIMEOUT_MS", "1500");
+    vi.stubEnv("LLM_MAX_RETRIES", "0");
+    expect(getRetryPolicy()).toMatchObject({ timeoutMs: 1500, maxRetries: 0 });
+
+    vi.stubEnv("LLM_TIMEOUT_MS", "soon");
+    vi.stubEnv("LLM_MAX_RETRIES", "-1");
+    expect(getRetryPolicy()).toMatchObject({ timeoutMs: 60_000, maxRetries: 3 });
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each<[string, unknown, boolean]>([
+    ["timeout", new LLMTimeoutError(10), true],
+    ["rate limit", httpError(429), true],
+    ["server error", httpError(503), true],
+    ["request timeout", httpError(408), true],
+    ["bad request", httpError(400), false],
+    ["auth", httpError(401), false],
+    ["plain error", new Error("boom"), false],
+  ])("%s", (_, error, expected) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
+
+describe("getRetryAfterMs", () => {
+  const now = Date.UTC(2026, 0, 5, 12, 0, 0);
+
+  it("prefers retry-after-ms, then Retry-After seconds or date", () => {
+    expect(getRetryAfterMs(httpError(429, { "retry-after-ms": "250", "retry-after": "9" }))).toBe(250);
+    expect(getRetryAfterMs(httpError(429, { "retry-after": "3" }))).toBe(3000);
+    expect(
+      getRetryAfterMs(httpError(429, { "retry-after": new Date(now + 4000).toUTCString() }), now)
+    ).toBe(4000);
+  });
+
+  it("is undefined without a usable header", () => {
+    expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+    expect(getRetryAfterMs(httpError(429, { "retry-after": "later" }))).toBeUndefined();
+    expect(getRetryAfterMs(new Error("no headers"))).toBeUndefined();
+  });
+});
+
+describe("getBackoffDelayMs", () => {
+  const policy: RetryPolicy = { maxRetries: 5, timeoutMs: 1000, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it("jitters over a window that doubles per attempt, up to the cap", () => {
+    const max = () => 1;
+    expect([1, 2, 3, 4, 5].map((a) => getBackoffDelayMs(a, policy, undefined, max))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+    expect(getBackoffDelayMs(3, policy, undefined, () => 0.5)).toBe(200);
+  });
+
+  it("waits at least Retry-After, but never past the cap", () => {
+    expect(getBackoffDelayMs(1, policy, 700, () => 0)).toBe(700);
+    expect(getBackoffDelayMs(1, policy, 60_000, () => 0)).toBe(1000);
+  });
+});
+
+// =============================================================================
+// withRetry
+// =============================================================================
+
+describe("withRetry", () => {
+  it("retries retryable failures and reports each retry", async () => {
+    const { llm, complete } = provider([httpError(429), httpError(502), "done"]);
+    const events: RetryEvent[] = [];
+
+    await expect(withRetry(llm, FAST, (e) => events.push(e)).complete(REQUEST)).resolves.toBe("done");
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(events.map((e) => [e.attempt, e.reason])).toEqual([
+      [1, "HTTP 429"],
+      [2, "HTTP 502"],
+    ]);
+    expect(events.every((e) => e.delayMs <= FAST.maxDelayMs)).toBe(true);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { llm, complete } = provider([httpError(500), httpError(500), httpError(500), "late"]);
+    await expect(withRetry(llm, FAST).complete(REQUEST)).rejects.toThrow("HTTP 500");
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry client errors", async () => {
+    const { llm, complete } = provider([httpError(400), "never"]);
+    await expect(withRetry(llm, FAST).complete(REQUEST)).rejects.toThrow("HTTP 400");
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts an attempt that exceeds the timeout, then retries", async () => {
+    const signals: AbortSignal[] = [];
+    const complete = vi.fn<LLMProvider["complete"]>(async (request) => {
+      if (request.signal) signals.push(request.signal);
+      // First attempt hangs and ignores the signal; the second answers
+      if (signals.length === 1) return new Promise<string>(() => {});
+      return "answered";
+    });
+    const llm: LLMProvider = { name: "fake", model: "test", complete };
+
+    await expect(withRetry(llm, FAST).complete(REQUEST)).resolves.toBe("answered");
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it("rejects with LLMTimeoutError when every attempt times out", async () => {
+    const complete = vi.fn<LLMProvider["complete"]>(() => new Promise<string>(() => {}));
+    const llm: LLMProvider = { name: "fake", model: "test", complete };
+
+    await expect(
+      withRetry(llm, { ...FAST, maxRetries: 1, timeoutMs: 10 }).complete(REQUEST)
+    ).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+});
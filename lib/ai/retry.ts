@@ -0,0 +1,182 @@
+/**
+ * Retry, timeout and backoff for LLM calls - server-side only
+ *
+ * Every completion the pipeline makes goes through a provider wrapped by
+ * `withRetry`: each attempt gets a timeout, and rate limits (429), server
+ * errors (5xx) and dropped connections are retried with exponential backoff
+ * and full jitter, waiting at least as long as the server's Retry-After.
+ *
+ * Configure with LLM_TIMEOUT_MS and LLM_MAX_RETRIES.
+ */
+
+import { APIConnectionError } from "openai";
+import type { CompletionRequest, LLMProvider } from "./llm";
+
+// =============================================================================
+// Types & config
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** First backoff delay; doubles with each retry */
+  baseDelayMs: number;
+  /** Cap on any single wait, including Retry-After */
+  maxDelayMs: number;
+}
+
+export interface RetryEvent {
+  /** The attempt that failed (1-based) */
+  attempt: number;
+  delayMs: number;
+  reason: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  timeoutMs: 60_000,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+/** Thrown when one attempt exceeds the policy timeout */
+export class LLMTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+function envInt(name: string): number | undefined {
+  const n = Number.parseInt(process.env[name]?.trim() ?? "", 10);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/** Default policy with LLM_TIMEOUT_MS / LLM_MAX_RETRIES overrides applied */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    timeoutMs: envInt("LLM_TIMEOUT_MS") || DEFAULT_RETRY_POLICY.timeoutMs,
+    maxRetries: envInt("LLM_MAX_RETRIES") ?? DEFAULT_RETRY_POLICY.maxRetries,
+  };
+}
+
+// =============================================================================
+// Error classification
+// =============================================================================
+
+function statusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/** Timeouts, dropped connections, 408, 409, 429 and 5xx */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError || error instanceof APIConnectionError) {
+    return true;
+  }
+  const status = statusOf(error);
+  return (
+    status !== undefined &&
+    (status === 408 || status === 409 || status === 429 || status >= 500)
+  );
+}
+
+/**
+ * Server-requested wait from `retry-after-ms` or `Retry-After` (seconds or
+ * an HTTP date), if any.
+ */
+export function getRetryAfterMs(error: unknown, now = Date.now()): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof (headers as Headers).get !== "function") return undefined;
+
+  const ms = Number((headers as Headers).get("retry-after-ms"));
+  if (Number.isFinite(ms) && ms > 0) return ms;
+
+  const value = (headers as Headers).get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry `attempt` (1-based): full jitter over an exponentially
+ * growing window, but never shorter than Retry-After.
+ */
+export function getBackoffDelayMs(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(random() * window);
+  return Math.min(policy.maxDelayMs, Math.max(jittered, retryAfterMs ?? 0));
+}
+
+// =============================================================================
+// Provider wrapper
+// =============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** One attempt, aborted (and rejected) once `timeoutMs` elapses */
+async function completeWithTimeout(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  timeoutMs: number
+): Promise<string> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    // Race as well as abort, so providers that ignore the signal still time out
+    return await Promise.race([
+      llm.complete({ ...request, signal: controller.signal }),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Provider view that applies the policy to every completion.
+ * `onRetry` is called before each wait, e.g. to reset streamed output.
+ */
+export function withRetry(
+  llm: LLMProvider,
+  policy: RetryPolicy,
+  onRetry?: (event: RetryEvent) => void
+): LLMProvider {
+  return {
+    name: llm.name,
+    model: llm.model,
+    async complete(request) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await completeWithTimeout(llm, request, policy.timeoutMs);
+        } catch (error) {
+          if (attempt > policy.maxRetries || !isRetryableError(error)) throw error;
+
+          const delayMs = getBackoffDelayMs(attempt, policy, getRetryAfterMs(error));
+          const reason = error instanceof Error ? error.message : String(error);
+          onRetry?.({ attempt, delayMs, reason });
+          await sleep(delayMs);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * LLM output schemas - server-side only
+ *
+ * Strict validators for the JSON each pipeline step asks the model for.
+ * Each returns human-readable errors (empty when valid) that are fed back to
+ * the model in a repair prompt. Errors name paths and expected types only,
+ * never the offending values, so they are safe to log.
+ */
+
+import { EVIDENCE_FIELDS } from "@/lib/evidence";
+import { RISK_CATEGORIES } from "@/lib/risk-categories";
+
+const CARE_LEVELS = ["stable", "watch", "attention_needed"];
+const FINDING_TYPES = ["missed_dose", "unknown_medication", "discrepancy"];
+const SEVERITIES = ["low", "medium", "high"];
+/** Normalized by the pipeline, so accepted as well */
+const SEVERITY_ALIASES = ["moderate", "urgent"];
+
+const STRUCTURED_LIST_FIELDS = [
+  "key_observations",
+  "activities_completed",
+  "medication_notes",
+  "concerns",
+  "suggested_followups",
+] as const;
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function checkEnum(
+  errors: string[],
+  path: string,
+  value: unknown,
+  allowed: string[]
+): void {
+  if (typeof value !== "string" || !allowed.includes(value)) {
+    errors.push(`${path} must be one of: ${allowed.join(", ")}`);
+  }
+}
+
+function checkSeverity(errors: string[], path: string, value: unknown): void {
+  const s = typeof value === "string" ? value.toLowerCase() : "";
+  if (!SEVERITIES.includes(s) && !SEVERITY_ALIASES.includes(s)) {
+    errors.push(`${path} must be one of: ${SEVERITIES.join(", ")}`);
+  }
+}
+
+/** CLINICAL_STRUCTURER output */
+export function validateStructuredVisitJson(value: unknown): string[] {
+  if (!isObject(value)) return ["Response must be a JSON object"];
+  const errors: string[] = [];
+
+  if (typeof value.visit_summary !== "string") {
+    errors.push("visit_summary must be a string");
+  }
+  for (const field of STRUCTURED_LIST_FIELDS) {
+    if (!isStringArray(value[field])) {
+      errors.push(`${field} must be an array of strings (use [] when empty)`);
+    }
+  }
+  checkEnum(errors, "care_level_indicator", value.care_level_indicator, CARE_LEVELS);
+
+  if (value.patient_reported !== undefined && !isStringArray(value.patient_reported)) {
+    errors.push("patient_reported must be an array of strings (use [] when empty)");
+  }
+
+  if (value.vitals !== undefined && !isObject(value.vitals)) {
+    errors.push("vitals must be an object");
+  }
+
+  if (value.evidence !== undefined) {
+    if (!isObject(value.evidence)) {
+      errors.push("evidence must be an object");
+    } else {
+      for (const field of EVIDENCE_FIELDS) {
+        const quotes = value.evidence[field];
+        if (quotes !== undefined && !(Array.isArray(quotes) && quotes.every(isStringArray))) {
+          errors.push(`evidence.${field} must be an array of quote arrays`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** RISK_ANALYZER output */
+export function validateRiskAnalysisJson(value: unknown): string[] {
+  if (!isObject(value)) return ["Response must be a JSON object"];
+  if (!Array.isArray(value.risk_flags)) {
+    return ["risk_flags must be an array (use [] when there are no risks)"];
+  }
+
+  const errors: string[] = [];
+  value.risk_flags.forEach((flag, i) => {
+    const path = `risk_flags[${i}]`;
+    if (!isObject(flag)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof flag.risk !== "string" || flag.risk.trim() === "") {
+      errors.push(`${path}.risk must be a non-empty string`);
+    }
+    checkSeverity(errors, `${path}.severity`, flag.severity);
+    // Optional so earlier prompt versions still validate; inferred when absent
+    if (flag.category !== undefined) {
+      checkEnum(errors, `${path}.category`, flag.category, RISK_CATEGORIES);
+    }
+    if (typeof flag.reason !== "string") {
+      errors.push(`${path}.reason must be a string`);
+    }
+    if (flag.evidence !== undefined && !isStringArray(flag.evidence)) {
+      errors.push(`${path}.evidence must be an array of strings`);
+    }
+  });
+  return errors;
+}
+
+/** MEDICATION_RECONCILER output */
+export function validateMedicationReconciliationJson(value: unknown): string[] {
+  if (!isObject(value)) return ["Response must be a JSON object"];
+  if (!Array.isArray(value.findings)) {
+    return ["findings must be an array (use [] when there is nothing to report)"];
+  }
+
+  const errors: string[] = [];
+  value.findings.forEach((finding, i) => {
+    const path = `findings[${i}]`;
+    if (!isObject(finding)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    checkEnum(errors, `${path}.type`, finding.type, FINDING_TYPES);
+    if (typeof finding.medication !== "string" || finding.medication.trim() === "") {
+      errors.push(`${path}.medication must be a non-empty string`);
+    }
+    if (typeof finding.detail !== "string") {
+      errors.push(`${path}.detail must be a string`);
+    }
+    checkSeverity(errors, `${path}.severity`, finding.severity);
+  });
+  return errors;
+}
@@ -0,0 +1,163 @@
+import { chmod, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createTranscriptionProvider,
+  isTranscriptionConfigured,
+  WhisperCliProvider,
+  WhisperServerProvider,
+} from "./transcription";
+import { encodeWav } from "@/lib/audio-chunking";
+
+type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function stubEnv(vars: Record<string, string>) {
+  for (const name of [
+    "TRANSCRIBE_PROVIDER",
+    "TRANSCRIBE_BASE_URL",
+    "TRANSCRIBE_MODEL",
+    "TRANSCRIBE_DIARIZATION",
+    "WHISPER_MODEL_PATH",
+    "OPENAI_API_KEY",
+  ]) {
+    vi.stubEnv(name, vars[name] ?? "");
+  }
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("createTranscriptionProvider", () => {
+  it("defaults to OpenAI with diarization", () => {
+    stubEnv({ OPENAI_API_KEY: "sk-test" });
+    const provider = createTranscriptionProvider();
+    expect(provider.name).toBe("openai");
+    expect(provider.model).toBe("gpt-4o-transcribe-diarize");
+  });
+
+  it("uses whisper-1 when diarization is off", () => {
+    stubEnv({ OPENAI_API_KEY: "sk-test", TRANSCRIBE_DIARIZATION: "off" });
+    expect(createTranscriptionProvider().model).toBe("whisper-1");
+  });
+
+  it("selects local backends and transcribes one chunk at a time", () => {
+    stubEnv({
+      TRANSCRIBE_PROVIDER: "local",
+      TRANSCRIBE_BASE_URL: "http://localhost:8000/v1",
+      TRANSCRIBE_MODEL: "Systran/faster-whisper-small",
+    });
+    const local = createTranscriptionProvider();
+    expect(local).toMatchObject({ name: "local", model: "Systran/faster-whisper-small" });
+    expect(local.maxConcurrency).toBe(1);
+
+    stubEnv({ TRANSCRIBE_PROVIDER: "whisper-cli", WHISPER_MODEL_PATH: "/models/ggml-base.en.bin" });
+    expect(createTranscriptionProvider()).toMatchObject({
+      name: "whisper-cli",
+      model: "ggml-base.en.bin",
+    });
+  });
+
+  it("names the missing setting for local backends", () => {
+    stubEnv({ TRANSCRIBE_PROVIDER: "whisper-server" });
+    expect(() => createTranscriptionProvider()).toThrow(/TRANSCRIBE_BASE_URL/);
+
+    stubEnv({ TRANSCRIBE_PROVIDER: "whisper-cli" });
+    expect(() => createTranscriptionProvider()).toThrow(/WHISPER_MODEL_PATH/);
+  });
+
+  it("rejects an unknown provider", () => {
+    stubEnv({ TRANSCRIBE_PROVIDER: "carrier-pigeon" });
+    expect(() => createTranscriptionProvider()).toThrow(/TRANSCRIBE_PROVIDER/);
+  });
+});
+
+describe("isTranscriptionConfigured", () => {
+  it("does not need an OpenAI key for local backends", () => {
+    stubEnv({ TRANSCRIBE_PROVIDER: "whisper-server", TRANSCRIBE_BASE_URL: "http://127.0.0.1:8080" });
+    expect(isTranscriptionConfigured()).toBe(true);
+
+    stubEnv({ TRANSCRIBE_PROVIDER: "whisper-cli" });
+    expect(isTranscriptionConfigured()).toBe(false);
+
+    stubEnv({});
+    expect(isTranscriptionConfigured()).toBe(false);
+  });
+});
+
+describe("WhisperServerProvider", () => {
+  it("posts the recording to /inference and returns the text", async () => {
+    const fetch = vi.fn<Fetch>(async () => json({ text: " BP 128/82, ate lunch.\n" }));
+    vi.stubGlobal("fetch", fetch);
+
+    const provider = new WhisperServerProvider("http://127.0.0.1:8080");
+    const file = new File(["audio"], "recording.webm", { type: "audio/webm" });
+    const result = await provider.transcribe(file);
+
+    expect(result).toEqual({ text: "BP 128/82, ate lunch." });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("http://127.0.0.1:8080/inference");
+    const body = init?.body as FormData;
+    expect(body.get("response_format")).toBe("json");
+    expect((body.get("file") as File).name).toBe("recording.webm");
+  });
+
+  it("surfaces server errors", async () => {
+    vi.stubGlobal("fetch", vi.fn<Fetch>(async () => json({ error: "failed to read WAV file" })));
+    const provider = new WhisperServerProvider("http://127.0.0.1:8080");
+    await expect(provider.transcribe(new File(["x"], "a.wav"))).rejects.toThrow(
+      /failed to read WAV file/
+    );
+  });
+
+  it("gives up on a server that does not answer", async () => {
+    // Never responds; rejects only when the request is aborted
+    const fetch = vi.fn<Fetch>(
+      (_, init) =>
+        new Promise((_, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    const provider = new WhisperServerProvider(
+      "http://127.0.0.1:8080",
+      "whisper.cpp",
+      "/inference",
+      20
+    );
+    await expect(provider.transcribe(new File(["x"], "a.wav"))).rejects.toThrow(
+      /did not respond within 0.02s/
+    );
+  });
+});
+
+describe("WhisperCliProvider", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("kills a run that exceeds the timeout", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "caregiver-whisper-test-"));
+    const hang = path.join(dir, "whisper-cli");
+    await writeFile(hang, "#!/bin/sh\nexec sleep 30\n");
+    await chmod(hang, 0o755);
+
+    const provider = new WhisperCliProvider("/models/ggml-base.en.bin", hang, undefined, 100);
+    const wav = encodeWav(new Int16Array(1600), 16000);
+    await expect(provider.transcribe(new File([wav], "a.wav"))).rejects.toThrow(
+      /did not finish within 0.1s/
+    );
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Speech-to-text provider abstraction - server-side only
+ *
+ * /api/transcribe talks to a transcription backend through this interface so
+ * agencies that cannot send audio to a cloud vendor can keep voice capture
+ * on their own hardware: a self-hosted Whisper server, or whisper.cpp run
+ * on the CPU of the app server itself.
+ *
+ * Selected by TRANSCRIBE_PROVIDER:
+ * - "openai" (default): gpt-4o-transcribe-diarize, or whisper-1 with
+ *   TRANSCRIBE_DIARIZATION=off
+ * - "local": OpenAI-compatible server (faster-whisper-server, LocalAI, ...)
+ *   at TRANSCRIBE_BASE_URL
+ * - "whisper-server": whisper.cpp HTTP server at TRANSCRIBE_BASE_URL
+ * - "whisper-cli": whisper.cpp CLI with the ggml model at WHISPER_MODEL_PATH
+ */
+
+import { spawn } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import OpenAI from "openai";
+import { getOpenAIClient } from "./openai";
+import { CHUNK_SAMPLE_RATE, decodeAudio, encodeWav } from "@/lib/audio-chunking";
+import type { DiarizedSegment } from "@/lib/transcript-segments";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type TranscriptionProviderName = "openai" | "local" | "whisper-server" | "whisper-cli";
+
+export interface TranscriptionResult {
+  text: string;
+  /** Speaker-labelled segments; only from providers that diarize */
+  segments?: DiarizedSegment[];
+}
+
+/** Minimal speech-to-text contract used by /api/transcribe */
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName | "mock";
+  readonly model: string;
+  /** Largest file sent in one request; longer recordings are chunked first */
+  readonly maxFileSize: number;
+  /** Chunks of one recording transcribed at once */
+  readonly maxConcurrency: number;
+  transcribe(file: File): Promise<TranscriptionResult>;
+}
+
+/** The OpenAI audio endpoints' upload limit */
+const OPENAI_MAX_FILE_SIZE = 25 * 1024 * 1024; // 25 MB
+
+/** Longest one whisper.cpp request or run may take; a chunk is at most 10 minutes of audio */
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+
+// =============================================================================
+// Config
+// =============================================================================
+
+function env(name: string): string | undefined {
+  const v = process.env[name];
+  return v && v.trim() !== "" ? v.trim() : undefined;
+}
+
+function getProviderName(): TranscriptionProviderName {
+  const name = (env("TRANSCRIBE_PROVIDER") ?? "openai").toLowerCase();
+  if (name === "openai" || name === "local" || name === "whisper-server" || name === "whisper-cli") {
+    return name;
+  }
+  throw new Error(
+    `Unknown TRANSCRIBE_PROVIDER "${name}". Use one of: openai, local, whisper-server, whisper-cli.`
+  );
+}
+
+/** TRANSCRIBE_TIMEOUT_MS, for the whisper.cpp backends */
+function getTimeoutMs(): number {
+  const ms = Number(env("TRANSCRIBE_TIMEOUT_MS"));
+  return Number.isFinite(ms) && ms > 0 ? ms : DEFAULT_TIMEOUT_MS;
+}
+
+function isDiarizationEnabled(): boolean {
+  const v = env("TRANSCRIBE_DIARIZATION")?.toLowerCase();
+  return v !== "off" && v !== "false" && v !== "0";
+}
+
+function requireBaseUrl(provider: string, example: string): string {
+  const baseURL = env("TRANSCRIBE_BASE_URL");
+  if (!baseURL) {
+    throw new Error(`${provider} transcription requires TRANSCRIBE_BASE_URL (e.g. ${example}).`);
+  }
+  return baseURL.replace(/\/+$/, "");
+}
+
+// =============================================================================
+// OpenAI-compatible providers
+// =============================================================================
+
+/**
+ * Wraps an OpenAI SDK client: OpenAI itself, or any server implementing
+ * /v1/audio/transcriptions. Only gpt-4o-transcribe-diarize returns speakers.
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  constructor(
+    private readonly client: OpenAI,
+    public readonly model: string,
+    public readonly name: TranscriptionProviderName = "openai",
+    public readonly maxFileSize: number = OPENAI_MAX_FILE_SIZE,
+    public readonly maxConcurrency: number = 3
+  ) {}
+
+  private get diarize(): boolean {
+    return this.model === "gpt-4o-transcribe-diarize";
+  }
+
+  async transcribe(file: File): Promise<TranscriptionResult> {
+    if (this.diarize) {
+      // The SDK has no overload for diarized_json yet
+      const transcription = (await this.client.audio.transcriptions.create({
+        file,
+        model: this.model,
+        response_format: "diarized_json",
+        // Required for recordings longer than 30 seconds
+        chunking_strategy: "auto",
+      })) as unknown as OpenAI.Audio.TranscriptionDiarized;
+      const segments = transcription.segments ?? [];
+      return { text: transcription.text?.trim() ?? "", segments };
+    }
+
+    const transcription = await this.client.audio.transcriptions.create({
+      file,
+      model: this.model,
+      response_format: "text",
+    });
+    return { text: typeof transcription === "string" ? transcription.trim() : "" };
+  }
+}
+
+function createLocalProvider(): TranscriptionProvider {
+  const client = new OpenAI({
+    baseURL: requireBaseUrl("Local", "http://localhost:8000/v1"),
+    // Most local servers ignore the key, but the SDK requires one
+    apiKey: env("TRANSCRIBE_API_KEY") ?? "local",
+  });
+  // Self-hosted servers usually decode one request at a time
+  return new OpenAITranscriptionProvider(
+    client,
+    env("TRANSCRIBE_MODEL") ?? "whisper-1",
+    "local",
+    OPENAI_MAX_FILE_SIZE,
+    1
+  );
+}
+
+// =============================================================================
+// whisper.cpp
+// =============================================================================
+
+/** whisper.cpp `whisper-server`: multipart POST to /inference, JSON reply */
+export class WhisperServerProvider implements TranscriptionProvider {
+  readonly name = "whisper-server" as const;
+  readonly maxFileSize = OPENAI_MAX_FILE_SIZE;
+  readonly maxConcurrency = 1;
+
+  constructor(
+    private readonly baseURL: string,
+    public readonly model: string = "whisper.cpp",
+    private readonly inferencePath: string = "/inference",
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  async transcribe(file: File): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append("file", file, file.name);
+    form.append("response_format", "json");
+    form.append("temperature", "0.0");
+
+    // Covers reading the reply too: a server can hang after sending headers
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    try {
+      const res = await fetch(`${this.baseURL}${this.inferencePath}`, {
+        method: "POST",
+        body: form,
+        signal,
+      });
+      if (!res.ok) {
+        const detail = (await res.text()).slice(0, 200);
+        throw new Error(`whisper-server returned ${res.status}: ${detail}`);
+      }
+      const data = (await res.json()) as { text?: unknown; error?: unknown };
+      if (typeof data.error === "string") {
+        throw new Error(`whisper-server error: ${data.error}`);
+      }
+      return { text: typeof data.text === "string" ? data.text.trim() : "" };
+    } catch (err) {
+      if (signal.aborted) {
+        throw new Error(`whisper-server did not respond within ${this.timeoutMs / 1000}s`);
+      }
+      throw err;
+    }
+  }
+}
+
+/** Runs a command to completion; it is killed if it runs past `timeoutMs` */
+function runCommand(command: string, args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill("SIGKILL");
+    }, timeoutMs);
+    child.stdout.on("data", (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`Could not run ${command} (set WHISPER_CLI_PATH): ${error.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) reject(new Error(`${command} did not finish within ${timeoutMs / 1000}s`));
+      else if (code === 0) resolve(stdout);
+      else reject(new Error(`${command} exited with ${code}: ${stderr.trim().slice(-200)}`));
+    });
+  });
+}
+
+/**
+ * whisper.cpp `whisper-cli` on the app server's CPU. The CLI reads 16 kHz
+ * WAV, so recordings are decoded first (see lib/audio-chunking).
+ */
+export class WhisperCliProvider implements TranscriptionProvider {
+  readonly name = "whisper-cli" as const;
+  readonly maxFileSize = OPENAI_MAX_FILE_SIZE;
+  // Each run already uses every thread it is given
+  readonly maxConcurrency = 1;
+
+  constructor(
+    private readonly modelPath: string,
+    private readonly command: string = "whisper-cli",
+    private readonly threads?: number,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  get model(): string {
+    return path.basename(this.modelPath);
+  }
+
+  async transcribe(file: File): Promise<TranscriptionResult> {
+    const audio = await decodeAudio(file);
+    const dir = await mkdtemp(path.join(tmpdir(), "caregiver-whisper-"));
+    const wavPath = path.join(dir, "audio.wav");
+    try {
+      await writeFile(wavPath, encodeWav(audio.samples, CHUNK_SAMPLE_RATE));
+      const output = await runCommand(
+        this.command,
+        [
+          "-m",
+          this.modelPath,
+          "-f",
+          wavPath,
+          "--no-timestamps",
+          "--no-prints",
+          ...(this.threads ? ["-t", String(this.threads)] : []),
+        ],
+        this.timeoutMs
+      );
+      return { text: output.replace(/\s+/g, " ").trim() };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+/** Builds the provider selected by TRANSCRIBE_PROVIDER */
+export function createTranscriptionProvider(): TranscriptionProvider {
+  switch (getProviderName()) {
+    case "local":
+      return createLocalProvider();
+    case "whisper-server":
+      return new WhisperServerProvider(
+        requireBaseUrl("whisper-server", "http://127.0.0.1:8080"),
+        env("TRANSCRIBE_MODEL") ?? "whisper.cpp",
+        env("TRANSCRIBE_INFERENCE_PATH") ?? "/inference",
+        getTimeoutMs()
+      );
+    case "whisper-cli": {
+      const modelPath = env("WHISPER_MODEL_PATH");
+      if (!modelPath) {
+        throw new Error(
+          "whisper-cli transcription requires WHISPER_MODEL_PATH (e.g. ./models/ggml-base.en.bin)."
+        );
+      }
+      const threads = Number(env("WHISPER_THREADS"));
+      return new WhisperCliProvider(
+        modelPath,
+        env("WHISPER_CLI_PATH") ?? "whisper-cli",
+        Number.isInteger(threads) && threads > 0 ? threads : undefined,
+        getTimeoutMs()
+      );
+    }
+    default:
+      return new OpenAITranscriptionProvider(
+        getOpenAIClient(),
+        isDiarizationEnabled() ? "gpt-4o-transcribe-diarize" : "whisper-1"
+      );
+  }
+}
+
+let providerInstance: TranscriptionProvider | null = null;
+
+/**
+ * Get the configured singleton transcription provider.
+ * Throws if the selected provider is missing required configuration.
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  providerInstance ??= createTranscriptionProvider();
+  return providerInstance;
+}
+
+/**
+ * Check if the configured transcription provider has what it needs to run.
+ * Use this for graceful degradation in route handlers.
+ */
+export function isTranscriptionConfigured(): boolean {
+  let name: TranscriptionProviderName;
+  try {
+    name = getProviderName();
+  } catch {
+    return false;
+  }
+  switch (name) {
+    case "local":
+    case "whisper-server":
+      return !!env("TRANSCRIBE_BASE_URL");
+    case "whisper-cli":
+      return !!env("WHISPER_MODEL_PATH");
+    default:
+      return !!env("OPENAI_API_KEY");
+  }
+}
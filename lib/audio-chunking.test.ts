@@ -0,0 +1,103 @@
+import { chmod, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  AudioDecodeError,
+  decodeAudio,
+  decodeWav,
+  encodeWav,
+  findSilenceSplits,
+  resample,
+  splitAudioOnSilence,
+  type PcmAudio,
+} from "./audio-chunking";
+
+const RATE = 16000;
+
+/** A tone ("speech") broken by silent pauses, given as [start, end) seconds */
+function recording(seconds: number, pauses: [number, number][]): PcmAudio {
+  const samples = new Int16Array(seconds * RATE);
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / RATE;
+    const silent = pauses.some(([from, to]) => t >= from && t < to);
+    samples[i] = silent ? 0 : Math.round(8000 * Math.sin(2 * Math.PI * 220 * t));
+  }
+  return { samples, sampleRate: RATE };
+}
+
+describe("WAV encoding", () => {
+  it("round-trips 16-bit mono PCM", () => {
+    const samples = Int16Array.from([0, 1200, -1200, 32767, -32768]);
+    expect(decodeWav(encodeWav(samples, RATE))).toEqual({ samples, sampleRate: RATE });
+  });
+
+  it("returns null for anything but WAV", () => {
+    expect(decodeWav(new TextEncoder().encode("\x1aE\xdf\xa3 webm bytes"))).toBeNull();
+  });
+
+  it("resamples to the target rate", () => {
+    const audio = resample({ samples: new Int16Array(48000), sampleRate: 48000 }, RATE);
+    expect(audio.sampleRate).toBe(RATE);
+    expect(audio.samples).toHaveLength(RATE);
+  });
+});
+
+describe("findSilenceSplits", () => {
+  it("cuts inside the pauses", () => {
+    const audio = recording(10, [
+      [3, 3.6],
+      [6.5, 7.1],
+    ]);
+    const splits = findSilenceSplits(audio, { targetSeconds: 2, maxSeconds: 4 }).map(
+      (s) => s / RATE
+    );
+    expect(splits).toHaveLength(2);
+    expect(splits[0]).toBeGreaterThanOrEqual(3);
+    expect(splits[0]).toBeLessThan(3.6);
+    expect(splits[1]).toBeGreaterThanOrEqual(6.5);
+    expect(splits[1]).toBeLessThan(7.1);
+  });
+
+  it("does not cut a recording shorter than the maximum", () => {
+    expect(findSilenceSplits(recording(3, []), { targetSeconds: 1, maxSeconds: 4 })).toEqual([]);
+  });
+});
+
+describe("splitAudioOnSilence", () => {
+  it("covers the recording in chunks no longer than the maximum", () => {
+    const audio = recording(9, []);
+    const chunks = splitAudioOnSilence(audio, { targetSeconds: 2, maxSeconds: 3 });
+
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(9);
+    for (let i = 0; i < chunks.length; i++) {
+      expect(chunks[i].end - chunks[i].start).toBeLessThanOrEqual(3);
+      if (i > 0) expect(chunks[i].start).toBe(chunks[i - 1].end);
+    }
+    const total = chunks.reduce((n, c) => n + (decodeWav(c.wav)?.samples.length ?? 0), 0);
+    expect(total).toBe(audio.samples.length);
+  });
+});
+
+describe("decodeAudio", () => {
+  let dir: string;
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("kills an ffmpeg that hangs", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "caregiver-ffmpeg-test-"));
+    const hang = path.join(dir, "ffmpeg");
+    await writeFile(hang, "#!/bin/sh\nexec sleep 30\n");
+    await chmod(hang, 0o755);
+    vi.stubEnv("FFMPEG_PATH", hang);
+    vi.stubEnv("FFMPEG_TIMEOUT_MS", "100");
+
+    const decoded = decodeAudio(new Blob(["not a wav file"], { type: "audio/webm" }));
+    await expect(decoded).rejects.toBeInstanceOf(AudioDecodeError);
+    await expect(decoded).rejects.toThrow(/did not finish within 0.1s/);
+  });
+});
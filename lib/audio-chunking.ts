@@ -0,0 +1,305 @@
+/**
+ * Server-side audio chunking for long recordings - server-side only.
+ * Transcription providers cap uploads at 25 MB, which a full end-of-shift
+ * visit can exceed. Recordings are decoded to 16 kHz mono PCM (natively for
+ * 16-bit WAV, through ffmpeg for compressed formats), cut at the quietest
+ * pause near each target length so no word is split, and re-encoded as WAV
+ * chunks small enough to upload on their own.
+ */
+
+import { spawn } from "child_process";
+
+/** Decoded audio: mono 16-bit samples */
+export interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+export interface AudioChunk {
+  /** Seconds from the start of the recording */
+  start: number;
+  end: number;
+  /** 16-bit mono WAV */
+  wav: Uint8Array<ArrayBuffer>;
+}
+
+export interface SilenceSplitOptions {
+  /** Preferred chunk length; cuts are searched for from here on */
+  targetSeconds?: number;
+  /** No chunk is longer than this */
+  maxSeconds?: number;
+}
+
+/** The recording could not be decoded */
+export class AudioDecodeError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "AudioDecodeError";
+  }
+}
+
+/** Rate chunks are encoded at; 16 kHz mono WAV is ~1.9 MB per minute */
+export const CHUNK_SAMPLE_RATE = 16000;
+
+const DEFAULT_TARGET_SECONDS = 300;
+const DEFAULT_MAX_SECONDS = 600;
+
+/** Loudness is measured per frame... */
+const FRAME_MS = 50;
+/** ...and a pause is the quietest run of this many frames */
+const PAUSE_FRAMES = 10;
+
+// =============================================================================
+// WAV
+// =============================================================================
+
+function isWav(bytes: Uint8Array): boolean {
+  const tag = (at: number) => String.fromCharCode(...Array.from(bytes.subarray(at, at + 4)));
+  return bytes.length >= 12 && tag(0) === "RIFF" && tag(8) === "WAVE";
+}
+
+/**
+ * Decodes a 16-bit PCM WAV file, downmixed to mono. Returns null for other
+ * WAV encodings (float, 24-bit, compressed), which go through ffmpeg.
+ */
+export function decodeWav(bytes: Uint8Array): PcmAudio | null {
+  if (!isWav(bytes)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let format = 0;
+
+  for (let at = 12; at + 8 <= bytes.length; ) {
+    const id = String.fromCharCode(...Array.from(bytes.subarray(at, at + 4)));
+    const size = view.getUint32(at + 4, true);
+    const body = at + 8;
+
+    if (id === "fmt ") {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (id === "data") {
+      if (format !== 1 || bitsPerSample !== 16 || channels < 1 || sampleRate < 1) return null;
+      const frames = Math.floor(Math.min(size, bytes.length - body) / (2 * channels));
+      const samples = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += view.getInt16(body + (i * channels + c) * 2, true);
+        }
+        samples[i] = Math.round(sum / channels);
+      }
+      return { samples, sampleRate };
+    }
+    // Chunks are padded to an even length
+    at = body + size + (size % 2);
+  }
+  return null;
+}
+
+/** 16-bit mono PCM WAV */
+export function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (at: number, tag: string) => {
+    for (let i = 0; i < 4; i++) bytes[at + i] = tag.charCodeAt(i);
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, samples[i], true);
+  }
+  return bytes;
+}
+
+/** Linear resampling; plenty for speech going to a transcription model */
+export function resample(audio: PcmAudio, sampleRate: number): PcmAudio {
+  if (audio.sampleRate === sampleRate) return audio;
+  const ratio = audio.sampleRate / sampleRate;
+  const length = Math.floor(audio.samples.length / ratio);
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const pos = i * ratio;
+    const j = Math.floor(pos);
+    const next = audio.samples[Math.min(j + 1, audio.samples.length - 1)];
+    samples[i] = Math.round(audio.samples[j] + (next - audio.samples[j]) * (pos - j));
+  }
+  return { samples, sampleRate };
+}
+
+// =============================================================================
+// Decoding
+// =============================================================================
+
+/** Decoding takes seconds even for hours of audio; past this ffmpeg is stuck */
+const DEFAULT_FFMPEG_TIMEOUT_MS = 120_000;
+
+function ffmpegPath(): string {
+  return process.env.FFMPEG_PATH?.trim() || "ffmpeg";
+}
+
+function ffmpegTimeoutMs(): number {
+  const ms = Number(process.env.FFMPEG_TIMEOUT_MS);
+  return Number.isFinite(ms) && ms > 0 ? ms : DEFAULT_FFMPEG_TIMEOUT_MS;
+}
+
+/** Decodes any format ffmpeg reads to 16 kHz mono PCM; ffmpeg is killed if it hangs */
+function decodeWithFfmpeg(bytes: Uint8Array): Promise<PcmAudio> {
+  const timeoutMs = ffmpegTimeoutMs();
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(
+      ffmpegPath(),
+      [
+        "-hide_banner",
+        "-loglevel",
+        "error",
+        "-i",
+        "pipe:0",
+        "-f",
+        "s16le",
+        "-ac",
+        "1",
+        "-ar",
+        String(CHUNK_SAMPLE_RATE),
+        "pipe:1",
+      ],
+      { stdio: ["pipe", "pipe", "pipe"] }
+    );
+    const output: Buffer[] = [];
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      ffmpeg.kill("SIGKILL");
+    }, timeoutMs);
+
+    ffmpeg.stdout.on("data", (data: Buffer) => output.push(data));
+    ffmpeg.stderr.on("data", (data: Buffer) => {
+      stderr += data.toString();
+    });
+    // ffmpeg may stop reading early on a corrupt file; the exit code reports it
+    ffmpeg.stdin.on("error", () => undefined);
+    ffmpeg.on("error", (error) => {
+      clearTimeout(timer);
+      reject(
+        new AudioDecodeError(
+          "Long recordings need ffmpeg on the server. Install it or set FFMPEG_PATH.",
+          error
+        )
+      );
+    });
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(
+          new AudioDecodeError(
+            `Could not decode audio: ffmpeg did not finish within ${timeoutMs / 1000}s`
+          )
+        );
+        return;
+      }
+      if (code !== 0) {
+        const detail = stderr.trim() || `ffmpeg exited with ${code}`;
+        reject(new AudioDecodeError(`Could not decode audio: ${detail}`));
+        return;
+      }
+      const pcm = Buffer.concat(output);
+      const samples = new Int16Array(Math.floor(pcm.length / 2));
+      for (let i = 0; i < samples.length; i++) samples[i] = pcm.readInt16LE(i * 2);
+      resolve({ samples, sampleRate: CHUNK_SAMPLE_RATE });
+    });
+
+    ffmpeg.stdin.end(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+  });
+}
+
+/** Decodes a recording to mono PCM at CHUNK_SAMPLE_RATE */
+export async function decodeAudio(file: Blob): Promise<PcmAudio> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const wav = decodeWav(bytes);
+  return wav ? resample(wav, CHUNK_SAMPLE_RATE) : decodeWithFfmpeg(bytes);
+}
+
+// =============================================================================
+// Silence Splitting
+// =============================================================================
+
+/** RMS loudness of each FRAME_MS frame */
+function frameLoudness(audio: PcmAudio): Float64Array {
+  const frameSize = Math.max(1, Math.round((audio.sampleRate * FRAME_MS) / 1000));
+  const frames = new Float64Array(Math.ceil(audio.samples.length / frameSize));
+  for (let f = 0; f < frames.length; f++) {
+    const end = Math.min((f + 1) * frameSize, audio.samples.length);
+    let sum = 0;
+    for (let i = f * frameSize; i < end; i++) sum += audio.samples[i] * audio.samples[i];
+    frames[f] = Math.sqrt(sum / (end - f * frameSize));
+  }
+  return frames;
+}
+
+/**
+ * Sample offsets to cut the recording at. Each chunk runs at least
+ * `targetSeconds` and at most `maxSeconds`, and ends in the middle of the
+ * quietest pause in between, so cuts fall between words.
+ */
+export function findSilenceSplits(audio: PcmAudio, options: SilenceSplitOptions = {}): number[] {
+  const maxSeconds = options.maxSeconds ?? DEFAULT_MAX_SECONDS;
+  const targetSeconds = Math.min(options.targetSeconds ?? DEFAULT_TARGET_SECONDS, maxSeconds);
+  const frameSize = Math.max(1, Math.round((audio.sampleRate * FRAME_MS) / 1000));
+  const framesPerSecond = audio.sampleRate / frameSize;
+  const loudness = frameLoudness(audio);
+  const target = Math.max(1, Math.floor(targetSeconds * framesPerSecond));
+  const max = Math.max(target, Math.floor(maxSeconds * framesPerSecond));
+
+  // Loudness summed over each PAUSE_FRAMES window, via prefix sums
+  const prefix = new Float64Array(loudness.length + 1);
+  for (let f = 0; f < loudness.length; f++) prefix[f + 1] = prefix[f] + loudness[f];
+  const pause = Math.min(PAUSE_FRAMES, target);
+  const windowLoudness = (f: number) => prefix[f + pause] - prefix[f];
+
+  const half = Math.floor(pause / 2);
+
+  const splits: number[] = [];
+  for (let start = 0; loudness.length - start > max; ) {
+    // Windows centred between start + target and start + max
+    const first = start + target - half;
+    let best = first;
+    for (let f = first + 1; f <= start + max - pause; f++) {
+      if (windowLoudness(f) < windowLoudness(best)) best = f;
+    }
+    const cut = best + half;
+    splits.push(cut * frameSize);
+    start = cut;
+  }
+  return splits;
+}
+
+/** Cuts a recording into WAV chunks on silence boundaries */
+export function splitAudioOnSilence(audio: PcmAudio, options: SilenceSplitOptions = {}): AudioChunk[] {
+  const bounds = [0, ...findSilenceSplits(audio, options), audio.samples.length];
+  const chunks: AudioChunk[] = [];
+  for (let i = 0; i + 1 < bounds.length; i++) {
+    const [from, to] = [bounds[i], bounds[i + 1]];
+    if (to <= from) continue;
+    chunks.push({
+      start: from / audio.sampleRate,
+      end: to / audio.sampleRate,
+      wav: encodeWav(audio.samples.subarray(from, to), audio.sampleRate),
+    });
+  }
+  return chunks;
+}
@@ -0,0 +1,56 @@
+/**
+ * Minimal IndexedDB access shared by the browser-side stores.
+ * Failures resolve to undefined rather than throwing: local persistence is
+ * best effort and must never break recording or analysis (IndexedDB is
+ * unavailable in some private-browsing modes).
+ */
+
+export interface BrowserDb {
+  name: string;
+  version: number;
+  /** Creates object stores; called when the database is new or upgraded */
+  upgrade: (db: IDBDatabase, oldVersion: number) => void;
+}
+
+const connections = new Map<string, Promise<IDBDatabase | null>>();
+
+function openDb({ name, version, upgrade }: BrowserDb): Promise<IDBDatabase | null> {
+  if (typeof window === "undefined" || !window.indexedDB) return Promise.resolve(null);
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve) => {
+      const request = window.indexedDB.open(name, version);
+      request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+}
+
+/**
+ * Runs `fn` in one transaction over `stores`; resolves with the result of
+ * the request it returns once the transaction has committed.
+ */
+export async function transact<T>(
+  database: BrowserDb,
+  stores: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb(database);
+  if (!db) return undefined;
+  return new Promise((resolve) => {
+    try {
+      const tx = db.transaction(stores, mode);
+      const request = fn(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => resolve(undefined);
+      tx.onabort = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+}
@@ -0,0 +1,10 @@
+/**
+ * Server-side persistence for patients and visit analyses
+ */
+
+export {
+  getPatientRepository,
+  RepositoryError,
+  type PatientRepository,
+  type PatientUpdate,
+} from "./patient-repository";
@@ -0,0 +1,193 @@
+/**
+ * Patient repository - server-side only
+ * Durable storage for patients and their visit analyses.
+ *
+ * Backed by a single JSON document on disk (CAREGIVER_DATA_DIR, default .data/).
+ * Writes are serialized and atomic (temp file + rename) so a crash mid-write
+ * never leaves a truncated store behind.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { AnalysisResult, Medication, Patient, PatientAcuity } from "@/types/patient";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Storage contract used by the /api/patients routes */
+export interface PatientRepository {
+  listPatients(): Promise<Patient[]>;
+  getPatient(id: string): Promise<Patient | null>;
+  createPatient(patient: Patient): Promise<Patient>;
+  updatePatient(patientId: string, update: PatientUpdate): Promise<Patient>;
+  addAnalysis(patientId: string, analysis: AnalysisResult): Promise<AnalysisResult>;
+  updateMedications(patientId: string, medications: Medication[]): Promise<Medication[]>;
+}
+
+/** Fields to change on a patient; null clears an optional field */
+export interface PatientUpdate {
+  payer?: string | null;
+  acuity?: PatientAcuity | null;
+}
+
+/** Repository error with a machine-readable code for route handlers */
+export class RepositoryError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "not_found" | "conflict" | "io",
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "RepositoryError";
+  }
+}
+
+interface StoreDocument {
+  version: 1;
+  patients: Patient[];
+}
+
+// =============================================================================
+// Config
+// =============================================================================
+
+const STORE_FILE = "patients.json";
+
+function getDataDir(): string {
+  const dir = process.env.CAREGIVER_DATA_DIR;
+  return dir && dir.trim() !== ""
+    ? path.resolve(dir)
+    : path.join(process.cwd(), ".data");
+}
+
+// =============================================================================
+// File-backed implementation
+// =============================================================================
+
+class FilePatientRepository implements PatientRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async listPatients(): Promise<Patient[]> {
+    const doc = await this.read();
+    return doc.patients;
+  }
+
+  async getPatient(id: string): Promise<Patient | null> {
+    const doc = await this.read();
+    return doc.patients.find((p) => p.id === id) ?? null;
+  }
+
+  createPatient(patient: Patient): Promise<Patient> {
+    return this.mutate((doc) => {
+      if (doc.patients.some((p) => p.id === patient.id)) {
+        throw new RepositoryError(`Patient ${patient.id} already exists`, "conflict");
+      }
+      doc.patients.push(patient);
+      return patient;
+    });
+  }
+
+  updatePatient(patientId: string, update: PatientUpdate): Promise<Patient> {
+    return this.mutate((doc) => {
+      const patient = doc.patients.find((p) => p.id === patientId);
+      if (!patient) {
+        throw new RepositoryError(`Patient ${patientId} not found`, "not_found");
+      }
+      if (update.payer !== undefined) {
+        if (update.payer === null) delete patient.payer;
+        else patient.payer = update.payer;
+      }
+      if (update.acuity !== undefined) {
+        if (update.acuity === null) delete patient.acuity;
+        else patient.acuity = update.acuity;
+      }
+      return patient;
+    });
+  }
+
+  addAnalysis(patientId: string, analysis: AnalysisResult): Promise<AnalysisResult> {
+    return this.mutate((doc) => {
+      const patient = doc.patients.find((p) => p.id === patientId);
+      if (!patient) {
+        throw new RepositoryError(`Patient ${patientId} not found`, "not_found");
+      }
+      // Visits are identified by timestamp: a retried save replaces its
+      // earlier copy instead of adding the visit twice.
+      // Newest first, matching the order the UI renders timelines in
+      patient.analyses = [
+        analysis,
+        ...patient.analyses.filter((a) => a.timestamp !== analysis.timestamp),
+      ].sort((a, b) => b.timestamp - a.timestamp);
+      return analysis;
+    });
+  }
+
+  updateMedications(patientId: string, medications: Medication[]): Promise<Medication[]> {
+    return this.mutate((doc) => {
+      const patient = doc.patients.find((p) => p.id === patientId);
+      if (!patient) {
+        throw new RepositoryError(`Patient ${patientId} not found`, "not_found");
+      }
+      patient.medications = medications;
+      return medications;
+    });
+  }
+
+  private async read(): Promise<StoreDocument> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as Partial<StoreDocument>;
+      return {
+        version: 1,
+        patients: Array.isArray(parsed.patients) ? parsed.patients : [],
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return { version: 1, patients: [] };
+      }
+      throw new RepositoryError("Could not read patient store", "io", err);
+    }
+  }
+
+  private mutate<T>(fn: (doc: StoreDocument) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const doc = await this.read();
+      const result = fn(doc);
+      await this.write(doc);
+      return result;
+    });
+    // Keep the queue alive even if this mutation fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(doc: StoreDocument): Promise<void> {
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(doc, null, 2), "utf8");
+      await fs.rename(tmpPath, this.filePath);
+    } catch (err) {
+      throw new RepositoryError("Could not write patient store", "io", err);
+    }
+  }
+}
+
+let repositoryInstance: PatientRepository | null = null;
+
+/**
+ * Get the singleton patient repository.
+ * Store location is controlled by CAREGIVER_DATA_DIR.
+ */
+export function getPatientRepository(): PatientRepository {
+  if (repositoryInstance) {
+    return repositoryInstance;
+  }
+  repositoryInstance = new FilePatientRepository(
+    path.join(getDataDir(), STORE_FILE)
+  );
+  return repositoryInstance;
+}
@@ -0,0 +1,43 @@
+/**
+ * Escalation rules config loading - server-side only
+ *
+ * Reads the agency's rules from ESCALATION_RULES_PATH (JSON) on every call,
+ * so protocol edits apply without a restart; falls back to the bundled
+ * config/escalation-rules.json.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  DEFAULT_ESCALATION_CONFIG,
+  EscalationConfigError,
+  parseEscalationConfig,
+  type EscalationConfig,
+} from "./escalation-rules";
+
+export interface LoadedEscalationConfig {
+  config: EscalationConfig;
+  /** "default" or the configured file path */
+  source: string;
+}
+
+/**
+ * Load and validate the configured rules.
+ * @throws EscalationConfigError when the file is not valid JSON or fails validation
+ */
+export async function loadEscalationConfig(): Promise<LoadedEscalationConfig> {
+  const configured = process.env.ESCALATION_RULES_PATH?.trim();
+  if (!configured) {
+    return { config: DEFAULT_ESCALATION_CONFIG, source: "default" };
+  }
+
+  const filePath = path.resolve(configured);
+  const raw = await fs.readFile(filePath, "utf8");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new EscalationConfigError([`${path.basename(filePath)} is not valid JSON: ${(err as Error).message}`]);
+  }
+  return { config: parseEscalationConfig(parsed), source: filePath };
+}
@@ -0,0 +1,329 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_ESCALATION_CONFIG,
+  EscalationConfigError,
+  evaluateEscalation,
+  parseEscalationConfig,
+  validateEscalationConfig,
+  type EscalationCondition,
+  type EscalationConfig,
+  type EscalationContext,
+} from "./escalation-rules";
+import { analysis, flag } from "./test-builders";
+import type { AnalysisResult, RiskFlag } from "@/types/patient";
+
+// =============================================================================
+// Builders
+// =============================================================================
+
+/** Action texts from the bundled rules */
+function defaultActions(risks: RiskFlag[]): string[] {
+  return evaluateEscalation(DEFAULT_ESCALATION_CONFIG, { analysis: analysis({}, risks) }).map(
+    (a) => a.text
+  );
+}
+
+/** True when a single rule with `when` fires for `ctx` */
+function fires(when: EscalationCondition, ctx: EscalationContext): boolean {
+  const config = parseEscalationConfig({
+    version: 1,
+    rules: [{ id: "r", when, action: { text: "Act", urgency: "today", recipient: "nurse" } }],
+  });
+  return evaluateEscalation(config, ctx).length > 0;
+}
+
+const CLINICIAN = "Consider notifying supervising nurse or clinician today.";
+const MONITOR = "Monitor closely over the next 24 hours.";
+const FALL = "Fall prevention measures may be warranted: clear pathways, adequate lighting, mobility assistance.";
+const MEDICATION = "Medication adherence and side effects may warrant review.";
+const ROUTINE = "Continue routine monitoring.";
+
+const severityArb = fc.constantFrom(
+  "high", "High", "HIGH", "medium", "Medium", "moderate", "Moderate", "low", "Low", "", "unknown"
+);
+const riskArb: fc.Arbitrary<RiskFlag> = fc.record({
+  risk: fc.constantFrom(
+    "Fall risk", "Medication adherence", "Cognitive change", "Swelling", "Pain", "Hydration", "Skin integrity"
+  ),
+  severity: severityArb,
+  reason: fc.string(),
+});
+
+// =============================================================================
+// Default rules
+// =============================================================================
+
+describe("default escalation rules", () => {
+  it.each<[string, RiskFlag[], string[]]>([
+    ["no risks", [], []],
+    ["one low risk", [flag("Hydration", "low")], [ROUTINE]],
+    ["one medium risk", [flag("Swelling", "medium")], [ROUTINE]],
+    ["a high risk", [flag("Swelling", "high")], [CLINICIAN]],
+    ["a high risk in any case", [flag("Swelling", "HIGH")], [CLINICIAN]],
+    ["two medium risks", [flag("Swelling", "medium"), flag("Pain", "medium")], [MONITOR]],
+    ["two moderate risks", [flag("Swelling", "moderate"), flag("Pain", "Moderate")], [MONITOR]],
+    ["medium and moderate mixed", [flag("Swelling", "medium"), flag("Pain", "moderate")], [MONITOR]],
+    ["a fall risk", [flag("Fall risk", "low")], [FALL]],
+    ["a high fall risk", [flag("Fall risk", "high")], [CLINICIAN, FALL]],
+    ["a medication risk", [flag("Medication adherence", "medium")], [MEDICATION]],
+    ["a 'meds' abbreviation", [flag("Missed meds", "low")], [MEDICATION]],
+    ["a word merely containing 'med'", [flag("Immediate swelling", "low")], [ROUTINE]],
+    ["a missing severity", [flag("Swelling", undefined as unknown as string)], [ROUTINE]],
+    [
+      "everything at once",
+      [flag("Fall risk", "high"), flag("Medication adherence", "medium"), flag("Pain", "moderate")],
+      [CLINICIAN, MONITOR, FALL, MEDICATION],
+    ],
+  ])("%s", (_, risks, expected) => {
+    expect(defaultActions(risks)).toEqual(expected);
+  });
+
+  it("tells the nurse to call a clinician whenever any risk is high", () => {
+    fc.assert(
+      fc.property(fc.array(riskArb), (risks) => {
+        const hasHigh = risks.some((r) => r.severity.toLowerCase() === "high");
+        expect(defaultActions(risks).includes(CLINICIAN)).toBe(hasHigh);
+      })
+    );
+  });
+
+  it("always suggests something when there is any risk", () => {
+    fc.assert(
+      fc.property(fc.array(riskArb, { minLength: 1 }), (risks) => {
+        expect(defaultActions(risks).length).toBeGreaterThan(0);
+      })
+    );
+  });
+
+  it("does not depend on risk order", () => {
+    fc.assert(
+      fc.property(fc.array(riskArb), (risks) => {
+        expect(defaultActions([...risks].reverse())).toEqual(defaultActions(risks));
+      })
+    );
+  });
+
+  it("treats 'moderate' exactly like 'medium'", () => {
+    fc.assert(
+      fc.property(fc.array(riskArb), (risks) => {
+        const asModerate = risks.map((r) =>
+          r.severity.toLowerCase() === "medium" ? { ...r, severity: "moderate" } : r
+        );
+        expect(defaultActions(asModerate)).toEqual(defaultActions(risks));
+      })
+    );
+  });
+});
+
+// =============================================================================
+// Conditions
+// =============================================================================
+
+describe("escalation conditions", () => {
+  const fall = analysis({}, [flag("Fall risk", "high")]);
+
+  it.each<[string, EscalationCondition, boolean]>([
+    ["category", { risk: { category: ["fall"] } }, true],
+    ["other category", { risk: { category: ["skin"] } }, false],
+    ["name substring", { risk: { name: "FALL" } }, true],
+    ["count below min", { risk: {}, min: 2 }, false],
+    ["count within max", { risk: {}, max: 1 }, true],
+    ["no risks", { risk: {}, max: 0 }, false],
+    ["all", { all: [{ risk: { category: ["fall"] } }, { risk: { severity: ["high"] } }] }, true],
+    ["any", { any: [{ risk: { category: ["skin"] } }, { risk: { severity: ["high"] } }] }, true],
+    ["not", { not: { risk: { category: ["fall"] } } }, false],
+  ])("%s", (_, when, expected) => {
+    expect(fires(when, { analysis: fall })).toBe(expected);
+  });
+
+  it("matches patient payer (case-insensitive) and acuity", () => {
+    const ctx = { analysis: fall, patient: { payer: "Medicaid", acuity: "high" as const } };
+    expect(fires({ payer: ["medicaid"] }, ctx)).toBe(true);
+    expect(fires({ payer: ["medicare"] }, ctx)).toBe(false);
+    expect(fires({ acuity: ["high"] }, ctx)).toBe(true);
+    expect(fires({ acuity: ["low", "moderate"] }, ctx)).toBe(false);
+    expect(fires({ payer: ["medicaid"] }, { analysis: fall })).toBe(false);
+  });
+
+  it("matches out-of-range vitals", () => {
+    const ctx = {
+      analysis: analysis({
+        vitals: { spo2: { value: 86, unit: "%" }, heart_rate: { value: 72, unit: "bpm" } },
+      }),
+    };
+    expect(fires({ vital: {} }, ctx)).toBe(true);
+    expect(fires({ vital: { key: ["spo2"], status: ["low"] } }, ctx)).toBe(true);
+    expect(fires({ vital: { key: ["heart_rate"] } }, ctx)).toBe(false);
+    expect(fires({ vital: {} }, { analysis: analysis() })).toBe(false);
+  });
+
+  it("matches care level", () => {
+    const ctx = { analysis: analysis({ care_level_indicator: "attention_needed" }) };
+    expect(fires({ careLevel: ["attention_needed"] }, ctx)).toBe(true);
+    expect(fires({ careLevel: ["stable"] }, ctx)).toBe(false);
+  });
+
+  it.each<[string, RiskFlag[], RiskFlag[] | null, EscalationCondition, boolean]>([
+    ["first visit has no trend", [flag("Fall risk", "low")], null, { trend: "new_risk" }, false],
+    ["new risk", [flag("Fall risk", "low")], [], { trend: "new_risk" }, true],
+    ["reworded risk is not new", [flag("Fall risk", "low")], [flag("Unsteady gait", "low")], { trend: "new_risk" }, false],
+    ["new risk in other category", [flag("Fall risk", "low")], [], { trend: "new_risk", category: ["skin"] }, false],
+    ["worsening", [flag("Fall risk", "high")], [flag("Fall risk", "moderate")], { trend: "worsening" }, true],
+    ["unchanged", [flag("Fall risk", "medium")], [flag("Fall risk", "Moderate")], { trend: "worsening" }, false],
+    ["improving is not worsening", [flag("Fall risk", "low")], [flag("Fall risk", "high")], { trend: "worsening" }, false],
+  ])("%s", (_, latest, previous, when, expected) => {
+    const ctx = { analysis: analysis({}, latest), previous: previous && analysis({}, previous) };
+    expect(fires(when, ctx)).toBe(expected);
+  });
+
+  it("matches new findings and improvements", () => {
+    const before = analysis({ concerns: ["Knee pain"] });
+    const after = analysis({ concerns: ["Ankle swelling"] });
+    expect(fires({ trend: "new_finding" }, { analysis: after, previous: before })).toBe(true);
+    expect(fires({ trend: "improving" }, { analysis: after, previous: before })).toBe(true);
+    expect(fires({ trend: "improving" }, { analysis: before, previous: before })).toBe(false);
+  });
+});
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+describe("evaluateEscalation", () => {
+  const config: EscalationConfig = parseEscalationConfig({
+    version: 1,
+    rules: [
+      {
+        id: "routine-fall",
+        when: { risk: { category: ["fall"] } },
+        action: { text: "Review fall plan.", urgency: "next_visit", recipient: "caregiver" },
+      },
+      {
+        id: "medicaid-high-acuity",
+        when: { all: [{ payer: ["medicaid"] }, { acuity: ["high"] }, { risk: { severity: ["high"] } }] },
+        action: { text: "Call the on-call clinician now.", urgency: "immediate", recipient: "clinician" },
+        stop: true,
+      },
+      {
+        id: "urgent-fall",
+        when: { risk: { category: ["fall"], severity: ["high"] } },
+        action: { text: "Review fall plan.", urgency: "today", recipient: "nurse" },
+      },
+    ],
+    fallback: { text: "Continue routine monitoring.", urgency: "routine", recipient: "caregiver" },
+  });
+  const highFall = analysis({}, [flag("Fall risk", "high")]);
+
+  it("orders by urgency and keeps repeated text once, at its most urgent", () => {
+    expect(evaluateEscalation(config, { analysis: highFall })).toEqual([
+      { ruleId: "urgent-fall", text: "Review fall plan.", urgency: "today", recipient: "nurse" },
+    ]);
+  });
+
+  it("stops after a rule marked stop", () => {
+    const actions = evaluateEscalation(config, {
+      analysis: highFall,
+      patient: { payer: "medicaid", acuity: "high" },
+    });
+    expect(actions.map((a) => a.ruleId)).toEqual(["medicaid-high-acuity", "routine-fall"]);
+  });
+
+  it("uses the fallback only when risks matched no rule", () => {
+    expect(evaluateEscalation(config, { analysis: analysis({}, [flag("Pain", "low")]) })).toEqual([
+      { ruleId: "fallback", text: "Continue routine monitoring.", urgency: "routine", recipient: "caregiver" },
+    ]);
+    expect(evaluateEscalation(config, { analysis: analysis() })).toEqual([]);
+  });
+
+  it("tolerates analyses missing every field", () => {
+    const legacy = { cleanedTranscript: "", timestamp: 0 } as unknown as AnalysisResult;
+    expect(evaluateEscalation(DEFAULT_ESCALATION_CONFIG, { analysis: legacy, previous: legacy })).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+describe("validateEscalationConfig", () => {
+  const action = { text: "Act", urgency: "today", recipient: "nurse" };
+
+  it("accepts the bundled config", () => {
+    expect(validateEscalationConfig(DEFAULT_ESCALATION_CONFIG)).toEqual([]);
+  });
+
+  it.each<[string, unknown, string]>([
+    ["a non-object", [], "config must be an object"],
+    ["a wrong version", { version: 2, rules: [] }, "version must be 1"],
+    ["missing rules", { version: 1 }, "rules must be an array"],
+    [
+      "duplicate ids",
+      { version: 1, rules: [{ id: "a", when: { risk: {} }, action }, { id: "a", when: { risk: {} }, action }] },
+      'rules[1].id "a" is duplicated',
+    ],
+    [
+      "an unknown condition",
+      { version: 1, rules: [{ id: "a", when: { riskz: {} }, action }] },
+      "rules[0].when has no known condition (got: riskz)",
+    ],
+    [
+      "an unknown category",
+      { version: 1, rules: [{ id: "a", when: { any: [{ risk: { category: ["falls"] } }] }, action }] },
+      "rules[0].when.any[0].risk.category[0] must be one of:",
+    ],
+    [
+      "min above max",
+      { version: 1, rules: [{ id: "a", when: { risk: {}, min: 3, max: 1 }, action }] },
+      "rules[0].when.min must not exceed rules[0].when.max",
+    ],
+    [
+      "a bad urgency",
+      { version: 1, rules: [{ id: "a", when: { risk: {} }, action: { ...action, urgency: "asap" } }] },
+      "rules[0].action.urgency must be one of:",
+    ],
+    ["a bad fallback", { version: 1, rules: [], fallback: { text: "" } }, "fallback.text must be a non-empty string"],
+    [
+      "a misspelled risk filter key",
+      { version: 1, rules: [{ id: "a", when: { risk: { categories: ["fall"] } }, action }] },
+      "rules[0].when.risk.categories is not a recognized key",
+    ],
+    [
+      "a misspelled vital filter key",
+      { version: 1, rules: [{ id: "a", when: { vital: { keys: ["spo2"] } }, action }] },
+      "rules[0].when.vital.keys is not a recognized key",
+    ],
+    [
+      "a key that belongs to another condition",
+      { version: 1, rules: [{ id: "a", when: { careLevel: ["watch"], min: 2 }, action }] },
+      "rules[0].when.min is not a recognized key",
+    ],
+    [
+      "a category on a trend without one",
+      { version: 1, rules: [{ id: "a", when: { trend: "new_finding", category: ["fall"] }, action }] },
+      "rules[0].when.category only applies to the new_risk and worsening trends",
+    ],
+    [
+      "two conditions in one object",
+      { version: 1, rules: [{ id: "a", when: { risk: {}, careLevel: ["watch"] }, action }] },
+      'rules[0].when combines risk, careLevel; wrap them in "all" or "any"',
+    ],
+    [
+      "an unknown rule key",
+      { version: 1, rules: [{ id: "a", when: { risk: {} }, action, priority: 1 }] },
+      "rules[0].priority is not a recognized key",
+    ],
+  ])("rejects %s", (_, config, error) => {
+    const errors = validateEscalationConfig(config);
+    expect(errors.some((e) => e.startsWith(error))).toBe(true);
+  });
+
+  it("throws EscalationConfigError with every error", () => {
+    expect(() => parseEscalationConfig({ version: 2 })).toThrow(EscalationConfigError);
+    try {
+      parseEscalationConfig({ version: 2 });
+    } catch (err) {
+      expect((err as EscalationConfigError).errors).toEqual(["version must be 1", "rules must be an array"]);
+    }
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * Declarative escalation rules engine.
+ * Turns a visit analysis into recommended actions using rules from a JSON
+ * config (config/escalation-rules.json, or ESCALATION_RULES_PATH on the
+ * server) so agencies can encode their own protocols per payer and acuity.
+ * Shared by the config route (validation) and the insights/dashboard views.
+ * Deterministic logic only.
+ *
+ * A rule fires when its `when` condition holds. Conditions:
+ *   { "all": [...] } | { "any": [...] } | { "not": {...} }
+ *   { "risk": { "category"?, "severity"?, "name"? }, "min"?, "max"? }
+ *       count of risk flags matching the filter (default min 1)
+ *   { "trend": "new_risk" | "worsening" | "new_finding" | "improving", "category"? }
+ *       "category" applies to new_risk and worsening only; findings have none
+ *   { "vital": { "key"?, "status"?, "severity"? } }   out-of-range vitals
+ *   { "careLevel": [...] } | { "payer": [...] } | { "acuity": [...] }
+ * A condition object holds exactly one kind; unknown keys fail validation.
+ * Matching actions are de-duplicated and ordered most urgent first; the
+ * `fallback` action applies when risks were flagged but no rule fired.
+ */
+
+import { RISK_CATEGORIES, riskCategoryOf, riskMatchKey, type RiskCategory } from "./risk-categories";
+import { computeTrendAnalysis } from "./insights-utils";
+import { assessVitals, VITAL_KEYS, type VitalKey } from "./vitals";
+import type { AnalysisResult, Patient, PatientAcuity, RiskFlag } from "@/types/patient";
+import DEFAULT_RULES from "@/config/escalation-rules.json";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type EscalationUrgency = "immediate" | "today" | "within_24h" | "next_visit" | "routine";
+
+export type EscalationRecipient =
+  | "caregiver"
+  | "nurse"
+  | "clinician"
+  | "care_coordinator"
+  | "family";
+
+export type RuleSeverity = "low" | "medium" | "high";
+
+export type TrendKind = "new_risk" | "worsening" | "new_finding" | "improving";
+
+export interface RiskFilter {
+  category?: RiskCategory[];
+  /** "moderate" flags count as "medium" */
+  severity?: RuleSeverity[];
+  /** Case-insensitive substring of the risk name */
+  name?: string;
+}
+
+export type EscalationCondition =
+  | { all: EscalationCondition[] }
+  | { any: EscalationCondition[] }
+  | { not: EscalationCondition }
+  | { risk: RiskFilter; min?: number; max?: number }
+  | { trend: "new_risk" | "worsening"; category?: RiskCategory[] }
+  | { trend: "new_finding" | "improving" }
+  | { vital: { key?: VitalKey[]; status?: ("low" | "high")[]; severity?: ("medium" | "high")[] } }
+  | { careLevel: string[] }
+  | { payer: string[] }
+  | { acuity: PatientAcuity[] };
+
+export interface EscalationActionSpec {
+  text: string;
+  urgency: EscalationUrgency;
+  recipient: EscalationRecipient;
+}
+
+export interface EscalationRule {
+  id: string;
+  description?: string;
+  when: EscalationCondition;
+  action: EscalationActionSpec;
+  /** Skip the remaining rules once this one fires */
+  stop?: boolean;
+}
+
+export interface EscalationConfig {
+  version: 1;
+  rules: EscalationRule[];
+  fallback?: EscalationActionSpec;
+}
+
+export interface EscalationAction extends EscalationActionSpec {
+  /** Rule that produced the action ("fallback" for the fallback) */
+  ruleId: string;
+}
+
+export interface EscalationContext {
+  analysis: AnalysisResult;
+  previous?: AnalysisResult | null;
+  patient?: Pick<Patient, "payer" | "acuity"> | null;
+}
+
+export const ESCALATION_URGENCIES: EscalationUrgency[] = [
+  "immediate",
+  "today",
+  "within_24h",
+  "next_visit",
+  "routine",
+];
+
+export const ESCALATION_RECIPIENTS: EscalationRecipient[] = [
+  "caregiver",
+  "nurse",
+  "clinician",
+  "care_coordinator",
+  "family",
+];
+
+export const URGENCY_LABELS: Record<EscalationUrgency, string> = {
+  immediate: "Now",
+  today: "Today",
+  within_24h: "Within 24h",
+  next_visit: "Next visit",
+  routine: "Routine",
+};
+
+export const RECIPIENT_LABELS: Record<EscalationRecipient, string> = {
+  caregiver: "Caregiver",
+  nurse: "Nurse",
+  clinician: "Clinician",
+  care_coordinator: "Care coordinator",
+  family: "Family",
+};
+
+/** Thrown when a rules config fails validation */
+export class EscalationConfigError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid escalation rules: ${errors.slice(0, 3).join("; ")}${errors.length > 3 ? "; …" : ""}`);
+    this.name = "EscalationConfigError";
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const SEVERITIES: RuleSeverity[] = ["low", "medium", "high"];
+const TRENDS: TrendKind[] = ["new_risk", "worsening", "new_finding", "improving"];
+const ACUITIES: PatientAcuity[] = ["low", "moderate", "high"];
+const CARE_LEVELS = ["stable", "watch", "attention_needed"];
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function checkEnumList(errors: string[], path: string, v: unknown, allowed: readonly string[]): void {
+  if (!Array.isArray(v) || v.length === 0) {
+    errors.push(`${path} must be a non-empty array`);
+    return;
+  }
+  v.forEach((item, i) => {
+    if (typeof item !== "string" || !allowed.includes(item)) {
+      errors.push(`${path}[${i}] must be one of: ${allowed.join(", ")}`);
+    }
+  });
+}
+
+function checkStringList(errors: string[], path: string, v: unknown): void {
+  if (!Array.isArray(v) || v.length === 0 || v.some((s) => typeof s !== "string" || !s.trim())) {
+    errors.push(`${path} must be a non-empty array of strings`);
+  }
+}
+
+function checkCount(errors: string[], path: string, v: unknown): void {
+  if (v !== undefined && !(typeof v === "number" && Number.isInteger(v) && v >= 0)) {
+    errors.push(`${path} must be a non-negative integer`);
+  }
+}
+
+/** Keys each condition kind allows beside its own */
+const CONDITION_KEYS: Record<string, string[]> = {
+  all: [],
+  any: [],
+  not: [],
+  risk: ["min", "max"],
+  trend: ["category"],
+  vital: [],
+  careLevel: [],
+  payer: [],
+  acuity: [],
+};
+
+/**
+ * Unknown keys are errors, not ignored: a misspelled filter would otherwise
+ * validate as an empty one and match everything.
+ */
+function checkKeys(errors: string[], path: string, v: Record<string, unknown>, allowed: string[]): void {
+  for (const key of Object.keys(v)) {
+    if (!allowed.includes(key)) {
+      errors.push(`${path}.${key} is not a recognized key (expected: ${allowed.join(", ")})`);
+    }
+  }
+}
+
+function checkCondition(errors: string[], path: string, v: unknown): void {
+  if (!isObject(v)) {
+    errors.push(`${path} must be a condition object`);
+    return;
+  }
+  const keys = Object.keys(v);
+  const kinds = keys.filter((k) => k in CONDITION_KEYS);
+
+  if (kinds.length > 1) {
+    errors.push(`${path} combines ${kinds.join(", ")}; wrap them in "all" or "any"`);
+    return;
+  }
+  if (kinds.length === 1) {
+    checkKeys(errors, path, v, [kinds[0], ...CONDITION_KEYS[kinds[0]]]);
+  }
+
+  if ("all" in v || "any" in v) {
+    const key = "all" in v ? "all" : "any";
+    const list = v[key];
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`${path}.${key} must be a non-empty array`);
+    } else {
+      list.forEach((c, i) => checkCondition(errors, `${path}.${key}[${i}]`, c));
+    }
+  } else if ("not" in v) {
+    checkCondition(errors, `${path}.not`, v.not);
+  } else if ("risk" in v) {
+    const filter = v.risk;
+    if (!isObject(filter)) {
+      errors.push(`${path}.risk must be an object`);
+    } else {
+      checkKeys(errors, `${path}.risk`, filter, ["category", "severity", "name"]);
+      if (filter.category !== undefined) {
+        checkEnumList(errors, `${path}.risk.category`, filter.category, RISK_CATEGORIES);
+      }
+      if (filter.severity !== undefined) {
+        checkEnumList(errors, `${path}.risk.severity`, filter.severity, SEVERITIES);
+      }
+      if (filter.name !== undefined && (typeof filter.name !== "string" || !filter.name.trim())) {
+        errors.push(`${path}.risk.name must be a non-empty string`);
+      }
+    }
+    checkCount(errors, `${path}.min`, v.min);
+    checkCount(errors, `${path}.max`, v.max);
+    if (typeof v.min === "number" && typeof v.max === "number" && v.min > v.max) {
+      errors.push(`${path}.min must not exceed ${path}.max`);
+    }
+  } else if ("trend" in v) {
+    if (typeof v.trend !== "string" || !TRENDS.includes(v.trend as TrendKind)) {
+      errors.push(`${path}.trend must be one of: ${TRENDS.join(", ")}`);
+    }
+    if (v.category !== undefined) {
+      if (v.trend === "new_finding" || v.trend === "improving") {
+        errors.push(`${path}.category only applies to the new_risk and worsening trends`);
+      } else {
+        checkEnumList(errors, `${path}.category`, v.category, RISK_CATEGORIES);
+      }
+    }
+  } else if ("vital" in v) {
+    const vital = v.vital;
+    if (!isObject(vital)) {
+      errors.push(`${path}.vital must be an object`);
+    } else {
+      checkKeys(errors, `${path}.vital`, vital, ["key", "status", "severity"]);
+      if (vital.key !== undefined) checkEnumList(errors, `${path}.vital.key`, vital.key, VITAL_KEYS);
+      if (vital.status !== undefined) {
+        checkEnumList(errors, `${path}.vital.status`, vital.status, ["low", "high"]);
+      }
+      if (vital.severity !== undefined) {
+        checkEnumList(errors, `${path}.vital.severity`, vital.severity, ["medium", "high"]);
+      }
+    }
+  } else if ("careLevel" in v) {
+    checkEnumList(errors, `${path}.careLevel`, v.careLevel, CARE_LEVELS);
+  } else if ("payer" in v) {
+    checkStringList(errors, `${path}.payer`, v.payer);
+  } else if ("acuity" in v) {
+    checkEnumList(errors, `${path}.acuity`, v.acuity, ACUITIES);
+  } else {
+    errors.push(`${path} has no known condition (got: ${keys.join(", ") || "nothing"})`);
+  }
+}
+
+function checkAction(errors: string[], path: string, v: unknown): void {
+  if (!isObject(v)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  checkKeys(errors, path, v, ["text", "urgency", "recipient"]);
+  if (typeof v.text !== "string" || !v.text.trim()) {
+    errors.push(`${path}.text must be a non-empty string`);
+  }
+  if (typeof v.urgency !== "string" || !ESCALATION_URGENCIES.includes(v.urgency as EscalationUrgency)) {
+    errors.push(`${path}.urgency must be one of: ${ESCALATION_URGENCIES.join(", ")}`);
+  }
+  if (
+    typeof v.recipient !== "string" ||
+    !ESCALATION_RECIPIENTS.includes(v.recipient as EscalationRecipient)
+  ) {
+    errors.push(`${path}.recipient must be one of: ${ESCALATION_RECIPIENTS.join(", ")}`);
+  }
+}
+
+/** Returns schema errors as paths (empty when valid) */
+export function validateEscalationConfig(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(value)) return ["config must be an object"];
+  checkKeys(errors, "config", value, ["version", "rules", "fallback"]);
+  if (value.version !== 1) errors.push("version must be 1");
+
+  if (!Array.isArray(value.rules)) {
+    errors.push("rules must be an array");
+  } else {
+    const ids = new Set<string>();
+    value.rules.forEach((rule, i) => {
+      const path = `rules[${i}]`;
+      if (!isObject(rule)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      checkKeys(errors, path, rule, ["id", "description", "when", "action", "stop"]);
+      if (typeof rule.id !== "string" || !rule.id.trim()) {
+        errors.push(`${path}.id must be a non-empty string`);
+      } else if (ids.has(rule.id)) {
+        errors.push(`${path}.id "${rule.id}" is duplicated`);
+      } else {
+        ids.add(rule.id);
+      }
+      if (rule.description !== undefined && typeof rule.description !== "string") {
+        errors.push(`${path}.description must be a string`);
+      }
+      if (rule.stop !== undefined && typeof rule.stop !== "boolean") {
+        errors.push(`${path}.stop must be a boolean`);
+      }
+      checkCondition(errors, `${path}.when`, rule.when);
+      checkAction(errors, `${path}.action`, rule.action);
+    });
+  }
+
+  if (value.fallback !== undefined) checkAction(errors, "fallback", value.fallback);
+  return errors;
+}
+
+/** Validated config, or throws EscalationConfigError */
+export function parseEscalationConfig(value: unknown): EscalationConfig {
+  const errors = validateEscalationConfig(value);
+  if (errors.length > 0) throw new EscalationConfigError(errors);
+  return value as EscalationConfig;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+const SEVERITY_RANK: Record<RuleSeverity, number> = { low: 0, medium: 1, high: 2 };
+const URGENCY_RANK = Object.fromEntries(
+  ESCALATION_URGENCIES.map((u, i) => [u, i])
+) as Record<EscalationUrgency, number>;
+
+function normalizeSeverity(s: string | undefined): RuleSeverity {
+  const x = s?.toLowerCase();
+  if (x === "high") return "high";
+  if (x === "medium" || x === "moderate") return "medium";
+  return "low";
+}
+
+function matchesFilter(flag: RiskFlag, filter: RiskFilter): boolean {
+  if (filter.category && !filter.category.includes(riskCategoryOf(flag))) {
+    return false;
+  }
+  if (filter.severity && !filter.severity.includes(normalizeSeverity(flag.severity))) {
+    return false;
+  }
+  if (filter.name && !(flag.risk ?? "").toLowerCase().includes(filter.name.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+function flagsOf(analysis: AnalysisResult | null | undefined): RiskFlag[] {
+  return analysis?.risks?.risk_flags ?? [];
+}
+
+/** Risk flags that are new, or more severe, than last visit; matched by riskMatchKey */
+function riskTrend(
+  kind: "new_risk" | "worsening",
+  ctx: EscalationContext,
+  categories?: RiskCategory[]
+): boolean {
+  if (!ctx.previous) return false;
+  const previous = new Map<string, number>();
+  for (const f of flagsOf(ctx.previous)) {
+    const key = riskMatchKey(f);
+    const rank = SEVERITY_RANK[normalizeSeverity(f.severity)];
+    previous.set(key, Math.max(previous.get(key) ?? 0, rank));
+  }
+  return flagsOf(ctx.analysis).some((f) => {
+    if (categories && !categories.includes(riskCategoryOf(f))) return false;
+    const before = previous.get(riskMatchKey(f));
+    if (kind === "new_risk") return before === undefined;
+    return before !== undefined && SEVERITY_RANK[normalizeSeverity(f.severity)] > before;
+  });
+}
+
+function evaluateCondition(condition: EscalationCondition, ctx: EscalationContext): boolean {
+  if ("all" in condition) return condition.all.every((c) => evaluateCondition(c, ctx));
+  if ("any" in condition) return condition.any.some((c) => evaluateCondition(c, ctx));
+  if ("not" in condition) return !evaluateCondition(condition.not, ctx);
+
+  if ("risk" in condition) {
+    const count = flagsOf(ctx.analysis).filter((f) => matchesFilter(f, condition.risk)).length;
+    return count >= (condition.min ?? 1) && (condition.max === undefined || count <= condition.max);
+  }
+
+  if ("trend" in condition) {
+    if (condition.trend === "new_risk" || condition.trend === "worsening") {
+      return riskTrend(condition.trend, ctx, condition.category);
+    }
+    if (!ctx.previous) return false;
+    const trend = computeTrendAnalysis(ctx.analysis, ctx.previous);
+    return condition.trend === "new_finding"
+      ? trend.new_findings.length > 0
+      : trend.improvements.length > 0;
+  }
+
+  if ("vital" in condition) {
+    const { key, status, severity } = condition.vital;
+    return assessVitals(ctx.analysis.structuredData?.vitals).some(
+      (a) =>
+        (!key || key.includes(a.vital)) &&
+        (!status || status.includes(a.status)) &&
+        (!severity || severity.includes(a.severity))
+    );
+  }
+
+  if ("careLevel" in condition) {
+    const level = ctx.analysis.structuredData?.care_level_indicator;
+    return !!level && condition.careLevel.includes(level);
+  }
+
+  if ("payer" in condition) {
+    const payer = ctx.patient?.payer?.trim().toLowerCase();
+    return !!payer && condition.payer.some((p) => p.trim().toLowerCase() === payer);
+  }
+
+  const acuity = ctx.patient?.acuity;
+  return !!acuity && condition.acuity.includes(acuity);
+}
+
+/**
+ * Recommended actions for a visit, most urgent first. Repeated action text
+ * is listed once, at its most urgent.
+ */
+export function evaluateEscalation(
+  config: EscalationConfig,
+  ctx: EscalationContext
+): EscalationAction[] {
+  const byText = new Map<string, EscalationAction>();
+
+  for (const rule of config.rules) {
+    if (!evaluateCondition(rule.when, ctx)) continue;
+    const existing = byText.get(rule.action.text);
+    if (!existing || URGENCY_RANK[rule.action.urgency] < URGENCY_RANK[existing.urgency]) {
+      byText.set(rule.action.text, { ...rule.action, ruleId: rule.id });
+    }
+    if (rule.stop) break;
+  }
+
+  if (byText.size === 0 && config.fallback && flagsOf(ctx.analysis).length > 0) {
+    return [{ ...config.fallback, ruleId: "fallback" }];
+  }
+
+  // Array.prototype.sort is stable, so rules keep config order within an urgency
+  return Array.from(byText.values()).sort(
+    (a, b) => URGENCY_RANK[a.urgency] - URGENCY_RANK[b.urgency]
+  );
+}
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+/** Bundled rules (config/escalation-rules.json), used when no agency config is set */
+export const DEFAULT_ESCALATION_CONFIG = parseEscalationConfig(DEFAULT_RULES);
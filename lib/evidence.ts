@@ -0,0 +1,142 @@
+/**
+ * Evidence spans: character ranges in the cleaned transcript that support a
+ * risk flag or structured item.
+ * The model quotes the transcript; quotes are located here, deterministically,
+ * so offsets are always valid for the stored text. Quotes that cannot be found
+ * are dropped rather than guessed.
+ * Shared by the pipeline (server) and the insights view (client).
+ */
+
+import type { EvidenceSpan, StructuredEvidenceField } from "@/types/patient";
+
+export const EVIDENCE_FIELDS: StructuredEvidenceField[] = [
+  "key_observations",
+  "patient_reported",
+  "activities_completed",
+  "medication_notes",
+  "concerns",
+];
+
+/** Minimum share of a quote's words found in one sentence for a fuzzy match */
+const FUZZY_MATCH_THRESHOLD = 0.75;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function words(s: string): string[] {
+  return s.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+function sentenceRanges(text: string): EvidenceSpan[] {
+  const ranges: EvidenceSpan[] = [];
+  const regex = /[^.!?\n]+[.!?]*/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const start = match.index + leading;
+    const end = match.index + match[0].trimEnd().length;
+    if (end > start) ranges.push({ start, end });
+  }
+  return ranges;
+}
+
+/**
+ * Finds a quote in the transcript.
+ * Tries an exact match, then a case- and punctuation-insensitive match, then
+ * the sentence containing most of the quote's words.
+ */
+export function locateQuote(transcript: string, quote: string): EvidenceSpan | null {
+  const q = quote.trim().replace(/^["“']+|["”']+$/g, "");
+  if (!q || !transcript) return null;
+
+  const exact = transcript.indexOf(q);
+  if (exact !== -1) return { start: exact, end: exact + q.length };
+
+  const qWords = words(q);
+  if (qWords.length === 0) return null;
+
+  const loose = new RegExp(qWords.map(escapeRegExp).join("[^a-z0-9]+"), "i").exec(transcript);
+  if (loose) return { start: loose.index, end: loose.index + loose[0].length };
+
+  let best: { span: EvidenceSpan; score: number } | null = null;
+  for (const span of sentenceRanges(transcript)) {
+    const sentenceWords = new Set(words(transcript.slice(span.start, span.end)));
+    const score = qWords.filter((w) => sentenceWords.has(w)).length / qWords.length;
+    if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { span, score };
+    }
+  }
+  return best?.span ?? null;
+}
+
+/** Locates each quote; unmatched quotes are dropped, overlaps merged */
+export function locateEvidence(transcript: string, quotes: unknown): EvidenceSpan[] {
+  const list = Array.isArray(quotes) ? quotes : typeof quotes === "string" ? [quotes] : [];
+  const spans = list
+    .filter((q): q is string => typeof q === "string")
+    .map((q) => locateQuote(transcript, q))
+    .filter((s): s is EvidenceSpan => s !== null);
+  return mergeSpans(spans);
+}
+
+/** Sorts spans and merges any that overlap or touch */
+export function mergeSpans(spans: EvidenceSpan[]): EvidenceSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: EvidenceSpan[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) last.end = Math.max(last.end, span.end);
+    else merged.push({ ...span });
+  }
+  return merged;
+}
+
+/** Drops spans that do not fit the transcript (e.g. stored before an edit) */
+export function validSpans(transcript: string, spans: EvidenceSpan[] | undefined): EvidenceSpan[] {
+  return (spans ?? []).filter(
+    (s) =>
+      Number.isInteger(s.start) &&
+      Number.isInteger(s.end) &&
+      s.start >= 0 &&
+      s.end > s.start &&
+      s.end <= transcript.length
+  );
+}
+
+// =============================================================================
+// Rendering
+// =============================================================================
+
+export interface HighlightSegment<K> {
+  start: number;
+  end: number;
+  text: string;
+  /** Keys of every span covering this segment; empty for plain text */
+  keys: K[];
+}
+
+/**
+ * Splits text into segments at every span boundary, so overlapping spans
+ * (e.g. two risks citing the same sentence) render as one highlight with
+ * both keys attached.
+ */
+export function buildHighlightSegments<K>(
+  text: string,
+  spans: (EvidenceSpan & { key: K })[]
+): HighlightSegment<K>[] {
+  const valid = spans.filter((s) => s.start >= 0 && s.end > s.start && s.end <= text.length);
+  const bounds = Array.from(
+    new Set([0, text.length, ...valid.flatMap((s) => [s.start, s.end])])
+  ).sort((a, b) => a - b);
+
+  const segments: HighlightSegment<K>[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const start = bounds[i];
+    const end = bounds[i + 1];
+    if (end <= start) continue;
+    const keys = valid.filter((s) => s.start <= start && s.end >= end).map((s) => s.key);
+    segments.push({ start, end, text: text.slice(start, end), keys });
+  }
+  return segments;
+}
@@ -0,0 +1,332 @@
+/**
+ * FHIR R4 export of a single visit.
+ * Builds a collection Bundle (Patient, Encounter, Observations for caregiver
+ * notes and LOINC-coded vitals, Flag and RiskAssessment per risk flag,
+ * SNOMED-coded by risk category where the taxonomy has a concept,
+ * CarePlan for follow-ups) that downstream systems can ingest without retyping. Deterministic: the same visit always
+ * produces the same resource ids.
+ */
+
+import type { AnalysisResult, Patient, RiskFlag, VitalSigns } from "@/types/patient";
+import type { VitalKey } from "@/lib/vitals";
+import { riskCategoryOf, RISK_TAXONOMY, SNOMED_SYSTEM } from "@/lib/risk-categories";
+import type {
+  FhirBundle,
+  FhirCarePlan,
+  FhirCodeableConcept,
+  FhirEncounter,
+  FhirFlag,
+  FhirObservation,
+  FhirPatient,
+  FhirQuantity,
+  FhirReference,
+  FhirResource,
+  FhirRiskAssessment,
+} from "@/types/fhir";
+
+export const FHIR_PATIENT_IDENTIFIER_SYSTEM = "urn:caregiver-ai:patient-id";
+
+const OBSERVATION_CATEGORY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/observation-category";
+const FLAG_CATEGORY_SYSTEM = "http://terminology.hl7.org/CodeSystem/flag-category";
+const RISK_PROBABILITY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/risk-probability";
+const ACT_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const LOINC_SYSTEM = "http://loinc.org";
+const UCUM_SYSTEM = "http://unitsofmeasure.org";
+
+const VITAL_LOINC: Record<VitalKey, { code: string; display: string }> = {
+  blood_pressure: { code: "85354-9", display: "Blood pressure panel" },
+  heart_rate: { code: "8867-4", display: "Heart rate" },
+  temperature: { code: "8310-5", display: "Body temperature" },
+  spo2: { code: "59408-5", display: "Oxygen saturation by pulse oximetry" },
+  glucose: { code: "2339-0", display: "Glucose [Mass/volume] in Blood" },
+  weight: { code: "29463-7", display: "Body weight" },
+  pain_score: { code: "72514-3", display: "Pain severity - 0-10 verbal numeric rating" },
+};
+
+/** Display unit → UCUM code */
+const UCUM_UNITS: Record<string, string> = {
+  mmHg: "mm[Hg]",
+  bpm: "/min",
+  "°F": "[degF]",
+  "°C": "Cel",
+  "%": "%",
+  "mg/dL": "mg/dL",
+  "mmol/L": "mmol/L",
+  lb: "[lb_av]",
+  kg: "kg",
+  "/10": "{score}",
+};
+
+/** FNV-1a over the input with a seed; used to derive stable UUIDs */
+function fnv1a(input: string, seed: number): number {
+  let h = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function stableUuid(...parts: (string | number)[]): string {
+  const input = parts.join("|");
+  const hex = [1, 2, 3, 4]
+    .map((seed) => fnv1a(input, seed).toString(16).padStart(8, "0"))
+    .join("");
+  // Format as an RFC 4122 version 4-shaped UUID
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+function escapeXhtml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function narrative(text: string): FhirResource["text"] {
+  return {
+    status: "generated",
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${escapeXhtml(text)}</div>`,
+  };
+}
+
+/** Flag text, plus the category's SNOMED concept when it has one */
+function toRiskConcept(flag: RiskFlag): FhirCodeableConcept {
+  const snomed = RISK_TAXONOMY[riskCategoryOf(flag)].snomed;
+  return {
+    ...(snomed ? { coding: [{ system: SNOMED_SYSTEM, ...snomed }] } : {}),
+    text: flag.risk,
+  };
+}
+
+function toRiskProbability(severity: string): { code: string; display: string } {
+  const s = severity?.toLowerCase() ?? "low";
+  if (s === "high") return { code: "high", display: "High likelihood" };
+  if (s === "medium" || s === "moderate") {
+    return { code: "moderate", display: "Moderate likelihood" };
+  }
+  return { code: "low", display: "Low likelihood" };
+}
+
+function quantity(value: number, unit: string): FhirQuantity {
+  const code = UCUM_UNITS[unit];
+  return { value, unit, ...(code ? { system: UCUM_SYSTEM, code } : {}) };
+}
+
+function buildVitalObservations(
+  vitals: VitalSigns,
+  base: Pick<FhirObservation, "subject" | "encounter" | "effectiveDateTime">,
+  idFor: (key: VitalKey) => string
+): FhirObservation[] {
+  const category = [
+    {
+      coding: [
+        { system: OBSERVATION_CATEGORY_SYSTEM, code: "vital-signs", display: "Vital Signs" },
+      ],
+    },
+  ];
+  const code = (key: VitalKey) => ({
+    coding: [{ system: LOINC_SYSTEM, ...VITAL_LOINC[key] }],
+    text: VITAL_LOINC[key].display,
+  });
+
+  const observations: FhirObservation[] = [];
+  (Object.keys(VITAL_LOINC) as VitalKey[]).forEach((key) => {
+    if (key === "blood_pressure") {
+      const bp = vitals.blood_pressure;
+      if (!bp) return;
+      observations.push({
+        resourceType: "Observation",
+        id: idFor(key),
+        status: "final",
+        category,
+        code: code(key),
+        ...base,
+        component: [
+          {
+            code: { coding: [{ system: LOINC_SYSTEM, code: "8480-6", display: "Systolic blood pressure" }] },
+            valueQuantity: quantity(bp.systolic, bp.unit),
+          },
+          {
+            code: { coding: [{ system: LOINC_SYSTEM, code: "8462-4", display: "Diastolic blood pressure" }] },
+            valueQuantity: quantity(bp.diastolic, bp.unit),
+          },
+        ],
+      });
+      return;
+    }
+    const reading = vitals[key];
+    if (!reading) return;
+    observations.push({
+      resourceType: "Observation",
+      id: idFor(key),
+      status: "final",
+      category,
+      code: code(key),
+      ...base,
+      valueQuantity: quantity(reading.value, reading.unit),
+    });
+  });
+  return observations;
+}
+
+function ref(resource: FhirResource, display?: string): FhirReference {
+  return { reference: `urn:uuid:${resource.id}`, ...(display ? { display } : {}) };
+}
+
+/**
+ * Builds a FHIR R4 collection Bundle for one visit.
+ *
+ * @param patient - Patient the visit belongs to (analyses are not read)
+ * @param analysis - The visit analysis to export
+ */
+export function buildFhirVisitBundle(
+  patient: Pick<Patient, "id" | "name">,
+  analysis: AnalysisResult
+): FhirBundle {
+  const { structuredData, risks, timestamp } = analysis;
+  const when = new Date(timestamp).toISOString();
+  const visitKey = [patient.id, timestamp];
+
+  const fhirPatient: FhirPatient = {
+    resourceType: "Patient",
+    id: stableUuid("Patient", patient.id),
+    identifier: [{ system: FHIR_PATIENT_IDENTIFIER_SYSTEM, value: patient.id }],
+    name: [{ text: patient.name }],
+  };
+  const subject = ref(fhirPatient, patient.name);
+
+  const encounter: FhirEncounter = {
+    resourceType: "Encounter",
+    id: stableUuid("Encounter", ...visitKey),
+    status: "finished",
+    class: { system: ACT_CODE_SYSTEM, code: "HH", display: "home health" },
+    type: [{ text: "Caregiver home visit" }],
+    subject,
+    period: { start: when },
+    ...(structuredData?.visit_summary
+      ? { text: narrative(structuredData.visit_summary) }
+      : {}),
+  };
+  const encounterRef = ref(encounter);
+
+  const observations: FhirObservation[] = (structuredData?.key_observations ?? [])
+    .filter((o) => o.trim())
+    .map((o, i) => ({
+      resourceType: "Observation",
+      id: stableUuid("Observation", ...visitKey, i),
+      status: "final",
+      category: [
+        {
+          coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: "survey", display: "Survey" }],
+        },
+      ],
+      code: { text: "Caregiver observation" },
+      subject,
+      encounter: encounterRef,
+      effectiveDateTime: when,
+      valueString: o.trim(),
+    }));
+
+  const vitalObservations = buildVitalObservations(
+    structuredData?.vitals ?? {},
+    { subject, encounter: encounterRef, effectiveDateTime: when },
+    (key) => stableUuid("Observation", ...visitKey, key)
+  );
+
+  const riskResources: (FhirFlag | FhirRiskAssessment)[] = [];
+  (risks?.risk_flags ?? []).forEach((flag, i) => {
+    const probability = toRiskProbability(flag.severity);
+    riskResources.push({
+      resourceType: "Flag",
+      id: stableUuid("Flag", ...visitKey, i),
+      status: "active",
+      category: [
+        { coding: [{ system: FLAG_CATEGORY_SYSTEM, code: "clinical", display: "Clinical" }] },
+      ],
+      code: toRiskConcept(flag),
+      subject,
+      encounter: encounterRef,
+      period: { start: when },
+    });
+    riskResources.push({
+      resourceType: "RiskAssessment",
+      id: stableUuid("RiskAssessment", ...visitKey, i),
+      status: "final",
+      subject,
+      encounter: encounterRef,
+      occurrenceDateTime: when,
+      ...(observations.length + vitalObservations.length > 0
+        ? { basis: [...observations, ...vitalObservations].map((o) => ref(o)) }
+        : {}),
+      prediction: [
+        {
+          outcome: toRiskConcept(flag),
+          qualitativeRisk: {
+            coding: [{ system: RISK_PROBABILITY_SYSTEM, ...probability }],
+          },
+          ...(flag.reason ? { rationale: flag.reason } : {}),
+        },
+      ],
+    });
+  });
+
+  const followups = (structuredData?.suggested_followups ?? []).filter((f) => f.trim());
+  const carePlans: FhirCarePlan[] =
+    followups.length > 0
+      ? [
+          {
+            resourceType: "CarePlan",
+            id: stableUuid("CarePlan", ...visitKey),
+            status: "active",
+            intent: "plan",
+            title: "Caregiver visit follow-up plan",
+            subject,
+            encounter: encounterRef,
+            created: when,
+            activity: followups.map((f) => ({
+              detail: { status: "not-started", description: f.trim() },
+            })),
+          },
+        ]
+      : [];
+
+  const resources: FhirResource[] = [
+    fhirPatient,
+    encounter,
+    ...observations,
+    ...vitalObservations,
+    ...riskResources,
+    ...carePlans,
+  ];
+
+  return {
+    resourceType: "Bundle",
+    id: stableUuid("Bundle", ...visitKey),
+    type: "collection",
+    timestamp: when,
+    entry: resources.map((resource) => ({
+      fullUrl: `urn:uuid:${resource.id}`,
+      resource,
+    })),
+  };
+}
+
+/** Suggested download filename for a visit bundle */
+export function getFhirBundleFilename(
+  patient: Pick<Patient, "name">,
+  analysis: Pick<AnalysisResult, "timestamp">
+): string {
+  const slug = patient.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const date = new Date(analysis.timestamp).toISOString().slice(0, 10);
+  return `${slug || "patient"}-visit-${date}.fhir.json`;
+}
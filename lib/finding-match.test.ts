@@ -0,0 +1,76 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { findingsMatch, findingSimilarity, unmatchedFindings } from "./finding-match";
+
+describe("findingsMatch", () => {
+  it.each<[string, string]>([
+    ["Patient was dizzy when standing", "Reports dizziness on standing"],
+    ["Confused about the date", "Confusion about date."],
+    ["Swollen ankles", "Ankle swelling"],
+    ["Ankle edema", "Swelling in both ankles"],
+    ["Fell in the bathroom", "Fall in bathroom"],
+    ["Unsteady gait", "Unsteadiness with gait"],
+    ["Tired after lunch", "Tiredness after lunch"],
+    ["Mild knee pain", "Knee pain"],
+    ["Didn't sleep well", "Did not sleep well"],
+    ["Appetite decreased", "Apetite decreased"],
+    ["Slight knee pain", "Mild knee pain"],
+    ["Not able to walk to kitchen", "Unable to walk to kitchen"],
+    ["Wound on left heel", "Small wound on left heel"],
+  ])("%s ≈ %s", (a, b) => {
+    expect(findingsMatch(a, b)).toBe(true);
+  });
+
+  it.each<[string, string]>([
+    ["Knee pain", "Back pain"],
+    ["Knee pain", "Ankle swelling"],
+    ["Dizziness on standing", "No dizziness on standing"],
+    ["Ate most of lunch", "Refused lunch and dinner"],
+    ["Good spirits", "Low mood"],
+    ["Mild knee pain", "Severe knee pain"],
+    ["Small wound on left heel", "Large wound on left heel"],
+    ["Pain in left knee", "Pain in right knee"],
+    ["Able to walk to kitchen", "Unable to walk to kitchen"],
+    ["Continent overnight", "Incontinent overnight"],
+    ["Oxygen saturation 95%", "Oxygen saturation 88%"],
+    ["Pain 3/10", "Pain 8/10"],
+    ["Ate 100% of breakfast", "Ate 25% of breakfast"],
+    ["Took morning meds", "Refused morning meds"],
+    ["Pain in lower back", "Pain in upper back"],
+  ])("%s ≠ %s", (a, b) => {
+    expect(findingsMatch(a, b)).toBe(false);
+  });
+
+  it("matches every finding with itself", () => {
+    fc.assert(
+      fc.property(fc.string(), (s) => {
+        expect(findingsMatch(s, s)).toBe(true);
+      })
+    );
+  });
+
+  it("scores between 0 and 1", () => {
+    fc.assert(
+      fc.property(fc.string(), fc.string(), (a, b) => {
+        const score = findingSimilarity(a, b);
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(1);
+      })
+    );
+  });
+});
+
+describe("unmatchedFindings", () => {
+  it("keeps unmatched items in order", () => {
+    expect(
+      unmatchedFindings(
+        ["Reports dizziness on standing", "New bruise on arm", "Knee pain"],
+        ["Patient was dizzy when standing", "Mild knee pain"]
+      )
+    ).toEqual(["New bruise on arm"]);
+  });
+
+  it("returns every item when there is nothing to match against", () => {
+    expect(unmatchedFindings(["Knee pain"], [])).toEqual(["Knee pain"]);
+  });
+});
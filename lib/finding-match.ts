@@ -0,0 +1,212 @@
+/**
+ * Fuzzy matching of free-text findings across visits.
+ * Models reword the same observation from one visit to the next ("Patient was
+ * dizzy when standing" / "Reports dizziness on standing"), so findings are
+ * compared as sets of stemmed content words rather than as strings. Numbers,
+ * severity, size, side and position words, took/refused, negations and
+ * un-/in- opposites must agree, since "SpO2 95%" vs "SpO2 88%" or "left" vs
+ * "right" is a different finding. Runs offline and deterministically, in the
+ * browser or on the server.
+ */
+
+/** Dice similarity at or above which two findings are the same finding */
+export const FINDING_MATCH_THRESHOLD = 0.6;
+
+/** Filler that carries no clinical meaning in a finding */
+const STOPWORDS = new Set([
+  "a", "about", "after", "also", "an", "and", "appeared", "appears", "are", "as", "at",
+  "be", "been", "being", "both", "but", "by", "client", "during", "for", "from", "had",
+  "has", "have", "he", "her", "his", "in", "is", "it", "its", "mr", "mrs", "ms",
+  "noted", "observed", "of", "on", "or", "patient", "pt", "report", "reported",
+  "reporting", "reports", "seemed", "seems", "she", "some", "stated", "states",
+  "that", "the", "their", "them", "they", "this", "to",
+  "today", "upon", "visit", "was", "were", "when", "which", "while", "with",
+]);
+
+/** A finding with one of these cannot match one without ("no dizziness" vs "dizziness") */
+const NEGATIONS = new Set(["no", "not", "denies", "denied", "without", "never", "none"]);
+
+type QualifierKind = "amount" | "severity" | "size" | "side" | "position" | "intake";
+
+/**
+ * Words that qualify a finding, by kind and canonical value. Two findings
+ * that both state a kind must state the same value; one that leaves it out
+ * still matches ("Knee pain" ≈ "Mild knee pain"). Numbers are the "amount"
+ * kind, so "Pain 3/10" and "Pain 8/10" differ.
+ */
+const QUALIFIERS: Record<string, [QualifierKind, string]> = {
+  mild: ["severity", "mild"],
+  mildly: ["severity", "mild"],
+  slight: ["severity", "mild"],
+  slightly: ["severity", "mild"],
+  minor: ["severity", "mild"],
+  moderate: ["severity", "moderate"],
+  moderately: ["severity", "moderate"],
+  severe: ["severity", "severe"],
+  severely: ["severity", "severe"],
+  significant: ["severity", "severe"],
+  significantly: ["severity", "severe"],
+  extreme: ["severity", "severe"],
+  small: ["size", "small"],
+  tiny: ["size", "small"],
+  little: ["size", "small"],
+  large: ["size", "large"],
+  big: ["size", "large"],
+  huge: ["size", "large"],
+  left: ["side", "left"],
+  right: ["side", "right"],
+  bilateral: ["side", "bilateral"],
+  upper: ["position", "upper"],
+  lower: ["position", "lower"],
+  take: ["intake", "took"],
+  takes: ["intake", "took"],
+  took: ["intake", "took"],
+  taken: ["intake", "took"],
+  taking: ["intake", "took"],
+  refuse: ["intake", "refused"],
+  refused: ["intake", "refused"],
+  refuses: ["intake", "refused"],
+  refusing: ["intake", "refused"],
+  decline: ["intake", "refused"],
+  declined: ["intake", "refused"],
+  declines: ["intake", "refused"],
+  declining: ["intake", "refused"],
+};
+
+const NUMBER = /^\d+$/;
+
+/** Prefixes that negate a word: unable/able, incontinent/continent */
+const NEGATING_PREFIXES = ["un", "in"];
+
+/** Irregular forms and close clinical synonyms, mapped to a shared stem */
+const CANONICAL: Record<string, string> = {
+  ate: "eat",
+  drank: "drink",
+  edema: "swell",
+  fell: "fall",
+  oedema: "swell",
+  slept: "sleep",
+  swollen: "swell",
+};
+
+const SUFFIXES = ["ness", "ation", "ion", "ing", "ful", "ed", "er", "ly", "s"];
+
+/** Light suffix stripping; enough to align dizzy/dizziness, stand/standing */
+function stem(word: string): string {
+  if (CANONICAL[word]) return CANONICAL[word];
+  let w = word;
+  for (let pass = 0; pass < 2; pass++) {
+    const suffix = SUFFIXES.find((s) => w.endsWith(s) && w.length - s.length >= 3);
+    if (!suffix) break;
+    w = w.slice(0, -suffix.length);
+  }
+  // dizzi → dizzy, unsteadi → unsteady
+  return w.endsWith("i") ? `${w.slice(0, -1)}y` : w;
+}
+
+interface FindingTerms {
+  stems: string[];
+  negated: boolean;
+  qualifiers: Partial<Record<QualifierKind, Set<string>>>;
+}
+
+function toTerms(text: string): FindingTerms {
+  const words = text.toLowerCase().replace(/n't\b/g, " not").split(/[^a-z0-9]+/).filter(Boolean);
+  const stems = new Set<string>();
+  const qualifiers: FindingTerms["qualifiers"] = {};
+  let negated = false;
+  for (const word of words) {
+    const qualifier: [QualifierKind, string] | undefined = NUMBER.test(word)
+      ? ["amount", String(Number(word))]
+      : QUALIFIERS[word];
+    if (qualifier) {
+      const [kind, value] = qualifier;
+      (qualifiers[kind] ??= new Set()).add(value);
+    } else if (NEGATIONS.has(word)) negated = true;
+    else if (!STOPWORDS.has(word)) stems.add(stem(word));
+  }
+  return { stems: Array.from(stems), negated, qualifiers };
+}
+
+function qualifiersAgree(a: FindingTerms, b: FindingTerms): boolean {
+  return (Object.keys(a.qualifiers) as QualifierKind[]).every((kind) => {
+    const x = a.qualifiers[kind];
+    const y = b.qualifiers[kind];
+    return !x || !y || (x.size === y.size && Array.from(x).every((v) => y.has(v)));
+  });
+}
+
+/** True when one stem is the other with a negating prefix */
+function isNegatedForm(a: string, b: string): boolean {
+  const [long, short] = a.length > b.length ? [a, b] : [b, a];
+  return (
+    short.length >= 3 &&
+    NEGATING_PREFIXES.some((p) => long.length === short.length + p.length && long === p + short)
+  );
+}
+
+/** Equal stems, or one edit apart when long enough to be a misspelling */
+function termsMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 6 || Math.abs(a.length - b.length) > 1) return false;
+  return withinOneEdit(a, b);
+}
+
+function withinOneEdit(a: string, b: string): boolean {
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function termSimilarity(a: FindingTerms, b: FindingTerms): number {
+  if (!qualifiersAgree(a, b)) return 0;
+  // Each prefix-negated pair ("unable" / "able") flips the sense once more,
+  // so "Not able to walk" ≈ "Unable to walk" but "Able" ≠ "Unable"
+  let negated = a.negated !== b.negated;
+  let shared = 0;
+  for (const s of a.stems) {
+    if (b.stems.some((t) => termsMatch(s, t))) shared++;
+    else if (b.stems.some((t) => isNegatedForm(s, t))) {
+      shared++;
+      negated = !negated;
+    }
+  }
+  if (negated) return 0;
+  if (a.stems.length === 0 || b.stems.length === 0) {
+    return a.stems.length === b.stems.length ? 1 : 0;
+  }
+  return (2 * shared) / (a.stems.length + b.stems.length);
+}
+
+/** Dice similarity (0–1) of two findings' content words */
+export function findingSimilarity(a: string, b: string): number {
+  return termSimilarity(toTerms(a), toTerms(b));
+}
+
+export function findingsMatch(a: string, b: string): boolean {
+  return findingSimilarity(a, b) >= FINDING_MATCH_THRESHOLD;
+}
+
+/** Items with no matching finding in `against`, in their original order */
+export function unmatchedFindings(items: string[], against: string[]): string[] {
+  const others = against.map(toTerms);
+  return items.filter((item) => {
+    const terms = toTerms(item);
+    return !others.some((o) => termSimilarity(terms, o) >= FINDING_MATCH_THRESHOLD);
+  });
+}
@@ -0,0 +1,395 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  buildEMRExportText,
+  computeAIConfidence,
+  computeTrendAnalysis,
+  countNewRisksSincePrior,
+  deriveTrendChips,
+  getHighestRiskSeverity,
+  getInsightBannerMessage,
+  sortRisksBySeverity,
+} from "./insights-utils";
+import { analysis, flag } from "./test-builders";
+import type { AnalysisResult, RiskFlag, StructuredVisitData } from "@/types/patient";
+
+// =============================================================================
+// Builders & arbitraries
+// =============================================================================
+
+/** An analysis saved before fields were added, as the store may return it */
+const LEGACY_ANALYSIS = { cleanedTranscript: "", timestamp: 0 } as unknown as AnalysisResult;
+
+/** Severities as models and older analyses actually write them */
+const severityArb = fc.constantFrom(
+  "high", "High", "HIGH", "medium", "Medium", "moderate", "Moderate", "low", "Low", "", "unknown"
+);
+const riskNameArb = fc.constantFrom(
+  "Fall risk", "Medication adherence", "Cognitive change", "Swelling", "Pain", "Hydration", "Skin integrity"
+);
+const riskArb: fc.Arbitrary<RiskFlag> = fc.record({
+  risk: riskNameArb,
+  severity: severityArb,
+  reason: fc.string(),
+});
+const phraseArb = fc.constantFrom(
+  "confused about the date", "dizzy when standing", "ankle swelling", "ate most of lunch",
+  "unsteady gait", "good spirits", "knee pain", "slept well"
+);
+const structuredArb: fc.Arbitrary<StructuredVisitData> = fc.record(
+  {
+    visit_summary: fc.string(),
+    key_observations: fc.array(phraseArb, { maxLength: 4 }),
+    activities_completed: fc.array(fc.string(), { maxLength: 3 }),
+    medication_notes: fc.array(fc.string(), { maxLength: 3 }),
+    concerns: fc.array(phraseArb, { maxLength: 4 }),
+    suggested_followups: fc.array(fc.string(), { maxLength: 3 }),
+  },
+  { requiredKeys: [] }
+);
+const analysisArb: fc.Arbitrary<AnalysisResult> = fc
+  .record({
+    transcript: fc.string({ maxLength: 300 }),
+    structured: structuredArb,
+    risks: fc.array(riskArb, { maxLength: 6 }),
+    status: fc.constantFrom(undefined, "complete" as const, "partial" as const),
+  })
+  .map(({ transcript, structured, risks, status }) =>
+    analysis(structured, risks, { cleanedTranscript: transcript, ...(status ? { status } : {}) })
+  );
+
+const RANK: Record<string, number> = { high: 2, medium: 1, moderate: 1 };
+const rank = (severity: string) => RANK[severity.toLowerCase()] ?? 0;
+
+// =============================================================================
+// Severity helpers
+// =============================================================================
+
+describe("getHighestRiskSeverity and sortRisksBySeverity", () => {
+  it.each<[RiskFlag[], "high" | "medium" | "low" | null]>([
+    [[], null],
+    [[flag("Pain", "low")], "low"],
+    [[flag("Pain", "moderate")], "medium"],
+    [[flag("Pain", "Medium"), flag("Fall risk", "low")], "medium"],
+    [[flag("Pain", "low"), flag("Fall risk", "High")], "high"],
+    [[flag("Pain", "unknown")], "low"],
+  ])("highest of %j is %s", (risks, expected) => {
+    expect(getHighestRiskSeverity(risks)).toBe(expected);
+  });
+
+  it("sorts into a stable high → medium → low permutation", () => {
+    fc.assert(
+      fc.property(fc.array(riskArb), (risks) => {
+        const sorted = sortRisksBySeverity(risks);
+        expect([...sorted].sort(byIdentity(risks))).toEqual([...risks].sort(byIdentity(risks)));
+        for (let i = 1; i < sorted.length; i++) {
+          const [a, b] = [sorted[i - 1], sorted[i]];
+          expect(rank(a.severity)).toBeGreaterThanOrEqual(rank(b.severity));
+          if (rank(a.severity) === rank(b.severity)) {
+            expect(risks.indexOf(a)).toBeLessThan(risks.indexOf(b));
+          }
+        }
+      })
+    );
+  });
+
+  it("reports the severity of the first sorted risk", () => {
+    fc.assert(
+      fc.property(fc.array(riskArb, { minLength: 1 }), (risks) => {
+        const top = rank(sortRisksBySeverity(risks)[0].severity);
+        expect(getHighestRiskSeverity(risks)).toBe(["low", "medium", "high"][top]);
+      })
+    );
+  });
+
+  it("leaves the input untouched", () => {
+    const risks = [flag("Pain", "low"), flag("Fall risk", "high")];
+    sortRisksBySeverity(risks);
+    expect(risks.map((r) => r.risk)).toEqual(["Pain", "Fall risk"]);
+  });
+});
+
+/** Orders by position in `original`, so arrays can be compared as multisets */
+function byIdentity(original: RiskFlag[]) {
+  return (a: RiskFlag, b: RiskFlag) => original.indexOf(a) - original.indexOf(b);
+}
+
+// =============================================================================
+// computeAIConfidence
+// =============================================================================
+
+describe("computeAIConfidence", () => {
+  const rich: StructuredVisitData = {
+    visit_summary: "Patient was dizzy and had ankle swelling.",
+    key_observations: ["Alert and oriented"],
+    activities_completed: ["Leg exercises"],
+    medication_notes: ["Took morning meds"],
+    concerns: ["Dizzy when standing"],
+    suggested_followups: ["Check orthostatic BP"],
+  };
+  const longTranscript = "x".repeat(200);
+
+  it.each<[string, AnalysisResult, "Low" | "Medium" | "High"]>([
+    ["an empty analysis", analysis(), "Low"],
+    ["an analysis missing every field", LEGACY_ANALYSIS, "Low"],
+    ["a very short transcript", analysis(rich, [], { cleanedTranscript: "Fine." }), "Low"],
+    ["long transcript, rich data, no risks", analysis(rich, [], { cleanedTranscript: longTranscript }), "Medium"],
+    [
+      "long transcript, rich data, corroborating risks",
+      analysis(rich, [flag("Fall risk", "medium"), flag("Swelling", "medium")], {
+        cleanedTranscript: longTranscript,
+      }),
+      "High",
+    ],
+    [
+      "a partial result, however complete it looks",
+      analysis(rich, [flag("Fall risk", "medium"), flag("Swelling", "medium")], {
+        cleanedTranscript: longTranscript,
+        status: "partial",
+      }),
+      "Low",
+    ],
+  ])("%s is %s", (_, input, level) => {
+    expect(computeAIConfidence(input).level).toBe(level);
+  });
+
+  it("is Low for every partial result", () => {
+    fc.assert(
+      fc.property(analysisArb, (a) => {
+        expect(computeAIConfidence({ ...a, status: "partial" }).level).toBe("Low");
+      })
+    );
+  });
+
+  it("never drops when another risk flag corroborates", () => {
+    const order = { Low: 0, Medium: 1, High: 2 };
+    fc.assert(
+      fc.property(analysisArb, riskArb, (a, extra) => {
+        const more = analysis(a.structuredData, [...a.risks.risk_flags, extra], a);
+        expect(order[computeAIConfidence(more).level]).toBeGreaterThanOrEqual(
+          order[computeAIConfidence(a).level]
+        );
+      })
+    );
+  });
+
+  it("always explains itself", () => {
+    fc.assert(
+      fc.property(analysisArb, (a) => {
+        expect(computeAIConfidence(a).reasoning).not.toBe("");
+      })
+    );
+  });
+});
+
+// =============================================================================
+// Trends
+// =============================================================================
+
+describe("computeTrendAnalysis", () => {
+  it.each<[string, string, string, boolean]>([
+    ["low → medium", "low", "medium", true],
+    ["low → moderate", "low", "moderate", true],
+    ["moderate → high", "moderate", "high", true],
+    ["medium → moderate", "medium", "moderate", false],
+    ["Moderate → medium", "Moderate", "medium", false],
+    ["high → low", "high", "low", false],
+  ])("%s worsening: %s", (_, before, after, worsening) => {
+    const trend = computeTrendAnalysis(
+      analysis({}, [flag("Swelling", after)]),
+      analysis({}, [flag("Swelling", before)])
+    );
+    expect(trend.worsening_signals).toEqual(worsening ? ["Swelling severity increased"] : []);
+  });
+
+  it("finds nothing when a visit is compared with itself", () => {
+    fc.assert(
+      fc.property(analysisArb, (a) => {
+        expect(computeTrendAnalysis(a, a)).toEqual({
+          new_findings: [],
+          worsening_signals: [],
+          improvements: [],
+        });
+      })
+    );
+  });
+
+  it("compares against the highest prior severity of a repeated risk", () => {
+    const previous = analysis({}, [flag("Swelling", "high"), flag("Swelling", "low")]);
+    const trend = computeTrendAnalysis(analysis({}, [flag("Swelling", "high")]), previous);
+    expect(trend.worsening_signals).toEqual([]);
+  });
+
+  it("treats a reworded finding as unchanged", () => {
+    const trend = computeTrendAnalysis(
+      analysis({ concerns: ["Reports dizziness on standing"], key_observations: ["New bruise on arm."] }),
+      analysis({ concerns: ["Patient was dizzy when standing"], key_observations: ["Ate well"] })
+    );
+    expect(trend.new_findings).toEqual(["new bruise on arm"]);
+    expect(trend.improvements).toEqual(["ate well"]);
+  });
+
+  it("matches a reworded risk by category", () => {
+    const trend = computeTrendAnalysis(
+      analysis({}, [flag("Unsteady gait", "high")]),
+      analysis({}, [flag("Fall risk", "medium")])
+    );
+    expect(trend.worsening_signals).toEqual(["Unsteady gait severity increased"]);
+  });
+
+  it("prefers the assigned category over the wording", () => {
+    const trend = computeTrendAnalysis(
+      analysis({}, [{ ...flag("Sore heel", "medium"), category: "skin" }]),
+      analysis({}, [flag("Pain", "medium")])
+    );
+    expect(trend.worsening_signals).toEqual(["Sore heel newly identified"]);
+  });
+
+  it("handles analyses with missing fields", () => {
+    expect(computeTrendAnalysis(LEGACY_ANALYSIS, LEGACY_ANALYSIS)).toEqual({
+      new_findings: [],
+      worsening_signals: [],
+      improvements: [],
+    });
+  });
+});
+
+describe("countNewRisksSincePrior", () => {
+  it.each<[string, RiskFlag[], RiskFlag[], number]>([
+    ["no prior visit risks", [flag("Fall risk", "high")], [], 1],
+    ["same category, new wording", [flag("Near fall in bathroom", "high")], [flag("Fall risk", "low")], 0],
+    ["new category", [flag("Fall risk", "high"), flag("Swelling", "low")], [flag("Fall risk", "low")], 1],
+    ["uncategorized, same wording", [flag("Lives alone", "low")], [flag("Lives alone.", "low")], 0],
+    ["uncategorized, new wording", [flag("Lives alone", "low")], [flag("Pet in home", "low")], 1],
+  ])("%s", (_, latest, previous, expected) => {
+    expect(countNewRisksSincePrior(analysis({}, latest), analysis({}, previous))).toBe(expected);
+  });
+
+  it("is zero without a previous visit", () => {
+    expect(countNewRisksSincePrior(analysis({}, [flag("Fall risk", "high")]), null)).toBe(0);
+  });
+});
+
+describe("deriveTrendChips", () => {
+  const stable = [{ label: "Stable overall", direction: "stable" }];
+
+  it.each<[string, AnalysisResult, AnalysisResult | null, { label: string; direction: string }[]]>([
+    ["a first visit", analysis({ concerns: ["Confused"] }), null, []],
+    ["an unchanged visit", analysis({ concerns: ["Knee pain"] }), analysis({ concerns: ["Knee pain"] }), stable],
+    ["two empty analyses", analysis(), analysis(), stable],
+    ["analyses missing every field", LEGACY_ANALYSIS, LEGACY_ANALYSIS, stable],
+    [
+      "new confusion",
+      analysis({ concerns: ["Confused about the date"] }),
+      analysis(),
+      [{ label: "Cognition declining", direction: "up" }],
+    ],
+    [
+      "new dizziness",
+      analysis({ concerns: ["Dizzy when standing"] }),
+      analysis(),
+      [{ label: "Risk increasing", direction: "up" }],
+    ],
+    [
+      "a newly identified fall risk",
+      analysis({}, [flag("Fall risk", "low")]),
+      analysis(),
+      [{ label: "Risk increasing", direction: "up" }],
+    ],
+    [
+      "a resolved concern",
+      analysis(),
+      analysis({ concerns: ["Knee pain"] }),
+      [{ label: "Some areas improving", direction: "down" }],
+    ],
+  ])("%s", (_, latest, previous, chips) => {
+    expect(deriveTrendChips(latest, previous)).toEqual(chips);
+  });
+
+  it("always shows at least one chip when there is a prior visit", () => {
+    fc.assert(
+      fc.property(analysisArb, analysisArb, (latest, previous) => {
+        const chips = deriveTrendChips(latest, previous);
+        expect(chips.length).toBeGreaterThan(0);
+        // "Stable overall" only ever appears alone
+        if (chips.some((c) => c.direction === "stable")) expect(chips).toEqual(stable);
+      })
+    );
+  });
+});
+
+// =============================================================================
+// getInsightBannerMessage
+// =============================================================================
+
+describe("getInsightBannerMessage", () => {
+  const messages = [
+    "Notable change observed since last visit.",
+    "Condition appears stable compared to prior visit.",
+    "Multiple risk signals identified.",
+    "Several areas warrant attention.",
+    "Risk signal noted.",
+    "Visit documented. No significant concerns noted.",
+  ];
+
+  it.each<[string, AnalysisResult, AnalysisResult | null, string]>([
+    ["a quiet first visit", analysis(), null, messages[5]],
+    ["a first visit missing every field", LEGACY_ANALYSIS, null, messages[5]],
+    ["a single high risk", analysis({}, [flag("Fall risk", "high")]), null, messages[4]],
+    ["a single medium risk", analysis({}, [flag("Pain", "medium")]), null, messages[5]],
+    ["several moderate risks", analysis({}, [flag("Pain", "moderate"), flag("Swelling", "moderate")]), null, messages[3]],
+    ["several risks, one high", analysis({}, [flag("Pain", "low"), flag("Fall risk", "High")]), null, messages[2]],
+    ["a new concern", analysis({ concerns: ["Knee pain"] }), analysis(), messages[0]],
+    ["a resolved concern with no risks", analysis(), analysis({ concerns: ["Knee pain"] }), messages[1]],
+    ["an unchanged visit", analysis({ concerns: ["Knee pain"] }), analysis({ concerns: ["Knee pain"] }), messages[1]],
+  ])("%s", (_, latest, previous, message) => {
+    expect(getInsightBannerMessage(latest, previous)).toBe(message);
+  });
+
+  it("always picks one of the known messages", () => {
+    fc.assert(
+      fc.property(analysisArb, fc.option(analysisArb, { nil: null }), (latest, previous) => {
+        expect(messages).toContain(getInsightBannerMessage(latest, previous));
+      })
+    );
+  });
+
+  it("reports a change whenever a risk is newly identified", () => {
+    fc.assert(
+      fc.property(analysisArb, riskArb, (previous, risk) => {
+        fc.pre(!previous.risks.risk_flags.some((r) => r.risk === risk.risk));
+        const latest = analysis(previous.structuredData, [...previous.risks.risk_flags, risk]);
+        expect(getInsightBannerMessage(latest, previous)).toBe(messages[0]);
+      })
+    );
+  });
+});
+
+// =============================================================================
+// Exports
+// =============================================================================
+
+describe("buildEMRExportText", () => {
+  const riskLines = (flags: RiskFlag[]) =>
+    buildEMRExportText("Pat", 80, "2026-01-01", "", flags, [])
+      .split("\n")
+      .filter((l) => l.startsWith("- "));
+
+  it("titles risks by category with their SNOMED code", () => {
+    expect(
+      riskLines([
+        flag("Unsteady gait", "high", "Near fall observed."),
+        { ...flag("Heel redness", "medium", "Redness observed."), category: "skin" },
+      ])
+    ).toEqual([
+      "- Fall risk [SNOMED CT 129839007] (High): Near fall observed.",
+      "- Skin integrity (Moderate): Redness observed.",
+    ]);
+  });
+
+  it("keeps the wording of uncategorized risks", () => {
+    expect(riskLines([flag("Lives alone", "low", "No family nearby.")])).toEqual([
+      "- Lives alone (Low): No family nearby.",
+    ]);
+  });
+});
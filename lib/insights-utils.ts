@@ -1,9 +1,11 @@
 /**
  * Client-side intelligence helpers for decision-support insights.
- * No backend, no persistence — deterministic logic only.
+ * Deterministic logic only — operates on analyses loaded from the patient store.
  */
 
 import type { AnalysisResult, RiskFlag } from "@/types/patient";
+import { unmatchedFindings } from "./finding-match";
+import { riskCategoryOf, riskMatchKey, RISK_TAXONOMY } from "./risk-categories";
 
 export interface TrendAnalysis {
   new_findings: string[];
@@ -15,6 +17,14 @@ function normalizeForCompare(s: string): string {
   return s.toLowerCase().trim().replace(/\.+$/, "");
 }
 
+/** 2 = high, 1 = medium/moderate, 0 = low or unrecognized */
+function severityRank(severity: string | undefined): number {
+  const s = severity?.toLowerCase();
+  if (s === "high") return 2;
+  if (s === "medium" || s === "moderate") return 1;
+  return 0;
+}
+
 export function computeTrendAnalysis(
   latest: AnalysisResult,
   previous: AnalysisResult | null
@@ -29,47 +39,42 @@ export function computeTrendAnalysis(
 
   const latestConcerns = (latest.structuredData?.concerns ?? []).map(normalizeForCompare);
   const prevConcerns = (previous.structuredData?.concerns ?? []).map(normalizeForCompare);
-  const latestObs = (latest.structuredData?.key_observations ?? []).map(normalizeForCompare);
-  const prevObs = (previous.structuredData?.key_observations ?? []).map(normalizeForCompare);
+  // Patient-reported symptoms count as findings alongside what was observed
+  const latestObs = [
+    ...(latest.structuredData?.key_observations ?? []),
+    ...(latest.structuredData?.patient_reported ?? []),
+  ].map(normalizeForCompare);
+  const prevObs = [
+    ...(previous.structuredData?.key_observations ?? []),
+    ...(previous.structuredData?.patient_reported ?? []),
+  ].map(normalizeForCompare);
   const latestRisks = latest.risks?.risk_flags ?? [];
   const prevRisks = previous.risks?.risk_flags ?? [];
 
-  // New findings: in latest but not in previous
-  const prevSet = new Set([...prevConcerns, ...prevObs]);
-  for (const c of latestConcerns) {
-    if (!prevSet.has(c)) result.new_findings.push(c);
-  }
-  for (const o of latestObs) {
-    if (!prevSet.has(o)) result.new_findings.push(o);
-  }
+  // New findings: in latest with no reworded match in previous (see finding-match)
+  const prevFindings = [...prevConcerns, ...prevObs];
+  const latestFindings = [...latestConcerns, ...latestObs];
+  result.new_findings.push(...unmatchedFindings(latestFindings, prevFindings));
 
   // Worsening: same risk with higher severity, or risk present now that wasn't before
-  const prevRiskSeverity: Record<string, string> = {};
+  // Risks match by taxonomy category, so rewording across visits is not a new risk
+  // A risk flagged more than once counts at its highest severity
+  const prevRiskSeverity: Record<string, number> = {};
   prevRisks.forEach((r) => {
-    prevRiskSeverity[r.risk.toLowerCase()] = r.severity.toLowerCase();
+    const key = riskMatchKey(r);
+    prevRiskSeverity[key] = Math.max(prevRiskSeverity[key] ?? 0, severityRank(r.severity));
   });
   for (const r of latestRisks) {
-    const name = r.risk.toLowerCase();
-    const sev = r.severity.toLowerCase();
-    const prevSev = prevRiskSeverity[name];
-    if (!prevSev) {
+    const prevRank = prevRiskSeverity[riskMatchKey(r)];
+    if (prevRank === undefined) {
       result.worsening_signals.push(`${r.risk} newly identified`);
-    } else if (
-      (sev === "high" && prevSev !== "high") ||
-      (sev === "medium" && prevSev === "low")
-    ) {
+    } else if (severityRank(r.severity) > prevRank) {
       result.worsening_signals.push(`${r.risk} severity increased`);
     }
   }
 
-  // Improvements: in previous but not in latest
-  const latestSet = new Set([...latestConcerns, ...latestObs]);
-  for (const c of prevConcerns) {
-    if (!latestSet.has(c)) result.improvements.push(c);
-  }
-  for (const o of prevObs) {
-    if (!latestSet.has(o)) result.improvements.push(o);
-  }
+  // Improvements: in previous with no match in latest
+  result.improvements.push(...unmatchedFindings(prevFindings, latestFindings));
 
   return result;
 }
@@ -114,37 +119,6 @@ export function getHighestRiskSeverity(risks: RiskFlag[]): "high" | "medium" | "
   return hasHigh ? "high" : hasMedium ? "medium" : "low";
 }
 
-export function generateEscalation(risks: RiskFlag[]): string[] {
-  const actions: string[] = [];
-  const highRisks = risks.filter((r) => r.severity?.toLowerCase() === "high");
-  const mediumRisks = risks.filter(
-    (r) => r.severity?.toLowerCase() === "medium" || r.severity?.toLowerCase() === "moderate"
-  );
-  const hasFallRisk = risks.some((r) => r.risk.toLowerCase().includes("fall"));
-  const hasMedRisk = risks.some(
-    (r) =>
-      r.risk.toLowerCase().includes("medication") ||
-      r.risk.toLowerCase().includes("med")
-  );
-
-  if (highRisks.length > 0) {
-    actions.push("Consider notifying supervising nurse or clinician today.");
-  }
-  if (mediumRisks.length >= 2) {
-    actions.push("Monitor closely over the next 24 hours.");
-  }
-  if (hasFallRisk) {
-    actions.push("Fall prevention measures may be warranted: clear pathways, adequate lighting, mobility assistance.");
-  }
-  if (hasMedRisk) {
-    actions.push("Medication adherence and side effects may warrant review.");
-  }
-  if (actions.length === 0 && risks.length > 0) {
-    actions.push("Continue routine monitoring.");
-  }
-  return actions;
-}
-
 export function getContributingSignals(
   flag: RiskFlag,
   concerns: string[],
@@ -193,6 +167,13 @@ export function computeAIConfidence(analysis: AnalysisResult): {
   level: "Low" | "Medium" | "High";
   reasoning: string;
 } {
+  if (analysis.status === "partial") {
+    return {
+      level: "Low",
+      reasoning: "Part of the AI output failed validation; findings may be incomplete.",
+    };
+  }
+
   let score = 0;
   const { cleanedTranscript, structuredData, risks } = analysis;
   const transcriptLen = cleanedTranscript?.length ?? 0;
@@ -409,18 +390,14 @@ export function deriveKeyTakeaway(
   return first ? `${first}.` : "Visit documented. No acute concerns.";
 }
 
-/** Count of risks that are new in latest vs previous */
+/** Count of risks that are new in latest vs previous, matched by category */
 export function countNewRisksSincePrior(
   latest: AnalysisResult,
   previous: AnalysisResult | null
 ): number {
   if (!previous) return 0;
-  const prevNames = new Set(
-    (previous.risks?.risk_flags ?? []).map((r) => r.risk.toLowerCase())
-  );
-  return (latest.risks?.risk_flags ?? []).filter(
-    (r) => !prevNames.has(r.risk.toLowerCase())
-  ).length;
+  const prevKeys = new Set((previous.risks?.risk_flags ?? []).map(riskMatchKey));
+  return (latest.risks?.risk_flags ?? []).filter((r) => !prevKeys.has(riskMatchKey(r))).length;
 }
 
 /** Sort risks by severity: High → Moderate → Low */
@@ -434,13 +411,12 @@ export function sortRisksBySeverity(risks: RiskFlag[]): RiskFlag[] {
   return [...risks].sort((a, b) => order(a.severity) - order(b.severity));
 }
 
-function normalizeRiskTitleForEMR(risk: string): string {
-  const r = risk.toLowerCase();
-  if (r.includes("medication")) return "Medication concern";
-  if (r.includes("fatigue") || r.includes("deterioration")) return "Possible deterioration";
-  if (r.includes("fall")) return "Fall risk";
-  if (r.includes("mobility")) return "Mobility concern";
-  return risk;
+/** Taxonomy title plus SNOMED code when known; uncategorized risks keep their wording */
+function normalizeRiskTitleForEMR(flag: RiskFlag): string {
+  const category = riskCategoryOf(flag);
+  if (category === "other") return flag.risk;
+  const { label, snomed } = RISK_TAXONOMY[category];
+  return snomed ? `${label} [SNOMED CT ${snomed.code}]` : label;
 }
 
 function capitalizeSeverity(s: string): string {
@@ -481,7 +457,7 @@ export function buildEMRExportText(
 ): string {
   const assessment = toClinicalAssessment(visitSummary);
   const riskLines = riskFlags.map(
-    (f) => `- ${normalizeRiskTitleForEMR(f.risk)} (${capitalizeSeverity(f.severity)}): ${softenReason(f.reason)}`
+    (f) => `- ${normalizeRiskTitleForEMR(f)} (${capitalizeSeverity(f.severity)}): ${softenReason(f.reason)}`
   );
   const planLines = suggestedActions.map((a) => `- ${a}`);
 
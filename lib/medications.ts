@@ -0,0 +1,54 @@
+/**
+ * Medication list validation.
+ * Shared by the /api/patients medication route, /api/analyze and the patient
+ * page form. Deterministic logic only.
+ */
+
+import type { Medication } from "@/types/patient";
+
+const MAX_FIELD_LENGTH = 120;
+
+function optionalText(v: unknown): string | undefined {
+  if (typeof v !== "string") return undefined;
+  const s = v.trim().slice(0, MAX_FIELD_LENGTH);
+  return s === "" ? undefined : s;
+}
+
+/** Generates an id for a new medication list entry */
+export function createMedicationId(): string {
+  return `med-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Validates an untrusted medication list.
+ * Returns null when the value is not an array of { name } objects; blank
+ * optional fields are dropped and missing ids are generated.
+ */
+export function parseMedications(raw: unknown): Medication[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const medications: Medication[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") return null;
+    const obj = item as Record<string, unknown>;
+    const name = optionalText(obj.name);
+    if (!name) return null;
+
+    const dose = optionalText(obj.dose);
+    const schedule = optionalText(obj.schedule);
+    medications.push({
+      id: optionalText(obj.id) ?? createMedicationId(),
+      name,
+      ...(dose ? { dose } : {}),
+      ...(schedule ? { schedule } : {}),
+    });
+  }
+  return medications;
+}
+
+/** e.g. "Metformin 500 mg · twice daily" */
+export function formatMedication(med: Medication): string {
+  return [[med.name, med.dose].filter(Boolean).join(" "), med.schedule]
+    .filter(Boolean)
+    .join(" · ");
+}
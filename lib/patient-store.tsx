@@ -1,8 +1,11 @@
 "use client";
 
 /**
- * Session-scoped patient store.
- * Persists to sessionStorage. No backend.
+ * Patient store.
+ * Patients and visit analyses persist server-side via /api/patients.
+ * Changes show in the UI right away and are tracked as pending writes until
+ * the server confirms them; failed writes stay listed for the user to retry.
+ * Only the active patient selection is kept in localStorage.
  */
 
 import {
@@ -10,57 +13,115 @@ import {
   useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
 } from "react";
-import type { AnalysisResult, Patient } from "@/types/patient";
+import type { AnalysisResult, Medication, Patient, PatientDetails } from "@/types/patient";
 
-const STORAGE_KEY = "caregiver_patients";
-const LEGACY_DUMMY_ID = "mary-thompson";
+const ACTIVE_PATIENT_KEY = "caregiver_active_patient";
 
-function loadFromStorage(): { patients: Patient[]; activePatientId: string | null } {
-  if (typeof window === "undefined") {
-    return { patients: [], activePatientId: null };
+function loadActivePatientId(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return localStorage.getItem(ACTIVE_PATIENT_KEY);
+  } catch {
+    return null;
   }
+}
+
+function saveActivePatientId(id: string | null) {
+  if (typeof window === "undefined") return;
   try {
-    const stored = sessionStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored) as {
-        patients: Patient[];
-        activePatientId: string | null;
-      };
-      const patients = (parsed.patients ?? []).filter(
-        (p) => p.id !== LEGACY_DUMMY_ID
-      );
-      if (patients.length > 0) {
-        const activeId = parsed.activePatientId;
-        const validActiveId =
-          activeId && patients.some((p) => p.id === activeId)
-            ? activeId
-            : patients[0].id;
-        return { patients, activePatientId: validActiveId };
-      }
-    }
+    if (id) localStorage.setItem(ACTIVE_PATIENT_KEY, id);
+    else localStorage.removeItem(ACTIVE_PATIENT_KEY);
   } catch {
     // ignore
   }
-  return { patients: [], activePatientId: null };
 }
 
-function saveToStorage(patients: Patient[], activePatientId: string | null) {
-  if (typeof window === "undefined") return;
-  sessionStorage.setItem(
-    STORAGE_KEY,
-    JSON.stringify({ patients, activePatientId })
-  );
+async function fetchPatients(): Promise<Patient[]> {
+  const res = await fetch("/api/patients", { cache: "no-store" });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data?.message ?? "Could not load patients");
+  return Array.isArray(data?.patients) ? data.patients : [];
+}
+
+class RequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+async function sendJson(
+  url: string,
+  body: unknown,
+  method: "POST" | "PUT" | "PATCH" = "POST"
+): Promise<void> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new RequestError(data?.message ?? `Request to ${url} failed`, res.status);
+  }
+}
+
+/** Drops a blank payer and unset fields */
+function withoutEmpty({ payer, acuity }: PatientDetails): PatientDetails {
+  return {
+    ...(payer?.trim() ? { payer: payer.trim() } : {}),
+    ...(acuity ? { acuity } : {}),
+  };
+}
+
+/** A change shown in the UI that the server has not confirmed yet */
+export interface PendingWrite {
+  id: string;
+  kind: "patient" | "details" | "analysis" | "medications";
+  patientId: string;
+  /** Visit timestamp, for analysis writes */
+  timestamp?: number;
+  /** For display, e.g. "Visit for Jane Doe" */
+  label: string;
+  status: "saving" | "failed";
+  error?: string;
+}
+
+type WriteInput = Omit<PendingWrite, "id" | "status" | "error">;
+
+/** Writes with the same key save the same data; a newer one supersedes a failed one */
+function writeKey(w: WriteInput): string {
+  return [w.kind, w.patientId, w.timestamp ?? ""].join(":");
 }
 
 interface PatientStoreContextValue {
   patients: Patient[];
   activePatientId: string | null;
   activePatient: Patient | null;
-  addPatient: (name: string, age: number) => void;
+  /** False until the initial load from the server has completed */
+  hydrated: boolean;
+  /** Why patients could not be loaded; the list is not the server's in that case */
+  loadError: string | null;
+  reloadPatients: () => void;
+  /** Saving or failed writes, oldest first */
+  pendingWrites: PendingWrite[];
+  retryWrite: (id: string) => void;
+  /** Each write resolves to whether the server saved it */
+  addPatient: (name: string, age: number, details?: PatientDetails) => Promise<boolean>;
+  /** Replaces the patient's payer and acuity; omitted fields are cleared */
+  updatePatientDetails: (patientId: string, details: PatientDetails) => Promise<boolean>;
   setActivePatient: (id: string | null) => void;
-  addAnalysisToActivePatient: (result: Omit<AnalysisResult, "timestamp">) => void;
+  addAnalysisToActivePatient: (result: Omit<AnalysisResult, "timestamp">) => Promise<boolean>;
+  /** `timestamp` defaults to now; queued visits pass the time they were recorded */
+  addAnalysisToPatient: (
+    patientId: string,
+    result: Omit<AnalysisResult, "timestamp">,
+    timestamp?: number
+  ) => Promise<boolean>;
+  setPatientMedications: (patientId: string, medications: Medication[]) => Promise<boolean>;
 }
 
 const PatientStoreContext = createContext<PatientStoreContextValue | null>(null);
@@ -69,46 +130,257 @@ export function PatientProvider({ children }: { children: React.ReactNode }) {
   const [patients, setPatients] = useState<Patient[]>([]);
   const [activePatientId, setActivePatientIdState] = useState<string | null>(null);
   const [hydrated, setHydrated] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingWrites, setPendingWrites] = useState<PendingWrite[]>([]);
+  const writeRuns = useRef(new Map<string, () => Promise<void>>());
+  // Creation of patients added in this session; their other writes wait on it
+  const patientSaves = useRef(new Map<string, Promise<void>>());
+  // Medication lists and details replace each other, so each kind is sent
+  // one at a time per patient
+  const replaceQueues = useRef(new Map<string, Promise<unknown>>());
+  // Only the latest load applies its result
+  const loadIdRef = useRef(0);
 
-  useEffect(() => {
-    const { patients: p, activePatientId: a } = loadFromStorage();
-    setPatients(p);
-    setActivePatientIdState(a);
-    setHydrated(true);
+  const loadPatients = useCallback(() => {
+    const loadId = ++loadIdRef.current;
+    setLoadError(null);
+    fetchPatients()
+      .then((p) => {
+        if (loadId !== loadIdRef.current) return;
+        const storedId = loadActivePatientId();
+        const validActiveId =
+          storedId && p.some((x) => x.id === storedId)
+            ? storedId
+            : p[0]?.id ?? null;
+        // Keep patients added here while the server was unreachable
+        setPatients((prev) => [...p, ...prev.filter((x) => !p.some((s) => s.id === x.id))]);
+        setActivePatientIdState((prev) => prev ?? validActiveId);
+      })
+      .catch((err) => {
+        console.error("[patient-store] Failed to load patients:", err);
+        if (loadId !== loadIdRef.current) return;
+        setLoadError(err instanceof Error ? err.message : "Could not load patients");
+      })
+      .finally(() => {
+        if (loadId === loadIdRef.current) setHydrated(true);
+      });
   }, []);
 
+  useEffect(() => {
+    loadPatients();
+  }, [loadPatients]);
+
   useEffect(() => {
     if (!hydrated) return;
-    saveToStorage(patients, activePatientId);
-  }, [patients, activePatientId, hydrated]);
+    saveActivePatientId(activePatientId);
+  }, [activePatientId, hydrated]);
 
-  const addPatient = useCallback((name: string, age: number) => {
-    const id = `patient-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-    const patient: Patient = { id, name, age, analyses: [] };
-    setPatients((prev) => [...prev, patient]);
-    setActivePatientIdState(id);
+  // Unsaved changes are lost if the page is closed
+  const hasPendingWrites = pendingWrites.length > 0;
+  useEffect(() => {
+    if (!hasPendingWrites) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [hasPendingWrites]);
+
+  const runWrite = useCallback(async (id: string): Promise<boolean> => {
+    const run = writeRuns.current.get(id);
+    if (!run) return false;
+    setPendingWrites((prev) =>
+      prev.map((w) => (w.id === id ? { ...w, status: "saving", error: undefined } : w))
+    );
+    try {
+      await run();
+      writeRuns.current.delete(id);
+      setPendingWrites((prev) => prev.filter((w) => w.id !== id));
+      return true;
+    } catch (err) {
+      console.error("[patient-store] Failed to save:", err);
+      const error = err instanceof Error ? err.message : "Could not save";
+      setPendingWrites((prev) =>
+        prev.map((w) => (w.id === id ? { ...w, status: "failed", error } : w))
+      );
+      return false;
+    }
+  }, []);
+
+  const startWrite = useCallback(
+    (write: WriteInput, run: () => Promise<void>): Promise<boolean> => {
+      const id = crypto.randomUUID();
+      const key = writeKey(write);
+      writeRuns.current.set(id, run);
+      setPendingWrites((prev) => {
+        const superseded = prev.filter((w) => w.status === "failed" && writeKey(w) === key);
+        for (const w of superseded) writeRuns.current.delete(w.id);
+        return [
+          ...prev.filter((w) => !superseded.includes(w)),
+          { ...write, id, status: "saving" },
+        ];
+      });
+      return runWrite(id);
+    },
+    [runWrite]
+  );
+
+  const retryWrite = useCallback(
+    (id: string) => {
+      runWrite(id);
+    },
+    [runWrite]
+  );
+
+  /** Resolves once the patient exists on the server */
+  const patientSaved = useCallback(async (patientId: string) => {
+    try {
+      await patientSaves.current.get(patientId);
+    } catch {
+      throw new Error("The patient has not been saved yet.");
+    }
   }, []);
 
+  /** Sends a replacing write after earlier ones of its kind for the patient */
+  const sendReplacing = useCallback(
+    (kind: string, patientId: string, send: () => Promise<void>) => {
+      const key = `${kind}:${patientId}`;
+      const previous = replaceQueues.current.get(key) ?? Promise.resolve();
+      const save = previous
+        .catch(() => undefined)
+        .then(() => patientSaved(patientId))
+        .then(send);
+      replaceQueues.current.set(key, save);
+      return save;
+    },
+    [patientSaved]
+  );
+
+  const addPatient = useCallback(
+    (name: string, age: number, details: PatientDetails = {}) => {
+      const id = `patient-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+      const patient: Patient = { id, name, age, ...withoutEmpty(details), analyses: [] };
+      setPatients((prev) => [...prev, patient]);
+      setActivePatientIdState(id);
+      return startWrite({ kind: "patient", patientId: id, label: `Patient ${name}` }, () => {
+        const body = { id, name, age, ...withoutEmpty(details) };
+        const save = sendJson("/api/patients", body).catch((err) => {
+          // The id is ours, so a conflict means an earlier attempt got through
+          if (err instanceof RequestError && err.status === 409) return;
+          throw err;
+        });
+        patientSaves.current.set(id, save);
+        return save;
+      });
+    },
+    [startWrite]
+  );
+
   const setActivePatient = useCallback((id: string | null) => {
     setActivePatientIdState(id);
   }, []);
 
-  const addAnalysisToActivePatient = useCallback(
-    (result: Omit<AnalysisResult, "timestamp">) => {
-      if (!activePatientId) return;
-      const analysis: AnalysisResult = {
-        ...result,
-        timestamp: Date.now(),
-      };
+  // Read through a ref so the write callbacks keep a stable identity
+  const patientsRef = useRef(patients);
+  patientsRef.current = patients;
+  const patientName = useCallback(
+    (patientId: string) =>
+      patientsRef.current.find((p) => p.id === patientId)?.name ?? "patient",
+    []
+  );
+
+  const addAnalysisToPatient = useCallback(
+    (
+      patientId: string,
+      result: Omit<AnalysisResult, "timestamp">,
+      timestamp: number = Date.now()
+    ) => {
+      const analysis: AnalysisResult = { ...result, timestamp };
       setPatients((prev) =>
         prev.map((p) =>
-          p.id === activePatientId
-            ? { ...p, analyses: [analysis, ...p.analyses] }
+          p.id === patientId
+            ? {
+                ...p,
+                // Newest first; a synced offline visit may predate later ones.
+                // A visit saved again replaces its earlier copy.
+                analyses: [
+                  analysis,
+                  ...p.analyses.filter((a) => a.timestamp !== timestamp),
+                ].sort((a, b) => b.timestamp - a.timestamp),
+              }
             : p
         )
       );
+      return startWrite(
+        {
+          kind: "analysis",
+          patientId,
+          timestamp,
+          label: `Visit for ${patientName(patientId)}, ${new Date(timestamp).toLocaleString()}`,
+        },
+        async () => {
+          await patientSaved(patientId);
+          await sendJson(`/api/patients/${encodeURIComponent(patientId)}/analyses`, analysis);
+        }
+      );
+    },
+    [patientName, patientSaved, startWrite]
+  );
+
+  const addAnalysisToActivePatient = useCallback(
+    async (result: Omit<AnalysisResult, "timestamp">) => {
+      if (!activePatientId) return false;
+      return addAnalysisToPatient(activePatientId, result);
+    },
+    [activePatientId, addAnalysisToPatient]
+  );
+
+  const setPatientMedications = useCallback(
+    (patientId: string, medications: Medication[]) => {
+      setPatients((prev) =>
+        prev.map((p) => (p.id === patientId ? { ...p, medications } : p))
+      );
+      return startWrite(
+        { kind: "medications", patientId, label: `Medications for ${patientName(patientId)}` },
+        () =>
+          sendReplacing("medications", patientId, () =>
+            sendJson(
+              `/api/patients/${encodeURIComponent(patientId)}/medications`,
+              { medications },
+              "PUT"
+            )
+          )
+      );
+    },
+    [patientName, sendReplacing, startWrite]
+  );
+
+  const updatePatientDetails = useCallback(
+    (patientId: string, details: PatientDetails) => {
+      const next = withoutEmpty(details);
+      setPatients((prev) =>
+        prev.map((p) => {
+          if (p.id !== patientId) return p;
+          const updated = { ...p, ...next };
+          if (!next.payer) delete updated.payer;
+          if (!next.acuity) delete updated.acuity;
+          return updated;
+        })
+      );
+      return startWrite(
+        { kind: "details", patientId, label: `Payer and acuity for ${patientName(patientId)}` },
+        () =>
+          sendReplacing("details", patientId, () =>
+            sendJson(
+              `/api/patients/${encodeURIComponent(patientId)}`,
+              { payer: next.payer ?? null, acuity: next.acuity ?? null },
+              "PATCH"
+            )
+          )
+      );
     },
-    [activePatientId]
+    [patientName, sendReplacing, startWrite]
   );
 
   const activePatient = patients.find((p) => p.id === activePatientId) ?? null;
@@ -117,9 +389,17 @@ export function PatientProvider({ children }: { children: React.ReactNode }) {
     patients,
     activePatientId,
     activePatient,
+    hydrated,
+    loadError,
+    reloadPatients: loadPatients,
+    pendingWrites,
+    retryWrite,
     addPatient,
+    updatePatientDetails,
     setActivePatient,
     addAnalysisToActivePatient,
+    addAnalysisToPatient,
+    setPatientMedications,
   };
 
   return (
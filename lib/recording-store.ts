@@ -0,0 +1,127 @@
+/**
+ * Crash-safe storage for in-progress voice recordings (browser only).
+ * VoiceRecorder appends each MediaRecorder chunk to IndexedDB as it arrives,
+ * so a tab crash or accidental navigation mid-visit loses at most the last
+ * chunk. A recording is removed once it has been stopped or discarded;
+ * anything left over on the next load is an unfinished recording to recover.
+ * Best effort: when IndexedDB is unavailable (e.g. private browsing), calls
+ * resolve quietly and recording continues in memory only.
+ */
+
+import { transact as transactDb, type BrowserDb } from "./browser-db";
+
+const SESSIONS = "sessions";
+const CHUNKS = "chunks";
+
+const DB: BrowserDb = {
+  name: "caregiver_recordings",
+  version: 1,
+  upgrade: (db) => {
+    db.createObjectStore(SESSIONS, { keyPath: "id" });
+    db.createObjectStore(CHUNKS, { autoIncrement: true }).createIndex("sessionId", "sessionId");
+  },
+};
+
+interface RecordingSession {
+  id: string;
+  mimeType: string;
+  /** ISO timestamp */
+  startedAt: string;
+  /** Seconds recorded so far, excluding pauses */
+  duration: number;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  data: Blob;
+}
+
+/** A recording left over from a previous page load */
+export interface UnfinishedRecording {
+  id: string;
+  blob: Blob;
+  duration: number;
+  startedAt: string;
+}
+
+function transact<T>(
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  return transactDb(DB, [SESSIONS, CHUNKS], mode, fn);
+}
+
+/** Registers a new recording; chunks are appended with appendRecordingChunk */
+export async function startRecordingSession(mimeType: string): Promise<string> {
+  const session: RecordingSession = {
+    id: crypto.randomUUID(),
+    mimeType,
+    startedAt: new Date().toISOString(),
+    duration: 0,
+  };
+  await transact("readwrite", (tx) => tx.objectStore(SESSIONS).put(session));
+  return session.id;
+}
+
+/** Chunks are stored in arrival order (auto-incremented keys) */
+export async function appendRecordingChunk(id: string, data: Blob): Promise<void> {
+  const chunk: StoredChunk = { sessionId: id, data };
+  await transact("readwrite", (tx) => tx.objectStore(CHUNKS).add(chunk));
+}
+
+export async function updateRecordingDuration(id: string, duration: number): Promise<void> {
+  await transact("readwrite", (tx) => {
+    const sessions = tx.objectStore(SESSIONS);
+    const get = sessions.get(id);
+    get.onsuccess = () => {
+      const session = get.result as RecordingSession | undefined;
+      if (session) sessions.put({ ...session, duration });
+    };
+  });
+}
+
+/** Removes a recording and its chunks (stopped, recovered or discarded) */
+export async function deleteRecording(id: string): Promise<void> {
+  await transact("readwrite", (tx) => {
+    tx.objectStore(SESSIONS).delete(id);
+    const chunks = tx.objectStore(CHUNKS);
+    const keys = chunks.index("sessionId").getAllKeys(id);
+    keys.onsuccess = () => {
+      for (const key of keys.result) chunks.delete(key);
+    };
+  });
+}
+
+/**
+ * The most recent recording that was never stopped, with its chunks joined
+ * into one blob. Recordings without audio are deleted instead.
+ */
+export async function loadUnfinishedRecording(): Promise<UnfinishedRecording | null> {
+  const sessions = await transact<RecordingSession[]>("readonly", (tx) =>
+    tx.objectStore(SESSIONS).getAll()
+  );
+  if (!sessions || sessions.length === 0) return null;
+
+  const latest = sessions.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+  for (const stale of sessions) {
+    if (stale.id !== latest.id) await deleteRecording(stale.id);
+  }
+
+  const chunks = await transact<StoredChunk[]>("readonly", (tx) =>
+    tx.objectStore(CHUNKS).index("sessionId").getAll(latest.id)
+  );
+  if (!chunks || chunks.length === 0) {
+    await deleteRecording(latest.id);
+    return null;
+  }
+
+  return {
+    id: latest.id,
+    blob: new Blob(
+      chunks.map((c) => c.data),
+      { type: latest.mimeType }
+    ),
+    duration: latest.duration,
+    startedAt: latest.startedAt,
+  };
+}
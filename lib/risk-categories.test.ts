@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  categorizeRisk,
+  RISK_CATEGORIES,
+  riskCategoryOf,
+  riskMatchKey,
+  type RiskCategory,
+} from "./risk-categories";
+import { RISK_ANALYZER } from "./ai/prompts";
+import { validateRiskAnalysisJson } from "./ai/schema";
+
+describe("categorizeRisk", () => {
+  it.each<[string, string, RiskCategory]>([
+    ["Fall risk", "", "fall"],
+    ["Unsteady gait", "", "fall"],
+    ["Missed dose: Metformin", "", "medication"],
+    ["Possible delirium", "", "cognition"],
+    ["Possible UTI", "", "infection"],
+    ["Heart rate elevated", "", "vital_signs"],
+    ["Pressure sore on heel", "", "skin"],
+    ["Knee soreness", "", "pain"],
+    ["Caregiver fatigue", "Daughter reports feeling overwhelmed.", "caregiver_burnout"],
+    ["Loose rugs in hallway", "", "home_safety"],
+    ["General decline", "Appears more tired and weak.", "fatigue"],
+    ["Lives alone", "", "other"],
+  ])("%s → %s", (risk, reason, expected) => {
+    expect(categorizeRisk(risk, reason)).toBe(expected);
+  });
+});
+
+describe("riskCategoryOf and riskMatchKey", () => {
+  it("uses the assigned category, ignoring unknown values", () => {
+    expect(riskCategoryOf({ risk: "Sore heel", reason: "", category: "skin" })).toBe("skin");
+    expect(
+      riskCategoryOf({ risk: "Sore heel", reason: "", category: "wounds" as RiskCategory })
+    ).toBe("pain");
+  });
+
+  it("keys categorized risks by category and the rest by wording", () => {
+    expect(riskMatchKey({ risk: "Near fall", reason: "" })).toBe("fall");
+    expect(riskMatchKey({ risk: " Lives alone. ", reason: "" })).toBe("other:lives alone");
+  });
+});
+
+describe("taxonomy and RISK_ANALYZER", () => {
+  it("lists every category in the prompt", () => {
+    for (const category of RISK_CATEGORIES) {
+      expect(RISK_ANALYZER).toContain(`- ${category}: `);
+    }
+  });
+
+  it("rejects categories outside the taxonomy", () => {
+    const output = (category: unknown) => ({
+      risk_flags: [{ risk: "Fall risk", severity: "high", reason: "", category }],
+    });
+    expect(validateRiskAnalysisJson(output("fall"))).toEqual([]);
+    expect(validateRiskAnalysisJson(output("falls"))).toEqual([
+      `risk_flags[0].category must be one of: ${RISK_CATEGORIES.join(", ")}`,
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Canonical risk taxonomy.
+ * RISK_ANALYZER maps every flag to one of these categories; flags saved before
+ * that (or with no category) are categorized from their wording. Trends,
+ * escalation rules, exports and offline evaluation all match risks by
+ * category rather than by free-text label. Deterministic logic only.
+ */
+
+import type { RiskCategory, RiskFlag } from "@/types/patient";
+
+export type { RiskCategory };
+
+export interface SnomedConcept {
+  code: string;
+  display: string;
+}
+
+export interface RiskCategoryDefinition {
+  /** Clinician-facing title, used in exports */
+  label: string;
+  /** SNOMED CT concept for coded exports, where one fits the category */
+  snomed?: SnomedConcept;
+}
+
+export const SNOMED_SYSTEM = "http://snomed.info/sct";
+
+/**
+ * Keep in step with the category list in the RISK_ANALYZER prompt; a
+ * category added here needs a new prompt version before the model can use it.
+ */
+export const RISK_TAXONOMY: Record<RiskCategory, RiskCategoryDefinition> = {
+  fall: {
+    label: "Fall risk",
+    snomed: { code: "129839007", display: "At risk for falls" },
+  },
+  medication: {
+    label: "Medication concern",
+    snomed: { code: "129834002", display: "Noncompliance with medication regimen" },
+  },
+  cognition: {
+    label: "Cognitive change",
+    snomed: { code: "386806002", display: "Impaired cognition" },
+  },
+  vital_signs: { label: "Abnormal vital signs" },
+  hydration_nutrition: { label: "Nutrition / hydration" },
+  edema: {
+    label: "Edema",
+    snomed: { code: "267038008", display: "Edema" },
+  },
+  pain: {
+    label: "Pain",
+    snomed: { code: "22253000", display: "Pain" },
+  },
+  skin: { label: "Skin integrity" },
+  mobility: {
+    label: "Mobility concern",
+    snomed: { code: "82971005", display: "Impaired mobility" },
+  },
+  fatigue: {
+    label: "Possible deterioration",
+    snomed: { code: "84229001", display: "Fatigue" },
+  },
+  infection: {
+    label: "Possible infection",
+    snomed: { code: "40733004", display: "Infectious disease" },
+  },
+  caregiver_burnout: { label: "Caregiver strain" },
+  home_safety: { label: "Home safety hazard" },
+  other: { label: "Other" },
+};
+
+/** First match wins; the risk label is tried before the reason */
+const CATEGORY_PATTERNS: [RiskCategory, RegExp][] = [
+  [
+    "caregiver_burnout",
+    /\b(caregiver (?:stress|strain|burnout|fatigue|exhaustion)|burn(?:ed|t)?[- ]?out|overwhelmed|respite)\b/i,
+  ],
+  ["medication", /\b(medications?|meds?|missed dose|doses?|pills?|adherence|unlisted|discrepanc\w*)\b/i],
+  ["fall", /\b(falls?|fell|unsteady|dizz\w*|balance)\b/i],
+  ["cognition", /\b(confus\w*|cogniti\w*|disorient\w*|memory|delirium)\b/i],
+  ["infection", /\b(infect\w*|uti|urinary tract|sepsis|cellulitis|pneumonia)\b/i],
+  [
+    "vital_signs",
+    /\b(blood pressure|heart rate|pulse|oxygen|spo2|temperature|fever|glucose|hypertensi\w*|hypotensi\w*|tachycardi\w*|hypox\w*)\b/i,
+  ],
+  ["hydration_nutrition", /\b(hydrat\w*|dehydrat\w*|fluids?|drank|intake|appetite|nutrition\w*)\b/i],
+  ["edema", /\b(swell\w*|swollen|edema|oedema)\b/i],
+  ["skin", /\b(skin|wound|pressure (?:ulcer|injury|sore)|redness|bruis\w*)\b/i],
+  ["pain", /\b(pain\w*|sore\w*|ache\w*)\b/i],
+  ["mobility", /\b(mobility|walker|gait|ambulat\w*)\b/i],
+  ["home_safety", /\b(hazards?|clutter\w*|rugs?|stairs|smoke (?:alarm|detector)|grab bars?|unsafe)\b/i],
+  ["fatigue", /\b(fatigue\w*|tired\w*|letharg\w*|weak\w*|deteriorat\w*)\b/i],
+];
+
+export const RISK_CATEGORIES = Object.keys(RISK_TAXONOMY) as RiskCategory[];
+
+export function isRiskCategory(v: unknown): v is RiskCategory {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(RISK_TAXONOMY, v);
+}
+
+/** Maps a free-text risk flag to a category */
+export function categorizeRisk(risk: string, reason = ""): RiskCategory {
+  for (const text of [risk, reason]) {
+    const hit = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(text));
+    if (hit) return hit[0];
+  }
+  return "other";
+}
+
+/** The flag's assigned category, or one inferred from its wording */
+export function riskCategoryOf(flag: Pick<RiskFlag, "risk" | "reason" | "category">): RiskCategory {
+  return isRiskCategory(flag.category)
+    ? flag.category
+    : categorizeRisk(flag.risk ?? "", flag.reason ?? "");
+}
+
+/**
+ * Identity used to match a risk across visits: its category, or its
+ * normalized wording when it fits no category.
+ */
+export function riskMatchKey(flag: Pick<RiskFlag, "risk" | "reason" | "category">): string {
+  const category = riskCategoryOf(flag);
+  if (category !== "other") return category;
+  return `other:${(flag.risk ?? "").toLowerCase().trim().replace(/\.+$/, "")}`;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { readServerSentEvents, StreamReadError, type ServerSentEvent } from "./sse";
+
+/** Response streaming `chunks`, then failing with `error` if given */
+function streamed(chunks: string[], error?: Error): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      if (error) controller.error(error);
+      else controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+describe("readServerSentEvents", () => {
+  it("parses events split across chunks", async () => {
+    const events: ServerSentEvent[] = [];
+    await readServerSentEvents(
+      streamed(['event: token\ndata: {"delta":"BP', ' 128"}\n\n', "data: done"]),
+      (e) => events.push(e)
+    );
+    expect(events).toEqual([
+      { event: "token", data: { delta: "BP 128" } },
+      { event: "message", data: "done" },
+    ]);
+  });
+
+  it("wraps a failed read in StreamReadError", async () => {
+    const read = readServerSentEvents(streamed([], new TypeError("network error")), () => {});
+    await expect(read).rejects.toBeInstanceOf(StreamReadError);
+  });
+
+  it("passes errors thrown by the handler through unchanged", async () => {
+    const read = readServerSentEvents(streamed(["data: 1\n\n"]), () => {
+      throw new TypeError("bad handler");
+    });
+    await expect(read).rejects.toThrow(TypeError);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Minimal Server-Sent Events reader for fetch responses.
+ * EventSource only supports GET, so POST endpoints that stream
+ * (e.g. /api/analyze/stream) are read with this instead.
+ */
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+/** The response body stopped mid-stream, e.g. because the connection dropped */
+export class StreamReadError extends Error {
+  constructor(public readonly cause: unknown) {
+    super(cause instanceof Error ? cause.message : "The response stream was interrupted");
+    this.name = "StreamReadError";
+  }
+}
+
+function parseBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+  }
+  if (data.length === 0) return null;
+  const raw = data.join("\n");
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+}
+
+/**
+ * Reads a text/event-stream body, calling `onEvent` for each event.
+ * JSON data payloads are parsed; others are passed through as strings.
+ * Resolves when the stream ends.
+ * @throws StreamReadError when the body cannot be read to the end; errors
+ *   thrown by `onEvent` propagate unchanged
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  if (!response.body) throw new Error("Response has no body to stream");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (err) {
+      throw new StreamReadError(err);
+    }
+    const { done, value } = chunk;
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) onEvent(parsed);
+      boundary = buffer.indexOf("\n\n");
+    }
+
+    if (done) break;
+  }
+
+  const last = parseBlock(buffer.trim());
+  if (last) onEvent(last);
+}
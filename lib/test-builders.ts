@@ -0,0 +1,23 @@
+/**
+ * Builders shared by the unit tests. Imported only from *.test.ts files.
+ */
+
+import type { AnalysisResult, RiskFlag, StructuredVisitData } from "@/types/patient";
+
+export function flag(risk: string, severity: string, reason = "Observed during visit."): RiskFlag {
+  return { risk, severity, reason };
+}
+
+export function analysis(
+  structuredData: StructuredVisitData = {},
+  riskFlags: RiskFlag[] = [],
+  extra: Partial<AnalysisResult> = {}
+): AnalysisResult {
+  return {
+    cleanedTranscript: "",
+    structuredData,
+    risks: { risk_flags: riskFlags },
+    timestamp: 0,
+    ...extra,
+  };
+}
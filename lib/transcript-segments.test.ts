@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  assignSpeakerRoles,
+  formatSpeakerTranscript,
+  parseTranscriptSegments,
+  stitchChunkSegments,
+  type DiarizedSegment,
+} from "./transcript-segments";
+
+const seg = (speaker: string, start: number, text: string): DiarizedSegment => ({
+  speaker,
+  start,
+  end: start + 1,
+  text,
+});
+
+describe("assignSpeakerRoles", () => {
+  it("takes the speaker with the most words as the caregiver", () => {
+    const segments = assignSpeakerRoles([
+      seg("A", 0, "How are you feeling today?"),
+      seg("B", 1, "A bit dizzy."),
+      seg("A", 2, "Blood pressure is 128 over 82. Ankles look less swollen."),
+      seg("C", 3, "Hi mom."),
+    ]);
+    expect(segments.map((s) => s.speaker)).toEqual(["caregiver", "patient", "caregiver", "other"]);
+  });
+
+  it("breaks ties by who spoke first and drops empty segments", () => {
+    const segments = assignSpeakerRoles([
+      seg("B", 0, "Good morning."),
+      seg("A", 1, "  "),
+      seg("A", 2, "Morning dear."),
+    ]);
+    expect(segments).toEqual([
+      { speaker: "caregiver", start: 0, end: 1, text: "Good morning." },
+      { speaker: "patient", start: 2, end: 3, text: "Morning dear." },
+    ]);
+  });
+});
+
+describe("stitchChunkSegments", () => {
+  it("orders chunks on the recording's clock with roles per chunk", () => {
+    const segments = stitchChunkSegments([
+      { offset: 0, segments: [seg("A", 0, "Checking your blood pressure now."), seg("B", 2, "Okay.")] },
+      // The provider labels speakers afresh in each request
+      { offset: 300, segments: [seg("A", 1, "My knee hurts."), seg("B", 3, "Let me look at your knee then.")] },
+    ]);
+    expect(segments.map((s) => [s.speaker, s.start, s.end])).toEqual([
+      ["caregiver", 0, 1],
+      ["patient", 2, 3],
+      ["patient", 301, 302],
+      ["caregiver", 303, 304],
+    ]);
+  });
+});
+
+describe("formatSpeakerTranscript", () => {
+  it("labels turns and joins consecutive segments of one speaker", () => {
+    const text = formatSpeakerTranscript(
+      assignSpeakerRoles([
+        seg("A", 0, "How did you sleep?"),
+        seg("B", 1, "Not well."),
+        seg("B", 2, "My knee hurts."),
+        seg("A", 3, "Knee is warm to the touch and slightly swollen."),
+      ])
+    );
+    expect(text).toBe(
+      "Caregiver: How did you sleep?\nPatient: Not well. My knee hurts.\n" +
+        "Caregiver: Knee is warm to the touch and slightly swollen."
+    );
+  });
+
+  it("returns plain text when only the caregiver speaks", () => {
+    const text = formatSpeakerTranscript(
+      assignSpeakerRoles([seg("A", 0, "Alert and oriented."), seg("A", 1, "Ate lunch.")])
+    );
+    expect(text).toBe("Alert and oriented. Ate lunch.");
+  });
+});
+
+describe("parseTranscriptSegments", () => {
+  it("accepts well-formed segments", () => {
+    const value = [{ speaker: "patient", start: 0, end: 1.5, text: "I feel dizzy." }];
+    expect(parseTranscriptSegments(value)).toEqual(value);
+  });
+
+  it.each<[string, unknown]>([
+    ["not an array", { speaker: "patient" }],
+    ["unknown speaker", [{ speaker: "A", start: 0, end: 1, text: "" }]],
+    ["end before start", [{ speaker: "patient", start: 2, end: 1, text: "" }]],
+    ["missing text", [{ speaker: "patient", start: 0, end: 1 }]],
+  ])("rejects %s", (_, value) => {
+    expect(parseTranscriptSegments(value)).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Speaker-labelled transcripts from diarized recordings.
+ * Diarization only tells speakers apart (A, B, ...); roles are assigned here
+ * so the pipeline can separate what the patient said from what the caregiver
+ * observed. The labelled text ("Caregiver: ..." / "Patient: ...") is what the
+ * caregiver reviews and what TRANSCRIPT_CLEANER receives.
+ * Shared by /api/transcribe, /api/analyze and the record page.
+ */
+
+import type { SpeakerRole, TranscriptSegment } from "@/types/patient";
+
+/** Segment as returned by the transcription provider */
+export interface DiarizedSegment {
+  /** Provider's speaker label, e.g. "A" */
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export const SPEAKER_ROLES: SpeakerRole[] = ["caregiver", "patient", "other"];
+
+export const SPEAKER_LABELS: Record<SpeakerRole, string> = {
+  caregiver: "Caregiver",
+  patient: "Patient",
+  other: "Other",
+};
+
+/** Matches a line written by formatSpeakerTranscript */
+export const SPEAKER_LINE = /^(Caregiver|Patient|Other):\s*/;
+
+const MAX_SEGMENTS = 2000;
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Assigns roles to diarized speakers. The caregiver is recording and narrating
+ * the visit, so the speaker with the most words is taken to be the caregiver
+ * (ties go to whoever spoke first) and the next the patient; anyone else is
+ * "other". Empty segments are dropped.
+ */
+export function assignSpeakerRoles(segments: DiarizedSegment[]): TranscriptSegment[] {
+  const spoken = segments
+    .map((s) => ({ ...s, text: s.text.trim() }))
+    .filter((s) => s.text);
+
+  const words = new Map<string, number>();
+  for (const s of spoken) {
+    words.set(s.speaker, (words.get(s.speaker) ?? 0) + wordCount(s.text));
+  }
+  // Map keeps first-appearance order, and sort is stable
+  const ranked = Array.from(words.keys()).sort(
+    (a, b) => (words.get(b) ?? 0) - (words.get(a) ?? 0)
+  );
+  const roleOf = (speaker: string): SpeakerRole =>
+    speaker === ranked[0] ? "caregiver" : speaker === ranked[1] ? "patient" : "other";
+
+  return spoken.map((s) => ({
+    speaker: roleOf(s.speaker),
+    start: s.start,
+    end: s.end,
+    text: s.text,
+  }));
+}
+
+/** Segments from one chunk of a long recording, timed from the chunk's start */
+export interface ChunkSegments {
+  /** Seconds from the start of the recording to the start of the chunk */
+  offset: number;
+  segments: DiarizedSegment[];
+}
+
+/**
+ * Joins chunk transcriptions back into one recording, in chunk order, with
+ * times shifted onto the recording's clock. Speaker labels only mean
+ * something within one transcription request, so roles are assigned per chunk.
+ */
+export function stitchChunkSegments(chunks: ChunkSegments[]): TranscriptSegment[] {
+  return chunks.flatMap(({ offset, segments }) =>
+    assignSpeakerRoles(segments).map((s) => ({
+      ...s,
+      start: s.start + offset,
+      end: s.end + offset,
+    }))
+  );
+}
+
+/** True when anyone other than the caregiver speaks */
+export function hasMultipleSpeakers(segments: TranscriptSegment[]): boolean {
+  return segments.some((s) => s.speaker !== "caregiver");
+}
+
+/**
+ * One line per speaker turn, consecutive segments of the same speaker joined.
+ * A recording with only the caregiver speaking is returned as plain text.
+ */
+export function formatSpeakerTranscript(segments: TranscriptSegment[]): string {
+  if (!hasMultipleSpeakers(segments)) {
+    return segments.map((s) => s.text).join(" ").trim();
+  }
+  const turns: { speaker: SpeakerRole; text: string }[] = [];
+  for (const s of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === s.speaker) last.text += ` ${s.text}`;
+    else turns.push({ speaker: s.speaker, text: s.text });
+  }
+  return turns.map((t) => `${SPEAKER_LABELS[t.speaker]}: ${t.text}`).join("\n");
+}
+
+/** Validates segments sent by a client; null when malformed */
+export function parseTranscriptSegments(value: unknown): TranscriptSegment[] | null {
+  if (!Array.isArray(value) || value.length > MAX_SEGMENTS) return null;
+  const segments: TranscriptSegment[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") return null;
+    const { speaker, start, end, text } = item as Record<string, unknown>;
+    if (
+      !SPEAKER_ROLES.includes(speaker as SpeakerRole) ||
+      typeof start !== "number" ||
+      typeof end !== "number" ||
+      !Number.isFinite(start) ||
+      !Number.isFinite(end) ||
+      end < start ||
+      typeof text !== "string"
+    ) {
+      return null;
+    }
+    segments.push({ speaker: speaker as SpeakerRole, start, end, text });
+  }
+  return segments;
+}
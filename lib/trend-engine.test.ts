@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { computeRiskSeries, type RiskSeriesPattern } from "./trend-engine";
+import type { AnalysisResult, RiskFlag } from "@/types/patient";
+
+function visit(timestamp: number, riskFlags: RiskFlag[]): AnalysisResult {
+  return {
+    cleanedTranscript: "",
+    structuredData: {},
+    risks: { risk_flags: riskFlags },
+    timestamp,
+  };
+}
+
+/** Newest first, as stored */
+function history(...visits: RiskFlag[][]): AnalysisResult[] {
+  return visits.map((flags, i) => visit(visits.length - i, flags)).reverse();
+}
+
+/** Fall-risk flags per visit, oldest first; null for a visit without one */
+function fallHistory(severities: (RiskFlag["severity"] | null)[]): AnalysisResult[] {
+  return history(
+    ...severities.map((severity) =>
+      severity ? [{ risk: "Fall risk", severity, reason: "", category: "fall" as const }] : []
+    )
+  );
+}
+
+describe("computeRiskSeries", () => {
+  it.each<[(RiskFlag["severity"] | null)[], RiskSeriesPattern, string]>([
+    [["low", "high"], "escalating", "Fall risk escalated from low to high since the previous flagged visit"],
+    [["high", "low", "medium"], "escalating", "Fall risk escalated from low to moderate since the previous flagged visit"],
+    [["low", null, "medium"], "escalating", "Fall risk escalated from low to moderate since the previous flagged visit"],
+    [["medium", "medium", "medium"], "persistent", "Fall risk flagged in 3 of last 3 visits"],
+    [["low", "high", "high"], "persistent", "Fall risk flagged in 3 of last 3 visits"],
+    [["medium", null, "medium"], "recurring", "Fall risk flagged in 2 of last 3 visits"],
+    [["high", "high"], "recurring", "Fall risk flagged in 2 of last 2 visits"],
+    [["high", "low", "high", "medium"], "resolving", "Fall risk easing from high to moderate since the previous flagged visit"],
+    [["high", "high", "low"], "resolving", "Fall risk easing from high to low since the previous flagged visit"],
+    [["low", "medium", null], "resolving", "Fall risk not flagged in last visit (flagged in 2 of last 3)"],
+  ])("%j is %s", (severities, pattern, summary) => {
+    expect(computeRiskSeries(fallHistory(severities))).toEqual([
+      expect.objectContaining({ pattern, summary }),
+    ]);
+  });
+
+  it("keeps one series for a risk reworded across visits", () => {
+    const series = computeRiskSeries(
+      history(
+        [{ risk: "Fall risk", severity: "low", reason: "Unsteady on stairs.", category: "fall" }],
+        [{ risk: "Unsteady gait", severity: "medium", reason: "Near fall.", category: "fall" }],
+        [{ risk: "Near fall in bathroom", severity: "high", reason: "Slipped." }]
+      )
+    );
+
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({
+      key: "fall",
+      category: "fall",
+      label: "Fall risk",
+      pattern: "escalating",
+      severities: ["low", "medium", "high"],
+    });
+  });
+
+  it("keeps different uncategorized risks apart, labelled by their latest wording", () => {
+    const series = computeRiskSeries(
+      history(
+        [
+          { risk: "Lost hearing aid", severity: "low", reason: "" },
+          { risk: "Missed appointment", severity: "low", reason: "" },
+        ],
+        [{ risk: "Lost hearing aid.", severity: "low", reason: "" }]
+      )
+    );
+
+    expect(series.map((s) => [s.key, s.label, s.pattern])).toEqual([
+      ["other:lost hearing aid", "Lost hearing aid.", "recurring"],
+      ["other:missed appointment", "Missed appointment", "resolving"],
+    ]);
+  });
+});
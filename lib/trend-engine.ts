@@ -0,0 +1,193 @@
+/**
+ * Longitudinal risk trend engine.
+ * Looks across a patient's visit history (not just latest vs previous) to
+ * classify each risk as persistent, recurring, escalating or resolving.
+ * Risks are matched by taxonomy category, so rewordings across visits stay
+ * one series. Deterministic logic only.
+ */
+
+import type { AnalysisResult, RiskCategory } from "@/types/patient";
+import { RISK_TAXONOMY, riskCategoryOf, riskMatchKey } from "@/lib/risk-categories";
+
+export type TrendSeverity = "low" | "medium" | "high";
+
+export type RiskSeriesPattern =
+  | "escalating"
+  | "persistent"
+  | "recurring"
+  | "resolving";
+
+export interface RiskSeries {
+  /** riskMatchKey of the flags in this series */
+  key: string;
+  category: RiskCategory;
+  /** Taxonomy label; uncategorized risks use the most recent visit's wording */
+  label: string;
+  pattern: RiskSeriesPattern;
+  /** Visits in the window that flagged this risk */
+  occurrences: number;
+  /** Visits considered (≤ window) */
+  windowSize: number;
+  /** Severity per visit in the window, oldest → newest (null = not flagged) */
+  severities: (TrendSeverity | null)[];
+  /** e.g. "Fall risk flagged in 3 of last 4 visits" */
+  summary: string;
+}
+
+export interface TrendEngineOptions {
+  /** Number of most recent visits to consider (default 5) */
+  window?: number;
+  /** Consecutive flagged visits, ending at the latest, to count as persistent (default 3) */
+  persistentStreak?: number;
+  /** Consecutive unflagged recent visits to count as resolving (default 1) */
+  resolvedAfter?: number;
+}
+
+export const DEFAULT_TREND_WINDOW = 5;
+
+const PATTERN_ORDER: Record<RiskSeriesPattern, number> = {
+  escalating: 0,
+  persistent: 1,
+  recurring: 2,
+  resolving: 3,
+};
+
+const SEVERITY_RANK: Record<TrendSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+function normalizeSeverity(s: string | undefined): TrendSeverity {
+  const x = s?.toLowerCase() ?? "low";
+  if (x === "high") return "high";
+  if (x === "medium" || x === "moderate") return "medium";
+  return "low";
+}
+
+function severityLabel(s: TrendSeverity): string {
+  return s === "medium" ? "moderate" : s;
+}
+
+function trailingCount<T>(items: T[], predicate: (item: T) => boolean): number {
+  let n = 0;
+  for (let i = items.length - 1; i >= 0 && predicate(items[i]); i--) n++;
+  return n;
+}
+
+function classify(
+  severities: (TrendSeverity | null)[],
+  persistentStreak: number,
+  resolvedAfter: number
+): RiskSeriesPattern | null {
+  const flagged = severities.filter((s): s is TrendSeverity => s !== null);
+  if (flagged.length < 2 && severities[severities.length - 1] !== null) {
+    // A single, current occurrence is a "new" finding, handled by computeTrendAnalysis
+    return null;
+  }
+
+  const latest = severities[severities.length - 1];
+  if (latest === null) {
+    return trailingCount(severities, (s) => s === null) >= resolvedAfter
+      ? "resolving"
+      : null;
+  }
+
+  // Compared with the previous flagged visit, as describe() words it
+  const previous = flagged[flagged.length - 2];
+  if (SEVERITY_RANK[latest] > SEVERITY_RANK[previous]) {
+    return "escalating";
+  }
+  if (SEVERITY_RANK[latest] < SEVERITY_RANK[previous]) {
+    return "resolving";
+  }
+  if (trailingCount(severities, (s) => s !== null) >= persistentStreak) {
+    return "persistent";
+  }
+  return "recurring";
+}
+
+function describe(
+  label: string,
+  pattern: RiskSeriesPattern,
+  severities: (TrendSeverity | null)[],
+  occurrences: number
+): string {
+  const n = severities.length;
+  const flagged = severities.filter((s): s is TrendSeverity => s !== null);
+  const change = () =>
+    `from ${severityLabel(flagged[flagged.length - 2])} to ${severityLabel(flagged[flagged.length - 1])}`;
+  switch (pattern) {
+    case "escalating":
+      return `${label} escalated ${change()} since the previous flagged visit`;
+    case "resolving": {
+      const clear = trailingCount(severities, (s) => s === null);
+      return clear > 0
+        ? `${label} not flagged in last ${clear === 1 ? "visit" : `${clear} visits`} (flagged in ${occurrences} of last ${n})`
+        : `${label} easing ${change()} since the previous flagged visit`;
+    }
+    default:
+      return `${label} flagged in ${occurrences} of last ${n} visits`;
+  }
+}
+
+/**
+ * Computes per-risk series across a patient's analyses.
+ *
+ * @param analyses - Patient analyses, newest first (as stored)
+ * @returns Series sorted by pattern (escalating first) then occurrences
+ */
+export function computeRiskSeries(
+  analyses: AnalysisResult[],
+  options: TrendEngineOptions = {}
+): RiskSeries[] {
+  const window = Math.max(2, options.window ?? DEFAULT_TREND_WINDOW);
+  const persistentStreak = Math.max(2, options.persistentStreak ?? 3);
+  const resolvedAfter = Math.max(1, options.resolvedAfter ?? 1);
+
+  // Oldest → newest within the window
+  const visits = analyses.slice(0, window).reverse();
+  if (visits.length < 2) return [];
+
+  const labels = new Map<string, { category: RiskCategory; label: string }>();
+  const byKey = new Map<string, (TrendSeverity | null)[]>();
+
+  visits.forEach((visit, i) => {
+    for (const flag of visit.risks?.risk_flags ?? []) {
+      if (!flag.risk?.trim()) continue;
+      const key = riskMatchKey(flag);
+      const category = riskCategoryOf(flag);
+      labels.set(key, {
+        category,
+        label: category === "other" ? flag.risk.trim() : RISK_TAXONOMY[category].label,
+      });
+      const row = byKey.get(key) ?? new Array<TrendSeverity | null>(visits.length).fill(null);
+      const sev = normalizeSeverity(flag.severity);
+      // Keep the highest severity if a visit lists the same risk twice
+      if (row[i] === null || SEVERITY_RANK[sev] > SEVERITY_RANK[row[i] as TrendSeverity]) {
+        row[i] = sev;
+      }
+      byKey.set(key, row);
+    }
+  });
+
+  const series: RiskSeries[] = [];
+  byKey.forEach((severities, key) => {
+    const pattern = classify(severities, persistentStreak, resolvedAfter);
+    if (!pattern) return;
+    const occurrences = severities.filter((s) => s !== null).length;
+    const { category, label } = labels.get(key) ?? { category: "other", label: key };
+    series.push({
+      key,
+      category,
+      label,
+      pattern,
+      occurrences,
+      windowSize: severities.length,
+      severities,
+      summary: describe(label, pattern, severities, occurrences),
+    });
+  });
+
+  return series.sort(
+    (a, b) =>
+      PATTERN_ORDER[a.pattern] - PATTERN_ORDER[b.pattern] ||
+      b.occurrences - a.occurrences
+  );
+}
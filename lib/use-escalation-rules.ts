@@ -0,0 +1,53 @@
+"use client";
+
+/**
+ * Escalation rules for the current agency.
+ * Starts from the bundled defaults and switches to /api/escalation-rules
+ * once loaded; the request is shared by every page in the session.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_ESCALATION_CONFIG,
+  parseEscalationConfig,
+  type EscalationConfig,
+} from "./escalation-rules";
+
+let configRequest: Promise<EscalationConfig> | null = null;
+
+async function fetchEscalationConfig(): Promise<EscalationConfig> {
+  const res = await fetch("/api/escalation-rules", { cache: "no-store" });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message ?? "Could not load escalation rules");
+  return parseEscalationConfig(data?.config);
+}
+
+export function useEscalationRules(): {
+  config: EscalationConfig;
+  /** Set when the agency config could not be loaded; defaults are in use */
+  error: string | null;
+} {
+  const [config, setConfig] = useState(DEFAULT_ESCALATION_CONFIG);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    configRequest ??= fetchEscalationConfig();
+    configRequest.then(
+      (loaded) => {
+        if (!cancelled) setConfig(loaded);
+      },
+      (err: unknown) => {
+        // Allow a retry on the next page that asks
+        configRequest = null;
+        console.error("[escalation-rules] Using defaults:", err);
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { config, error };
+}
@@ -0,0 +1,157 @@
+"use client";
+
+/**
+ * Visit queue store.
+ * Visits captured while offline are kept in IndexedDB (see ./visit-queue) and
+ * synced oldest first: on load, when the browser comes back online, right
+ * after a visit is queued, and every minute while visits are waiting.
+ * A visit is removed only after the server has saved its analysis.
+ * Visits that failed for a reason other than connectivity are only retried
+ * on load, on reconnect, or when asked.
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import { usePatientStore } from "./patient-store";
+import {
+  isOnline,
+  listQueuedVisits,
+  NetworkError,
+  removeQueuedVisit,
+  saveQueuedVisit,
+  syncQueuedVisit,
+  type QueuedVisit,
+} from "./visit-queue";
+
+const SYNC_INTERVAL_MS = 60_000;
+
+export type QueuedVisitInput = Omit<QueuedVisit, "id" | "error">;
+
+interface VisitQueueContextValue {
+  /** Oldest first */
+  visits: QueuedVisit[];
+  /** Visit currently being transcribed or analyzed */
+  syncingId: string | null;
+  /** False when the visit could not be stored on this device */
+  enqueueVisit: (visit: QueuedVisitInput) => Promise<boolean>;
+  removeVisit: (id: string) => void;
+  syncVisits: (options?: { retryFailed?: boolean }) => void;
+}
+
+const VisitQueueContext = createContext<VisitQueueContextValue | null>(null);
+
+export function VisitQueueProvider({ children }: { children: React.ReactNode }) {
+  const { patients, hydrated, addAnalysisToPatient } = usePatientStore();
+  const [visits, setVisits] = useState<QueuedVisit[]>([]);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const syncingRef = useRef(false);
+  // Read at sync time, so a sync in progress sees patients added meanwhile
+  const patientsRef = useRef(patients);
+  patientsRef.current = patients;
+
+  const refresh = useCallback(async () => {
+    setVisits(await listQueuedVisits());
+  }, []);
+
+  const markFailed = useCallback(async (id: string, error: string) => {
+    // Re-read: the visit may have been transcribed before it failed
+    const latest = (await listQueuedVisits()).find((v) => v.id === id);
+    if (latest) await saveQueuedVisit({ ...latest, error });
+  }, []);
+
+  const syncVisits = useCallback(
+    async ({ retryFailed = true }: { retryFailed?: boolean } = {}) => {
+      if (syncingRef.current || !hydrated || !isOnline()) return;
+      syncingRef.current = true;
+      try {
+        for (const visit of await listQueuedVisits()) {
+          if (visit.error && !retryFailed) continue;
+          const patient = patientsRef.current.find((p) => p.id === visit.patientId);
+          // Not loaded (patients could not be fetched) or since removed
+          if (!patient) continue;
+
+          setSyncingId(visit.id);
+          try {
+            const result = await syncQueuedVisit(visit, patient.medications ?? []);
+            if (await addAnalysisToPatient(visit.patientId, result, visit.recordedAt)) {
+              await removeQueuedVisit(visit.id);
+            } else {
+              await markFailed(visit.id, "Analyzed, but the visit could not be saved.");
+            }
+          } catch (err) {
+            if (err instanceof NetworkError) break;
+            console.error("[visit-queue] Failed to sync visit:", err);
+            await markFailed(visit.id, err instanceof Error ? err.message : "Sync failed");
+          }
+          await refresh();
+        }
+      } finally {
+        syncingRef.current = false;
+        setSyncingId(null);
+        await refresh();
+      }
+    },
+    [addAnalysisToPatient, hydrated, markFailed, refresh]
+  );
+
+  const enqueueVisit = useCallback(
+    async (visit: QueuedVisitInput) => {
+      const saved = await saveQueuedVisit({ ...visit, id: crypto.randomUUID() });
+      await refresh();
+      if (saved) syncVisits({ retryFailed: false });
+      return saved;
+    },
+    [refresh, syncVisits]
+  );
+
+  const removeVisit = useCallback(
+    (id: string) => {
+      removeQueuedVisit(id).then(refresh);
+    },
+    [refresh]
+  );
+
+  useEffect(() => {
+    if (!hydrated) return;
+    syncVisits();
+    const onOnline = () => syncVisits();
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [hydrated, syncVisits]);
+
+  // navigator.onLine can report online with no usable connection; keep trying
+  const hasWaiting = visits.some((v) => !v.error);
+  useEffect(() => {
+    if (!hasWaiting) return;
+    const timer = setInterval(() => syncVisits({ retryFailed: false }), SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasWaiting, syncVisits]);
+
+  const value: VisitQueueContextValue = {
+    visits,
+    syncingId,
+    enqueueVisit,
+    removeVisit,
+    syncVisits,
+  };
+
+  return (
+    <VisitQueueContext.Provider value={value}>
+      {children}
+    </VisitQueueContext.Provider>
+  );
+}
+
+export function useVisitQueue() {
+  const ctx = useContext(VisitQueueContext);
+  if (!ctx) {
+    throw new Error("useVisitQueue must be used within VisitQueueProvider");
+  }
+  return ctx;
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NetworkError, syncQueuedVisit, type QueuedVisit } from "./visit-queue";
+import type { PipelineResult } from "./ai/pipeline";
+
+type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+const VISIT: QueuedVisit = {
+  id: "v1",
+  patientId: "p1",
+  patientName: "Jane Doe",
+  recordedAt: Date.UTC(2026, 0, 5, 9, 30),
+  audio: new Blob(["audio"], { type: "audio/webm" }),
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("syncQueuedVisit", () => {
+  it("transcribes the recording, then analyzes the transcript", async () => {
+    const fetch = vi.fn<Fetch>(async (url) =>
+      url === "/api/transcribe"
+        ? json({ text: "Caregiver: BP 128/82.", segments: [] })
+        : json({ cleanedTranscript: "BP 128/82." })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    const result = await syncQueuedVisit(VISIT, [{ id: "m1", name: "Donepezil" }]);
+
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual(["/api/transcribe", "/api/analyze"]);
+    expect(JSON.parse(String(fetch.mock.calls[1][1]?.body))).toEqual({
+      transcript: "Caregiver: BP 128/82.",
+      medications: [{ id: "m1", name: "Donepezil" }],
+      patientName: "Jane Doe",
+    });
+    expect(result.cleanedTranscript).toBe("BP 128/82.");
+  });
+
+  it("skips transcription once a transcript is queued", async () => {
+    const fetch = vi.fn<Fetch>(async () => json({ cleanedTranscript: "Notes." }));
+    vi.stubGlobal("fetch", fetch);
+
+    await syncQueuedVisit({ ...VISIT, audio: undefined, transcript: "Notes." }, []);
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual(["/api/analyze"]);
+  });
+
+  it("returns a queued analysis without calling the server", async () => {
+    const fetch = vi.fn<Fetch>();
+    vi.stubGlobal("fetch", fetch);
+    const result = { cleanedTranscript: "Notes." } as PipelineResult;
+
+    await expect(syncQueuedVisit({ ...VISIT, transcript: "Notes.", result }, [])).resolves.toBe(
+      result
+    );
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reports a dropped connection as a NetworkError", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        throw new TypeError("Failed to fetch");
+      })
+    );
+    await expect(syncQueuedVisit(VISIT, [])).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("surfaces server errors with their message", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => json({ message: "Audio file must be under 200 MB." }, 400))
+    );
+    await expect(syncQueuedVisit(VISIT, [])).rejects.toThrow("Audio file must be under 200 MB.");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Offline queue of visits waiting to be analyzed (browser only).
+ * Caregivers often record in homes with no signal. A visit that cannot reach
+ * /api/transcribe or /api/analyze is stored in IndexedDB with its patient
+ * and the time it was recorded, and synced by VisitQueueProvider once the
+ * device is back online. The original visit time becomes the analysis
+ * timestamp, so timelines and trends stay in visit order. A visit leaves the
+ * queue only once the server has saved its analysis.
+ */
+
+import { transact, type BrowserDb } from "./browser-db";
+import type { PipelineResult } from "./ai/pipeline";
+import type { Medication, TranscriptSegment } from "@/types/patient";
+
+const VISITS = "visits";
+
+const DB: BrowserDb = {
+  name: "caregiver_visit_queue",
+  version: 1,
+  upgrade: (db) => {
+    db.createObjectStore(VISITS, { keyPath: "id" });
+  },
+};
+
+export interface QueuedVisit {
+  id: string;
+  patientId: string;
+  /** For display; the patient may be renamed or removed before sync */
+  patientName: string;
+  /** When the visit was recorded (ms since epoch) */
+  recordedAt: number;
+  /** Recording still to transcribe; dropped once transcribed */
+  audio?: Blob;
+  transcript?: string;
+  segments?: TranscriptSegment[];
+  /** Analysis kept until the server saves it, so a retry does not re-run it */
+  result?: PipelineResult;
+  /** Why the last sync attempt failed; retried on the next sync */
+  error?: string;
+}
+
+/** The request never reached the server (offline, DNS, dropped connection) */
+export class NetworkError extends Error {
+  constructor(message = "No network connection") {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+/** fetch, with connection failures surfaced as NetworkError */
+export async function sendRequest(url: string, init: RequestInit): Promise<Response> {
+  if (!isOnline()) throw new NetworkError();
+  try {
+    return await fetch(url, init);
+  } catch (err) {
+    // fetch rejects with TypeError only when no response was received
+    if (err instanceof TypeError) throw new NetworkError(err.message);
+    throw err;
+  }
+}
+
+async function readJson(res: Response, fallback: string): Promise<Record<string, unknown>> {
+  const data = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!res.ok) {
+    throw new Error(typeof data?.message === "string" ? data.message : fallback);
+  }
+  return data ?? {};
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/** Oldest visit first */
+export async function listQueuedVisits(): Promise<QueuedVisit[]> {
+  const visits = await transact<QueuedVisit[]>(DB, [VISITS], "readonly", (tx) =>
+    tx.objectStore(VISITS).getAll()
+  );
+  return (visits ?? []).sort((a, b) => a.recordedAt - b.recordedAt);
+}
+
+/** Adds or replaces a queued visit; false when it could not be stored */
+export async function saveQueuedVisit(visit: QueuedVisit): Promise<boolean> {
+  const key = await transact(DB, [VISITS], "readwrite", (tx) =>
+    tx.objectStore(VISITS).put(visit)
+  );
+  return key !== undefined;
+}
+
+export async function removeQueuedVisit(id: string): Promise<void> {
+  await transact(DB, [VISITS], "readwrite", (tx) => {
+    tx.objectStore(VISITS).delete(id);
+  });
+}
+
+// =============================================================================
+// Sync
+// =============================================================================
+
+/** Transcribes a recording; returns { text, segments? } as /api/transcribe does */
+export async function transcribeRecording(
+  audio: Blob
+): Promise<{ text: string; segments: TranscriptSegment[] }> {
+  const formData = new FormData();
+  formData.append("audio", audio, "recording.webm");
+  const data = await readJson(
+    await sendRequest("/api/transcribe", { method: "POST", body: formData }),
+    "Transcription failed"
+  );
+  return {
+    text: typeof data.text === "string" ? data.text.trim() : "",
+    segments: Array.isArray(data.segments) ? (data.segments as TranscriptSegment[]) : [],
+  };
+}
+
+/**
+ * Runs one queued visit through transcription and analysis. The transcript
+ * and then the analysis are saved back to the queue as soon as they exist,
+ * so a failed step is retried without repeating the ones before it.
+ * @throws NetworkError when the device is (still) offline
+ */
+export async function syncQueuedVisit(
+  visit: QueuedVisit,
+  medications: Medication[]
+): Promise<PipelineResult> {
+  if (visit.result) return visit.result;
+  let { transcript, segments } = visit;
+
+  if (!transcript && visit.audio) {
+    const transcribed = await transcribeRecording(visit.audio);
+    if (!transcribed.text) throw new Error("No speech detected in recording.");
+    transcript = transcribed.text;
+    segments = transcribed.segments;
+    await saveQueuedVisit({ ...visit, audio: undefined, transcript, segments, error: undefined });
+  }
+  if (!transcript) throw new Error("Queued visit has no recording or notes.");
+
+  const data = await readJson(
+    await sendRequest("/api/analyze", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        transcript,
+        medications,
+        patientName: visit.patientName,
+        ...(segments && segments.length > 0 ? { segments } : {}),
+      }),
+    }),
+    "Analysis failed"
+  );
+  const result = data as unknown as PipelineResult;
+  await saveQueuedVisit({
+    ...visit,
+    audio: undefined,
+    transcript,
+    segments,
+    result,
+    error: undefined,
+  });
+  return result;
+}
@@ -0,0 +1,239 @@
+/**
+ * Vital signs normalization, validation and reference ranges.
+ * Shared by the pipeline (server) and the insights/timeline views (client).
+ * Deterministic logic only.
+ */
+
+import type { BloodPressureReading, VitalReading, VitalSigns } from "@/types/patient";
+
+export type VitalKey = keyof VitalSigns;
+
+export interface VitalAlert {
+  vital: VitalKey;
+  label: string;
+  /** Formatted reading, e.g. "182/96 mmHg" */
+  reading: string;
+  status: "low" | "high";
+  severity: "medium" | "high";
+}
+
+export const VITAL_LABELS: Record<VitalKey, string> = {
+  blood_pressure: "Blood pressure",
+  heart_rate: "Heart rate",
+  temperature: "Temperature",
+  spo2: "SpO2",
+  glucose: "Blood glucose",
+  weight: "Weight",
+  pain_score: "Pain score",
+};
+
+export const VITAL_KEYS = Object.keys(VITAL_LABELS) as VitalKey[];
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+function toNumber(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string") {
+    const n = Number.parseFloat(v.replace(/[^\d.-]/g, ""));
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+/** Accepts 128, "128", or { value: 128, unit: "bpm" } */
+function readValue(v: unknown): { value: number; unit: string } | null {
+  if (v && typeof v === "object" && !Array.isArray(v)) {
+    const obj = v as Record<string, unknown>;
+    const value = toNumber(obj.value);
+    if (value === null) return null;
+    return { value, unit: typeof obj.unit === "string" ? obj.unit.trim() : "" };
+  }
+  const value = toNumber(v);
+  if (value === null) return null;
+  const unit = typeof v === "string" ? v.replace(/^[\s\d.-]+/, "").trim() : "";
+  return { value, unit };
+}
+
+function within(value: number, min: number, max: number): boolean {
+  return value >= min && value <= max;
+}
+
+function normalizeBloodPressure(v: unknown): BloodPressureReading | undefined {
+  let systolic: number | null = null;
+  let diastolic: number | null = null;
+
+  if (typeof v === "string") {
+    const m = /(\d{2,3})\s*(?:\/|over)\s*(\d{2,3})/i.exec(v);
+    if (m) {
+      systolic = Number(m[1]);
+      diastolic = Number(m[2]);
+    }
+  } else if (v && typeof v === "object") {
+    const obj = v as Record<string, unknown>;
+    systolic = toNumber(obj.systolic);
+    diastolic = toNumber(obj.diastolic);
+  }
+
+  if (
+    systolic === null ||
+    diastolic === null ||
+    !within(systolic, 50, 260) ||
+    !within(diastolic, 20, 160) ||
+    diastolic >= systolic
+  ) {
+    return undefined;
+  }
+  return { systolic, diastolic, unit: "mmHg" };
+}
+
+function normalizeTemperature(v: unknown): VitalReading | undefined {
+  const r = readValue(v);
+  if (!r) return undefined;
+  const celsius = /c/i.test(r.unit) || (!/f/i.test(r.unit) && r.value < 50);
+  if (celsius) {
+    return within(r.value, 30, 45) ? { value: r.value, unit: "°C" } : undefined;
+  }
+  return within(r.value, 86, 113) ? { value: r.value, unit: "°F" } : undefined;
+}
+
+function normalizeGlucose(v: unknown): VitalReading | undefined {
+  const r = readValue(v);
+  if (!r) return undefined;
+  const mmol = /mmol/i.test(r.unit) || (!/mg/i.test(r.unit) && r.value < 35);
+  if (mmol) {
+    return within(r.value, 1, 35) ? { value: r.value, unit: "mmol/L" } : undefined;
+  }
+  return within(r.value, 20, 700) ? { value: r.value, unit: "mg/dL" } : undefined;
+}
+
+function normalizeWeight(v: unknown): VitalReading | undefined {
+  const r = readValue(v);
+  if (!r) return undefined;
+  if (/kg|kilo/i.test(r.unit)) {
+    return within(r.value, 20, 300) ? { value: r.value, unit: "kg" } : undefined;
+  }
+  return within(r.value, 45, 660) ? { value: r.value, unit: "lb" } : undefined;
+}
+
+function normalizeSimple(
+  v: unknown,
+  unit: string,
+  min: number,
+  max: number
+): VitalReading | undefined {
+  const r = readValue(v);
+  return r && within(r.value, min, max) ? { value: r.value, unit } : undefined;
+}
+
+/**
+ * Validates raw model output into VitalSigns.
+ * Values outside physiologically plausible bounds are dropped, not clamped,
+ * so a transcription error never shows up as a real reading.
+ */
+export function normalizeVitals(raw: unknown): VitalSigns {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const obj = raw as Record<string, unknown>;
+
+  const vitals: VitalSigns = {
+    blood_pressure: normalizeBloodPressure(obj.blood_pressure),
+    heart_rate: normalizeSimple(obj.heart_rate, "bpm", 20, 250),
+    temperature: normalizeTemperature(obj.temperature),
+    spo2: normalizeSimple(obj.spo2, "%", 50, 100),
+    glucose: normalizeGlucose(obj.glucose),
+    weight: normalizeWeight(obj.weight),
+    pain_score: normalizeSimple(obj.pain_score, "/10", 0, 10),
+  };
+
+  for (const key of VITAL_KEYS) {
+    if (vitals[key] === undefined) delete vitals[key];
+  }
+  return vitals;
+}
+
+// =============================================================================
+// Reference ranges
+// =============================================================================
+
+export function formatVital(key: VitalKey, vitals: VitalSigns): string | null {
+  if (key === "blood_pressure") {
+    const bp = vitals.blood_pressure;
+    return bp ? `${bp.systolic}/${bp.diastolic} ${bp.unit}` : null;
+  }
+  const r = vitals[key];
+  if (!r) return null;
+  return r.unit === "/10" || r.unit === "%" || r.unit.startsWith("°")
+    ? `${r.value}${r.unit}`
+    : `${r.value} ${r.unit}`;
+}
+
+function alert(
+  vitals: VitalSigns,
+  vital: VitalKey,
+  status: VitalAlert["status"],
+  severity: VitalAlert["severity"]
+): VitalAlert {
+  return {
+    vital,
+    label: VITAL_LABELS[vital],
+    reading: formatVital(vital, vitals) ?? "",
+    status,
+    severity,
+  };
+}
+
+/**
+ * Flags vitals outside adult reference ranges.
+ * "high" severity marks values that usually warrant same-day clinician contact.
+ */
+export function assessVitals(vitals: VitalSigns | undefined): VitalAlert[] {
+  if (!vitals) return [];
+  const alerts: VitalAlert[] = [];
+
+  const bp = vitals.blood_pressure;
+  if (bp) {
+    if (bp.systolic >= 180 || bp.diastolic >= 120) alerts.push(alert(vitals, "blood_pressure", "high", "high"));
+    else if (bp.systolic > 140 || bp.diastolic > 90) alerts.push(alert(vitals, "blood_pressure", "high", "medium"));
+    else if (bp.systolic < 90 || bp.diastolic < 60) {
+      alerts.push(alert(vitals, "blood_pressure", "low", bp.systolic < 80 ? "high" : "medium"));
+    }
+  }
+
+  const hr = vitals.heart_rate?.value;
+  if (hr !== undefined) {
+    if (hr > 120 || hr < 45) alerts.push(alert(vitals, "heart_rate", hr > 120 ? "high" : "low", "high"));
+    else if (hr > 100 || hr < 60) alerts.push(alert(vitals, "heart_rate", hr > 100 ? "high" : "low", "medium"));
+  }
+
+  const temp = vitals.temperature;
+  if (temp) {
+    const f = temp.unit === "°C" ? temp.value * 1.8 + 32 : temp.value;
+    if (f >= 101) alerts.push(alert(vitals, "temperature", "high", "high"));
+    else if (f > 99.5) alerts.push(alert(vitals, "temperature", "high", "medium"));
+    else if (f < 95) alerts.push(alert(vitals, "temperature", "low", "high"));
+    else if (f < 96.8) alerts.push(alert(vitals, "temperature", "low", "medium"));
+  }
+
+  const spo2 = vitals.spo2?.value;
+  if (spo2 !== undefined) {
+    if (spo2 < 90) alerts.push(alert(vitals, "spo2", "low", "high"));
+    else if (spo2 < 95) alerts.push(alert(vitals, "spo2", "low", "medium"));
+  }
+
+  const glucose = vitals.glucose;
+  if (glucose) {
+    const mgdl = glucose.unit === "mmol/L" ? glucose.value * 18 : glucose.value;
+    if (mgdl < 70) alerts.push(alert(vitals, "glucose", "low", "high"));
+    else if (mgdl > 300) alerts.push(alert(vitals, "glucose", "high", "high"));
+    else if (mgdl > 180) alerts.push(alert(vitals, "glucose", "high", "medium"));
+  }
+
+  const pain = vitals.pain_score?.value;
+  if (pain !== undefined) {
+    if (pain >= 7) alerts.push(alert(vitals, "pain_score", "high", "high"));
+    else if (pain >= 4) alerts.push(alert(vitals, "pain_score", "high", "medium"));
+  }
+
+  return alerts;
+}
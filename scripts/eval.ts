@@ -0,0 +1,207 @@
+/**
+ * Offline evaluation CLI
+ *
+ *   npm run eval                       # mock provider, compare to baseline
+ *   npm run eval -- --provider live    # configured LLM provider (.env / .env.local)
+ *   npm run eval -- --update-baseline  # record the current scores as the baseline
+ *
+ * Other flags: --corpus <path>, --baseline <path>, --tolerance <n>, --json.
+ * Exits 1 when a metric regresses past the tolerance or a case fails to run.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { loadEnvConfig } from "@next/env";
+import { resolveLLMProvider } from "@/lib/ai/llm";
+import { createMockLLMProvider } from "@/lib/ai/mock";
+import {
+  compareToBaseline,
+  createBaseline,
+  runEvaluation,
+  scoreEvaluation,
+  type EvalBaseline,
+  type EvalCase,
+  type EvalReport,
+  type PRF,
+} from "@/lib/ai/eval";
+
+const FIXTURES_DIR = path.join(process.cwd(), "lib", "ai", "fixtures");
+
+interface CliOptions {
+  provider: "mock" | "live";
+  corpus: string;
+  baseline: string;
+  tolerance: number;
+  updateBaseline: boolean;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    provider: "mock",
+    corpus: path.join(FIXTURES_DIR, "eval-corpus.json"),
+    baseline: path.join(FIXTURES_DIR, "eval-baseline.json"),
+    tolerance: 0.02,
+    updateBaseline: false,
+    json: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+    switch (arg) {
+      case "--provider": {
+        const provider = value();
+        if (provider !== "mock" && provider !== "live") {
+          throw new Error(`--provider must be "mock" or "live"`);
+        }
+        options.provider = provider;
+        break;
+      }
+      case "--corpus":
+        options.corpus = path.resolve(value());
+        break;
+      case "--baseline":
+        options.baseline = path.resolve(value());
+        break;
+      case "--tolerance":
+        options.tolerance = Number(value());
+        if (!Number.isFinite(options.tolerance) || options.tolerance < 0) {
+          throw new Error("--tolerance must be a non-negative number");
+        }
+        break;
+      case "--update-baseline":
+        options.updateBaseline = true;
+        break;
+      case "--json":
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+// =============================================================================
+// Output
+// =============================================================================
+
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(7);
+
+function prfRow(label: string, m: PRF): string {
+  return `  ${label.padEnd(22)}${pct(m.precision)}${pct(m.recall)}${pct(m.f1)}   tp=${m.tp} fp=${m.fp} fn=${m.fn}`;
+}
+
+function printReport(report: EvalReport): void {
+  console.log(`\nProvider: ${report.provider} (${report.model}), ${report.cases.length} cases\n`);
+
+  console.log(`  ${"Risk flags".padEnd(22)}${"prec".padStart(7)}${"recall".padStart(7)}${"f1".padStart(7)}`);
+  console.log(prfRow("overall", report.risks.overall));
+  for (const [category, m] of Object.entries(report.risks.byCategory)) {
+    console.log(prfRow(`  ${category}`, m));
+  }
+  for (const [severity, m] of Object.entries(report.risks.bySeverity)) {
+    console.log(prfRow(`  severity=${severity}`, m));
+  }
+  console.log(`  severity agreement    ${pct(report.risks.severityAgreement)}\n`);
+
+  console.log("  Structured fields");
+  for (const [field, s] of Object.entries(report.fields)) {
+    console.log(`  ${`  ${field}`.padEnd(22)}${pct(s.accuracy)}   ${s.correct}/${s.total}`);
+  }
+
+  const problems = report.cases.filter(
+    (c) =>
+      c.error ||
+      c.missedRisks.length + c.unexpectedRisks.length + c.severityMismatches.length + c.fieldErrors.length > 0
+  );
+  if (problems.length > 0) console.log("\n  Case details");
+  for (const c of problems) {
+    console.log(`  - ${c.id}${c.status === "partial" ? " (partial)" : ""}`);
+    if (c.error) console.log(`      error: ${c.error}`);
+    if (c.missedRisks.length) console.log(`      missed: ${c.missedRisks.join(", ")}`);
+    if (c.unexpectedRisks.length) console.log(`      unexpected: ${c.unexpectedRisks.join(", ")}`);
+    for (const m of c.severityMismatches) console.log(`      severity ${m}`);
+    for (const f of c.fieldErrors) console.log(`      field ${f}`);
+  }
+}
+
+// =============================================================================
+// Main
+// =============================================================================
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  const corpus = await readJson<EvalCase[]>(options.corpus);
+  if (!corpus?.length) throw new Error(`No cases found in ${options.corpus}`);
+
+  // Same env files the dev server reads
+  loadEnvConfig(process.cwd());
+  const client = options.provider === "mock" ? createMockLLMProvider() : resolveLLMProvider();
+
+  const results = await runEvaluation(corpus, client, {
+    onCase: options.json
+      ? undefined
+      : (id, i) => process.stderr.write(`[eval] ${i + 1}/${corpus.length} ${id}\n`),
+  });
+  const report = scoreEvaluation(corpus, results, client.name, client.model);
+  const failed = report.cases.filter((c) => c.error).length;
+
+  if (options.updateBaseline) {
+    await fs.writeFile(options.baseline, `${JSON.stringify(createBaseline(report), null, 2)}\n`, "utf8");
+    if (!options.json) printReport(report);
+    console.error(`\n[eval] Baseline written to ${path.relative(process.cwd(), options.baseline)}`);
+    return failed > 0 ? 1 : 0;
+  }
+
+  const baseline = await readJson<EvalBaseline>(options.baseline);
+  const comparison = baseline ? compareToBaseline(report, baseline, options.tolerance) : undefined;
+
+  if (options.json) {
+    console.log(JSON.stringify({ report, comparison }, null, 2));
+  } else {
+    printReport(report);
+    if (!baseline) {
+      console.log("\nNo baseline found; run with --update-baseline to record one.");
+    } else {
+      if (baseline.provider !== report.provider || baseline.model !== report.model) {
+        console.log(`\nNote: baseline was recorded with ${baseline.provider} (${baseline.model}).`);
+      }
+      const fmt = (c: { metric: string; baseline: number; current: number }) =>
+        `  ${c.metric}: ${pct(c.baseline).trim()} -> ${pct(c.current).trim()}`;
+      if (comparison?.improvements.length) {
+        console.log(`\nImproved vs baseline:\n${comparison.improvements.map(fmt).join("\n")}`);
+      }
+      if (comparison?.regressions.length) {
+        console.log(`\nREGRESSED vs baseline:\n${comparison.regressions.map(fmt).join("\n")}`);
+      } else {
+        console.log(`\nNo regressions vs baseline (tolerance ${options.tolerance}).`);
+      }
+    }
+  }
+
+  return failed > 0 || (comparison?.regressions.length ?? 0) > 0 ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err: unknown) => {
+    console.error(`[eval] ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+);
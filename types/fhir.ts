@@ -0,0 +1,121 @@
+/**
+ * Minimal FHIR R4 resource types for visit export.
+ * Only the elements CareGiver AI populates are modeled.
+ */
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirNarrative {
+  status: "generated" | "additional";
+  div: string;
+}
+
+interface FhirResourceBase {
+  id: string;
+  text?: FhirNarrative;
+}
+
+export interface FhirPatient extends FhirResourceBase {
+  resourceType: "Patient";
+  identifier: { system: string; value: string }[];
+  name: { text: string }[];
+}
+
+export interface FhirEncounter extends FhirResourceBase {
+  resourceType: "Encounter";
+  status: "finished";
+  class: FhirCoding;
+  type?: FhirCodeableConcept[];
+  subject: FhirReference;
+  period: { start: string };
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirObservation extends FhirResourceBase {
+  resourceType: "Observation";
+  status: "final";
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  effectiveDateTime: string;
+  valueString?: string;
+  valueQuantity?: FhirQuantity;
+  component?: { code: FhirCodeableConcept; valueQuantity: FhirQuantity }[];
+}
+
+export interface FhirFlag extends FhirResourceBase {
+  resourceType: "Flag";
+  status: "active";
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  period: { start: string };
+}
+
+export interface FhirRiskAssessment extends FhirResourceBase {
+  resourceType: "RiskAssessment";
+  status: "final";
+  subject: FhirReference;
+  encounter: FhirReference;
+  occurrenceDateTime: string;
+  basis?: FhirReference[];
+  prediction: {
+    outcome: FhirCodeableConcept;
+    qualitativeRisk: FhirCodeableConcept;
+    rationale?: string;
+  }[];
+}
+
+export interface FhirCarePlan extends FhirResourceBase {
+  resourceType: "CarePlan";
+  status: "active";
+  intent: "plan";
+  title: string;
+  subject: FhirReference;
+  encounter: FhirReference;
+  created: string;
+  activity: {
+    detail: {
+      status: "not-started";
+      description: string;
+    };
+  }[];
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirEncounter
+  | FhirObservation
+  | FhirFlag
+  | FhirRiskAssessment
+  | FhirCarePlan;
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id: string;
+  type: "collection";
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
@@ -1,33 +1,167 @@
 /**
- * Patient and analysis types for session-scoped multi-patient workflow
+ * Patient and analysis types for the multi-patient workflow
  */
 
+/** Character range in the cleaned transcript (end exclusive) */
+export interface EvidenceSpan {
+  start: number;
+  end: number;
+}
+
+/** Canonical risk categories; see RISK_TAXONOMY in lib/risk-categories */
+export type RiskCategory =
+  | "fall"
+  | "medication"
+  | "cognition"
+  | "vital_signs"
+  | "hydration_nutrition"
+  | "edema"
+  | "pain"
+  | "skin"
+  | "mobility"
+  | "fatigue"
+  | "infection"
+  | "caregiver_burnout"
+  | "home_safety"
+  | "other";
+
 export interface RiskFlag {
   risk: string;
   severity: string;
   reason: string;
+  /** Absent on analyses saved before the risk taxonomy */
+  category?: RiskCategory;
+  /** Transcript text supporting this flag; absent on older analyses */
+  evidence?: EvidenceSpan[];
+}
+
+export interface VitalReading {
+  value: number;
+  unit: string;
+}
+
+export interface BloodPressureReading {
+  systolic: number;
+  diastolic: number;
+  unit: "mmHg";
+}
+
+/** Numeric vitals extracted from the visit; absent when not mentioned */
+export interface VitalSigns {
+  blood_pressure?: BloodPressureReading;
+  heart_rate?: VitalReading;
+  temperature?: VitalReading;
+  spo2?: VitalReading;
+  glucose?: VitalReading;
+  weight?: VitalReading;
+  pain_score?: VitalReading;
+}
+
+/** Who said a stretch of a recorded visit, as assigned after diarization */
+export type SpeakerRole = "caregiver" | "patient" | "other";
+
+/** One speaker turn of a diarized recording; times in seconds from the start */
+export interface TranscriptSegment {
+  speaker: SpeakerRole;
+  start: number;
+  end: number;
+  text: string;
 }
 
+export type StructuredEvidenceField =
+  | "key_observations"
+  | "patient_reported"
+  | "activities_completed"
+  | "medication_notes"
+  | "concerns";
+
+/** Spans per item, index-aligned with the matching StructuredVisitData list */
+export type StructuredEvidence = Partial<Record<StructuredEvidenceField, EvidenceSpan[][]>>;
+
 export interface StructuredVisitData {
   visit_summary?: string;
+  /** What the caregiver observed or measured */
   key_observations?: string[];
+  /** Symptoms and complaints stated by the patient; absent on older analyses */
+  patient_reported?: string[];
   activities_completed?: string[];
   medication_notes?: string[];
   concerns?: string[];
   suggested_followups?: string[];
   care_level_indicator?: string;
+  vitals?: VitalSigns;
+  evidence?: StructuredEvidence;
+}
+
+/** Entry on a patient's managed medication list */
+export interface Medication {
+  id: string;
+  name: string;
+  dose?: string;
+  schedule?: string;
+}
+
+/** One discrepancy between a visit's medication notes and the managed list */
+export interface MedicationFinding {
+  type: "missed_dose" | "unknown_medication" | "discrepancy";
+  medication: string;
+  detail: string;
+  severity: "low" | "medium" | "high";
+}
+
+export interface MedicationReconciliation {
+  findings: MedicationFinding[];
+}
+
+/**
+ * "partial" when a step's model output still failed schema validation after
+ * repair; that step's findings may be incomplete
+ */
+export type AnalysisStatus = "complete" | "partial";
+
+/** Schema errors left in one pipeline step's output */
+export interface AnalysisIssue {
+  step: "clean" | "structure" | "analyze" | "reconcile";
+  errors: string[];
+}
+
+/** Which model and prompt versions produced an analysis, for audit */
+export interface AnalysisProvenance {
+  provider: string;
+  model: string;
+  /** Prompt name → version for every step that contributed */
+  prompts: Record<string, string>;
 }
 
 export interface AnalysisResult {
   cleanedTranscript: string;
+  /** Speaker turns of the recording as transcribed; absent for typed notes */
+  segments?: TranscriptSegment[];
   structuredData: StructuredVisitData;
   risks: { risk_flags: RiskFlag[] };
+  /** Present when the patient had a medication list at analysis time */
+  medicationReconciliation?: MedicationReconciliation;
+  /** Missing on analyses saved before validation was added */
+  status?: AnalysisStatus;
+  issues?: AnalysisIssue[];
+  /** Missing on analyses saved before prompts were versioned */
+  provenance?: AnalysisProvenance;
   timestamp: number;
 }
 
+/** Care acuity the agency assigned; selects escalation protocols */
+export type PatientAcuity = "low" | "moderate" | "high";
+
 export interface Patient {
   id: string;
   name: string;
   age: number;
+  /** Payer or program, e.g. "medicare"; matched by escalation rules */
+  payer?: string;
+  acuity?: PatientAcuity;
+  medications?: Medication[];
   analyses: AnalysisResult[];
 }
+
+/** Agency-assigned fields that select escalation protocols */
+export type PatientDetails = Pick<Patient, "payer" | "acuity">;
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules", ".next"],
+    env: {
+      // Each test sees every LLM call instead of the process-wide cache
+      PIPELINE_CACHE: "off",
+    },
+  },
+});